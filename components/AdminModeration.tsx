@@ -0,0 +1,181 @@
+import { ChevronLeft, ChevronRight, EyeOff, Flag, Loader2, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { fetchModerationQueue, moderateProject, type ModerationAction } from "../services/adminApi";
+import { formatDate, formatDateTime } from "../services/i18n";
+import type { ModerationPage } from "../types";
+
+type Queue = "reported" | "hidden";
+
+const PAGE_SIZE = 20;
+
+/** Designs reported from their share pages, and the ones already hidden. */
+export default function AdminModeration() {
+  const { t } = useI18n();
+  const [queue, setQueue] = useState<Queue>("reported");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<ModerationPage | null>(null);
+  const [error, setError] = useState("");
+  // The project an action is running on.
+  const [busy, setBusy] = useState<string | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    setData(null);
+    fetchModerationQueue(queue, page, PAGE_SIZE)
+      .then((result) => current && setData(result))
+      .catch((e) => current && setError(e.message));
+    return () => {
+      current = false;
+    };
+  }, [queue, page]);
+
+  const showQueue = (id: Queue) => {
+    setQueue(id);
+    setPage(1);
+  };
+
+  // Every action takes the project out of the list being shown, so the page is
+  // reloaded to fill the gap, or the one before it shown once this one is empty.
+  const act = async (projectId: string, action: ModerationAction) => {
+    setBusy(projectId);
+    setError("");
+    try {
+      await moderateProject(projectId, action);
+      const next = await fetchModerationQueue(queue, page, PAGE_SIZE);
+      if (next.projects.length === 0 && page > 1) setPage(page - 1);
+      else setData(next);
+      setConfirmingDelete(null);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const items = data?.projects;
+  const pageCount = data ? Math.max(Math.ceil(data.total / data.page_size), 1) : 1;
+  const buttonClass = "px-3 py-1.5 text-xs font-bold rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1.5";
+
+  return (
+    <section>
+      <div className="mb-6 flex gap-2">
+        {(["reported", "hidden"] as const).map((id) => (
+          <button
+            key={id}
+            onClick={() => showQueue(id)}
+            aria-pressed={queue === id}
+            className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${queue === id ? "border-emerald-400 bg-emerald-400/10 text-emerald-400" : "border-white/10 text-gray-300 hover:bg-white/10"}`}
+          >
+            {t(id === "reported" ? "admin.moderation.reported" : "admin.moderation.hidden")}
+          </button>
+        ))}
+      </div>
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      {!items ? (
+        <div className="flex justify-center p-12">
+          <Loader2 className="animate-spin text-emerald-400" size={32} />
+        </div>
+      ) : items.length === 0 ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 p-12 text-center text-gray-400">
+          <Flag size={32} className="mx-auto mb-3 text-gray-500" />
+          {t(queue === "reported" ? "admin.moderation.noReports" : "admin.moderation.noHidden")}
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {items.map(({ project, owner, flags }) => (
+            <article key={project.id} className="bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 p-5 flex flex-col md:flex-row gap-5">
+              <div className="flex gap-2 shrink-0">
+                <img src={project.original_thumbnail || project.original_image} alt={t("design.before")} className="w-32 h-24 object-cover rounded-xl" />
+                <img src={project.redesigned_thumbnail || project.redesigned_image} alt={t("design.after")} className="w-32 h-24 object-cover rounded-xl" />
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-white font-bold">{project.title || project.room_type}</p>
+                <p className="text-sm text-gray-400 break-all">
+                  {owner.name} · {owner.email} · {formatDate(project.created_at)}
+                </p>
+                {project.hidden_at && (
+                  <p className="text-xs text-amber-300 mt-1">{t("admin.moderation.hiddenAt", { date: formatDateTime(project.hidden_at) })}</p>
+                )}
+                {flags.length > 0 && (
+                  <ul className="mt-3 space-y-1 text-sm">
+                    {flags.map((flag) => (
+                      <li key={flag.id} className="text-gray-300">
+                        <span className="font-medium text-red-300">{flag.reason}</span>
+                        <span className="text-gray-500"> · {flag.reporter_email ?? t("admin.moderation.guest")} · {formatDateTime(flag.created_at)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {confirmingDelete === project.id && (
+                  <div className="mt-4 flex items-center justify-between gap-3 bg-red-500/10 border border-red-500/30 rounded-2xl px-4 py-3">
+                    <span className="text-sm text-red-300">{t("admin.moderation.confirmDelete")}</span>
+                    <div className="flex gap-2">
+                      <button onClick={() => act(project.id, "delete")} disabled={busy === project.id} className="px-4 py-1.5 text-sm font-bold bg-red-500 text-white rounded-lg disabled:opacity-50">
+                        {t("common.delete")}
+                      </button>
+                      <button onClick={() => setConfirmingDelete(null)} className="px-4 py-1.5 text-sm text-gray-300 rounded-lg hover:bg-white/10">
+                        {t("common.keep")}
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex md:flex-col gap-2 shrink-0">
+                {queue === "reported" ? (
+                  <>
+                    <button onClick={() => act(project.id, "hide")} disabled={busy === project.id} className={`${buttonClass} bg-amber-400/10 text-amber-300 hover:bg-amber-400/20`}>
+                      <EyeOff size={14} /> {t("admin.moderation.hide")}
+                    </button>
+                    <button onClick={() => act(project.id, "dismiss")} disabled={busy === project.id} className={`${buttonClass} bg-white/10 text-white hover:bg-white/20`}>
+                      {t("admin.moderation.dismiss")}
+                    </button>
+                  </>
+                ) : (
+                  <button onClick={() => act(project.id, "unhide")} disabled={busy === project.id} className={`${buttonClass} bg-white/10 text-white hover:bg-white/20`}>
+                    {t("admin.moderation.unhide")}
+                  </button>
+                )}
+                <button
+                  onClick={() => setConfirmingDelete(project.id)}
+                  disabled={busy === project.id}
+                  className={`${buttonClass} text-red-400 hover:bg-red-500/20`}
+                >
+                  <Trash2 size={14} /> {t("common.delete")}
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+
+      {data && pageCount > 1 && (
+        <div className="mt-6 flex items-center justify-end gap-3 text-sm text-gray-400">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page <= 1}
+            aria-label={t("projects.previousPage")}
+            className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+          >
+            <ChevronLeft size={16} />
+          </button>
+          <span>{t("projects.page", { page: data.page, count: pageCount })}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page >= pageCount}
+            aria-label={t("projects.nextPage")}
+            className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+          >
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      )}
+    </section>
+  );
+}
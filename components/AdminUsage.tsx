@@ -0,0 +1,150 @@
+import { Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { fetchUsageMetrics } from "../services/adminApi";
+import type { MessageKey } from "../services/i18n";
+import type { UsageMetrics } from "../types";
+
+const WINDOWS = [7, 30, 90];
+
+// Job error kinds (AIErrorKind plus "unknown") as operators know them.
+const FAILURE_LABELS: Record<string, MessageKey> = {
+  "invalid-room": "admin.failure.invalidRoom",
+  auth: "admin.failure.auth",
+  quota: "admin.failure.quota",
+  "safety-blocked": "admin.failure.safetyBlocked",
+  transient: "admin.failure.transient",
+  timeout: "admin.failure.timeout",
+  unknown: "admin.failure.unknown",
+};
+
+const formatPercent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+/** Per-day generation counts, failures by error kind and model latency. */
+export default function AdminUsage() {
+  const { t } = useI18n();
+  const [days, setDays] = useState(30);
+  const [metrics, setMetrics] = useState<UsageMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let current = true;
+    setLoading(true);
+    fetchUsageMetrics(days)
+      .then((result) => current && setMetrics(result))
+      .catch((e) => current && setError(e.message))
+      .finally(() => current && setLoading(false));
+    return () => {
+      current = false;
+    };
+  }, [days]);
+
+  if (!metrics) {
+    return error
+      ? <p role="alert" className="text-sm text-red-400">{error}</p>
+      : (
+        <div className="flex justify-center p-12">
+          <Loader2 className="animate-spin text-emerald-400" size={32} />
+        </div>
+      );
+  }
+
+  const generations = metrics.days.reduce((sum, day) => sum + day.redesigns + day.edits, 0);
+  const failed = metrics.failures.reduce((sum, f) => sum + f.count, 0);
+  const busiest = Math.max(...metrics.days.map((day) => day.redesigns + day.edits), 1);
+  const formatSeconds = (ms: number | null) =>
+    ms === null ? "—" : t("admin.usage.seconds", { value: (ms / 1000).toFixed(1) });
+  const cards = [
+    { label: t("admin.usage.generations"), value: String(generations) },
+    { label: t("admin.usage.failureRate"), value: metrics.finished ? formatPercent(failed / metrics.finished) : "—" },
+    { label: t("admin.usage.avgAnalysis"), value: formatSeconds(metrics.latency.analysis_ms) },
+    { label: t("admin.usage.avgRedesign"), value: formatSeconds(metrics.latency.redesign_ms) },
+    { label: t("admin.usage.avgEdit"), value: formatSeconds(metrics.latency.edit_ms) },
+  ];
+
+  return (
+    <section className={`space-y-8 transition-opacity ${loading ? "opacity-60" : ""}`}>
+      <div className="flex items-center justify-between gap-4">
+        {error ? <p role="alert" className="text-sm text-red-400">{error}</p> : <span />}
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          aria-label={t("admin.usage.window")}
+          className="px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm"
+        >
+          {WINDOWS.map((window) => (
+            <option key={window} value={window}>{t("admin.usage.lastDays", { count: window })}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {cards.map((card) => (
+          <div key={card.label} className="bg-white/5 rounded-3xl border border-white/10 p-5">
+            <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{card.label}</p>
+            <p className="text-2xl font-bold text-white">{card.value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 -mt-4">{t("admin.usage.latencyNote")}</p>
+
+      <div className="bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 p-6">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-6">{t("admin.usage.perDay")}</h3>
+        <div className="flex items-end gap-1 h-40" role="img" aria-label={t("admin.usage.perDayLabel")}>
+          {metrics.days.map((day) => {
+            const total = day.redesigns + day.edits;
+            return (
+              <div
+                key={day.date}
+                title={t("admin.usage.dayTitle", { ...day })}
+                className="flex-1 flex flex-col justify-end h-full"
+              >
+                <div className="flex flex-col rounded-t overflow-hidden" style={{ height: `${(total / busiest) * 100}%` }}>
+                  <div className="bg-red-400/70" style={{ flexGrow: day.failed }} />
+                  <div className="bg-gray-500/60" style={{ flexGrow: day.canceled }} />
+                  <div className="bg-emerald-400/80" style={{ flexGrow: total - day.failed - day.canceled }} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-3 flex justify-between text-xs text-gray-500">
+          <span>{metrics.days[0]?.date}</span>
+          <span className="flex gap-4">
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-emerald-400/80" /> {t("admin.usage.succeeded")}</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-red-400/70" /> {t("admin.usage.failed")}</span>
+            <span className="flex items-center gap-1.5"><span className="w-2.5 h-2.5 rounded-sm bg-gray-500/60" /> {t("admin.usage.canceled")}</span>
+          </span>
+          <span>{metrics.days[metrics.days.length - 1]?.date}</span>
+        </div>
+      </div>
+
+      <div className="bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 overflow-x-auto">
+        <h3 className="px-6 pt-6 text-sm font-bold text-gray-400 uppercase tracking-wider">{t("admin.usage.failures")}</h3>
+        {metrics.failures.length === 0 ? (
+          <p className="px-6 py-8 text-gray-400">{t("admin.usage.noFailures")}</p>
+        ) : (
+          <table className="w-full text-sm mt-4">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-gray-400 border-b border-white/10">
+                <th className="px-6 py-3 font-bold">{t("admin.usage.error")}</th>
+                <th className="px-6 py-3 font-bold text-right">{t("admin.usage.jobs")}</th>
+                <th className="px-6 py-3 font-bold text-right">{t("admin.usage.share")}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {metrics.failures.map((f) => (
+                <tr key={f.kind} className="border-b border-white/5 last:border-0">
+                  <td className="px-6 py-3 text-white">{f.kind in FAILURE_LABELS ? t(FAILURE_LABELS[f.kind]) : f.kind}</td>
+                  <td className="px-6 py-3 text-right text-gray-300">{f.count}</td>
+                  <td className="px-6 py-3 text-right font-bold text-red-300">{formatPercent(f.rate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,194 @@
+import { ChevronLeft, ChevronRight, Loader2, Search } from "lucide-react";
+import { FormEvent, useEffect, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { adjustUserCredits, fetchAdminUsers } from "../services/adminApi";
+import { formatDate } from "../services/i18n";
+import type { AdminUser, AdminUserPage } from "../types";
+
+const PAGE_SIZE = 25;
+
+/** Searchable list of accounts, with credit adjustments. */
+export default function AdminUsers() {
+  const { t } = useI18n();
+  const [query, setQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AdminUserPage | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  // The user whose credits are being adjusted, and the draft adjustment.
+  const [adjusting, setAdjusting] = useState<string | null>(null);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let current = true;
+    setLoading(true);
+    fetchAdminUsers(search, page, PAGE_SIZE)
+      .then((result) => current && setData(result))
+      .catch((e) => current && setError(e.message))
+      .finally(() => current && setLoading(false));
+    return () => {
+      current = false;
+    };
+  }, [search, page]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setSearch(query.trim());
+  };
+
+  const startAdjusting = (user: AdminUser) => {
+    setAdjusting(user.id);
+    setAmount("");
+    setNote("");
+    setError("");
+  };
+
+  const handleAdjust = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!adjusting) return;
+    setSaving(true);
+    setError("");
+    try {
+      const updated = await adjustUserCredits(adjusting, Number(amount), note);
+      setData((current) => current && { ...current, users: current.users.map((u) => (u.id === updated.id ? updated : u)) });
+      setAdjusting(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const pageCount = data ? Math.max(Math.ceil(data.total / data.page_size), 1) : 1;
+  const inputClass = "px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm";
+
+  return (
+    <section>
+      <form onSubmit={handleSearch} className="mb-6 flex gap-2 max-w-md">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t("admin.users.searchPlaceholder")}
+          aria-label={t("admin.users.search")}
+          className={`flex-1 ${inputClass}`}
+        />
+        <button type="submit" aria-label={t("admin.users.searchButton")} className="px-3 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors">
+          <Search size={16} />
+        </button>
+      </form>
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      {!data && loading ? (
+        <div className="flex justify-center p-12">
+          <Loader2 className="animate-spin text-emerald-400" size={32} />
+        </div>
+      ) : data && data.total === 0 ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 p-12 text-center text-gray-400">
+          {t("admin.users.empty", { search })}
+        </div>
+      ) : data && (
+        <>
+          <div className={`bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 overflow-x-auto transition-opacity ${loading ? "opacity-60" : ""}`}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase tracking-wider text-gray-400 border-b border-white/10">
+                  <th className="px-6 py-3 font-bold">{t("admin.users.user")}</th>
+                  <th className="px-6 py-3 font-bold">{t("admin.users.joined")}</th>
+                  <th className="px-6 py-3 font-bold text-right">{t("admin.users.projects")}</th>
+                  <th className="px-6 py-3 font-bold text-right">{t("admin.usage.jobs")}</th>
+                  <th className="px-6 py-3 font-bold text-right">{t("admin.users.credits")}</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {data.users.map((u) => (
+                  <tr key={u.id} className="border-b border-white/5 last:border-0 align-top">
+                    <td className="px-6 py-3">
+                      <p className="text-white font-medium">
+                        {u.name}
+                        {u.role === "admin" && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-[10px] font-bold uppercase bg-emerald-400/10 text-emerald-300">{t("admin.users.admin")}</span>
+                        )}
+                      </p>
+                      <p className="text-gray-400 break-all">{u.email}</p>
+                      {adjusting === u.id && (
+                        <form onSubmit={handleAdjust} className="mt-3 flex flex-wrap gap-2">
+                          <input
+                            type="number"
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                            placeholder={t("admin.users.amountPlaceholder")}
+                            aria-label={t("admin.users.amount")}
+                            required
+                            className={`w-28 ${inputClass}`}
+                          />
+                          <input
+                            value={note}
+                            onChange={(e) => setNote(e.target.value)}
+                            placeholder={t("admin.users.notePlaceholder")}
+                            aria-label={t("admin.users.note")}
+                            maxLength={200}
+                            required
+                            className={`flex-1 min-w-[12rem] ${inputClass}`}
+                          />
+                          <button
+                            type="submit"
+                            disabled={saving}
+                            className="px-4 py-2 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-xl text-sm font-bold disabled:opacity-50 flex items-center gap-2"
+                          >
+                            {saving && <Loader2 size={14} className="animate-spin" />} {t("admin.users.apply")}
+                          </button>
+                          <button type="button" onClick={() => setAdjusting(null)} className="px-4 py-2 text-sm text-gray-300 rounded-xl hover:bg-white/10">
+                            {t("common.cancel")}
+                          </button>
+                        </form>
+                      )}
+                    </td>
+                    <td className="px-6 py-3 text-gray-400 whitespace-nowrap">{formatDate(u.created_at)}</td>
+                    <td className="px-6 py-3 text-right text-gray-300">{u.project_count}</td>
+                    <td className="px-6 py-3 text-right text-gray-300">{u.job_count}</td>
+                    <td className="px-6 py-3 text-right font-bold text-emerald-400">{u.credits}</td>
+                    <td className="px-6 py-3 text-right">
+                      {adjusting !== u.id && (
+                        <button onClick={() => startAdjusting(u)} className="px-3 py-1.5 text-xs font-bold text-white bg-white/10 rounded-lg hover:bg-white/20">
+                          {t("admin.users.adjust")}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {pageCount > 1 && (
+            <div className="mt-6 flex items-center justify-end gap-3 text-sm text-gray-400">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1 || loading}
+                aria-label={t("projects.previousPage")}
+                className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span>{t("projects.page", { page: data.page, count: pageCount })}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount || loading}
+                aria-label={t("projects.nextPage")}
+                className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
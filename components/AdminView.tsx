@@ -0,0 +1,48 @@
+import { BarChart3, Flag, Users, type LucideIcon } from "lucide-react";
+import AdminModeration from "./AdminModeration";
+import AdminUsage from "./AdminUsage";
+import AdminUsers from "./AdminUsers";
+import Link from "./Link";
+import { useI18n } from "../hooks/useI18n";
+import type { AdminTab } from "../hooks/useRoute";
+import type { MessageKey } from "../services/i18n";
+
+interface AdminViewProps {
+  tab: AdminTab;
+}
+
+const TABS: { tab: AdminTab; href: string; label: MessageKey; icon: LucideIcon }[] = [
+  { tab: "users", href: "/admin", label: "admin.tab.users", icon: Users },
+  { tab: "usage", href: "/admin/usage", label: "admin.tab.usage", icon: BarChart3 },
+  { tab: "moderation", href: "/admin/moderation", label: "admin.tab.moderation", icon: Flag },
+];
+
+/** /admin: operator tools, for users whose record has the admin role. */
+export default function AdminView({ tab }: AdminViewProps) {
+  const { t } = useI18n();
+  return (
+    <div className="max-w-6xl mx-auto">
+      <header className="mb-8">
+        <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("admin.title")}</h2>
+        <p className="text-gray-400">{t("admin.subtitle")}</p>
+      </header>
+
+      <nav className="mb-8 flex gap-2" aria-label={t("admin.sections")}>
+        {TABS.map(({ tab: id, href, label, icon: Icon }) => (
+          <Link
+            key={id}
+            href={href}
+            aria-current={tab === id ? "page" : undefined}
+            className={`px-4 py-2 rounded-full text-sm font-bold border flex items-center gap-2 transition-colors ${tab === id ? "border-emerald-400 bg-emerald-400/10 text-emerald-400" : "border-white/10 text-gray-300 hover:bg-white/10"}`}
+          >
+            <Icon size={16} /> {t(label)}
+          </Link>
+        ))}
+      </nav>
+
+      {tab === "users" && <AdminUsers />}
+      {tab === "usage" && <AdminUsage />}
+      {tab === "moderation" && <AdminModeration />}
+    </div>
+  );
+}
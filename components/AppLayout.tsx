@@ -0,0 +1,124 @@
+import { Building2, Coins, History, Home, Images, LogOut, Settings, ShieldCheck, Sparkles, Wand2, type LucideIcon } from "lucide-react";
+import { useEffect, useRef, type ReactNode } from "react";
+import Link from "./Link";
+import Notice, { type NoticeData } from "./Notice";
+import { useI18n } from "../hooks/useI18n";
+import type { Route } from "../hooks/useRoute";
+import type { MessageKey } from "../services/i18n";
+import type { UserData } from "../types";
+
+interface AppLayoutProps {
+  route: Route;
+  user: UserData;
+  notice: NoticeData | null;
+  onDismissNotice: () => void;
+  onSignOut: () => void;
+  children: ReactNode;
+}
+
+interface NavItem {
+  href: string;
+  label: MessageKey;
+  icon: LucideIcon;
+  /** Routes that highlight this item. */
+  routes: Route["name"][];
+  adminOnly?: boolean;
+}
+
+const NAV_ITEMS: NavItem[] = [
+  { href: "/design", label: "nav.design", icon: Wand2, routes: ["design"] },
+  { href: "/projects", label: "nav.projects", icon: History, routes: ["projects", "project"] },
+  { href: "/homes", label: "nav.homes", icon: Building2, routes: ["homes", "home"] },
+  { href: "/gallery", label: "nav.gallery", icon: Images, routes: ["gallery"] },
+  { href: "/credits", label: "nav.credits", icon: Coins, routes: ["credits"] },
+  { href: "/settings", label: "nav.settings", icon: Settings, routes: ["settings"] },
+  { href: "/admin", label: "nav.admin", icon: ShieldCheck, routes: ["admin"], adminOnly: true },
+];
+
+/** Sidebar frame around every signed-in page. */
+export default function AppLayout({ route, user, notice, onDismissNotice, onSignOut, children }: AppLayoutProps) {
+  const { t } = useI18n();
+  const mainRef = useRef<HTMLElement>(null);
+
+  // The main pane scrolls on its own, so a new page would otherwise open scrolled down.
+  useEffect(() => {
+    mainRef.current?.scrollTo(0, 0);
+  }, [route]);
+
+  return (
+    <div className="min-h-screen flex">
+      {/* Sidebar */}
+      <aside className="w-20 md:w-64 border-r border-white/10 bg-black/30 backdrop-blur-md flex flex-col">
+        <div className="p-6 flex items-center gap-3">
+          <Link href="/" className="flex items-center gap-3 hover:opacity-80 transition-opacity">
+            <div className="w-10 h-10 bg-gradient-to-br from-emerald-400 to-cyan-500 rounded-xl flex items-center justify-center text-white shrink-0">
+              <Sparkles size={20} />
+            </div>
+            <span className="font-serif text-xl font-bold hidden md:block text-white">GruhaBuddy</span>
+          </Link>
+        </div>
+
+        <nav className="flex-1 px-4 py-6 space-y-2">
+          <Link
+            href="/"
+            className="w-full flex items-center gap-3 p-3 rounded-xl transition-colors text-gray-300 hover:bg-white/10"
+          >
+            <Home size={20} />
+            <span className="font-medium hidden md:block">{t("nav.home")}</span>
+          </Link>
+          {NAV_ITEMS.filter((item) => !item.adminOnly || user.role === "admin").map(({ href, label, icon: Icon, routes }) => {
+            const active = routes.includes(route.name);
+            return (
+              <Link
+                key={href}
+                href={href}
+                aria-current={active ? "page" : undefined}
+                className={`w-full flex items-center gap-3 p-3 rounded-xl transition-colors ${active ? "bg-gradient-to-r from-emerald-400 to-cyan-500 text-black" : "text-gray-300 hover:bg-white/10"}`}
+              >
+                <Icon size={20} />
+                <span className="font-medium hidden md:block">{t(label)}</span>
+              </Link>
+            );
+          })}
+        </nav>
+
+        <div className="p-4 border-t border-white/10">
+          <Link
+            href="/credits"
+            aria-label={t("nav.credits")}
+            className="w-full text-left bg-white/5 hover:bg-white/10 transition-colors rounded-2xl p-4 hidden md:block mb-4"
+          >
+            <div className="flex justify-between items-center mb-2">
+              <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t("nav.credits")}</span>
+              <span className="text-emerald-400 font-bold">{user.credits}</span>
+            </div>
+            <div className="w-full bg-white/20 h-1.5 rounded-full overflow-hidden">
+              {/* Counts down from the balance after the latest grant or top-up. */}
+              <div
+                className="bg-gradient-to-r from-emerald-400 to-cyan-500 h-full transition-all duration-500"
+                style={{ width: `${user.credits_max ? Math.min(user.credits / user.credits_max, 1) * 100 : 0}%` }}
+              />
+            </div>
+          </Link>
+          <button
+            onClick={onSignOut}
+            className="w-full flex items-center gap-3 p-3 text-gray-400 hover:bg-red-500/20 hover:text-red-400 rounded-xl transition-colors"
+          >
+            <LogOut size={20} />
+            <span className="font-medium hidden md:block">{t("nav.signOut")}</span>
+          </button>
+        </div>
+      </aside>
+
+      {/* Main Content */}
+      <main ref={mainRef} className="flex-1 overflow-y-auto p-6 md:p-10">
+        {notice && (
+          <div className="sticky top-0 z-40 max-w-6xl mx-auto mb-6">
+            <Notice notice={notice} onDismiss={onDismissNotice} />
+          </div>
+        )}
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { useState } from "react";
+import { t } from "../services/i18n";
+
+interface BeforeAfterSliderProps {
+  before: string;
+  after: string;
+  className?: string;
+}
+
+export default function BeforeAfterSlider({ before, after, className = "" }: BeforeAfterSliderProps) {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className={`relative aspect-video rounded-3xl overflow-hidden border border-white/10 select-none ${className}`}>
+      <img src={before} alt={t("design.before")} className="absolute inset-0 w-full h-full object-cover" />
+      <img
+        src={after}
+        alt={t("design.after")}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+      />
+
+      <div className="absolute inset-y-0 w-1 bg-white shadow-2xl pointer-events-none" style={{ left: `calc(${position}% - 2px)` }}>
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white text-black flex items-center justify-center text-xs font-bold">
+          ⇆
+        </div>
+      </div>
+
+      <span className="absolute top-4 left-4 px-3 py-1 bg-black/70 backdrop-blur-sm rounded-full text-[10px] font-bold uppercase tracking-widest text-white pointer-events-none">
+        {t("design.before")}
+      </span>
+      <span className="absolute top-4 right-4 px-3 py-1 bg-black/70 backdrop-blur-sm rounded-full text-[10px] font-bold uppercase tracking-widest text-emerald-400 pointer-events-none">
+        {t("design.after")}
+      </span>
+
+      {/* A transparent range input gives drag, touch and keyboard support for free. */}
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        aria-label={t("design.compare")}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+      />
+    </div>
+  );
+}
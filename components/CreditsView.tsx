@@ -0,0 +1,182 @@
+import { ChevronLeft, ChevronRight, Coins, Loader2, Receipt } from "lucide-react";
+import { useEffect, useState } from "react";
+import { fetchCreditPlans, fetchCreditTransactions, startCheckout } from "../services/creditsApi";
+import { useI18n } from "../hooks/useI18n";
+import type { MessageKey } from "../services/i18n";
+import { formatInr } from "../services/shoppingList";
+import type { CreditPlan, CreditTransactionKind, CreditTransactionPage, UserData } from "../types";
+
+interface CreditsViewProps {
+  user: UserData;
+}
+
+const PAGE_SIZE = 15;
+
+const KIND_LABELS: Record<CreditTransactionKind, MessageKey> = {
+  grant: "credits.kind.grant",
+  debit: "credits.kind.debit",
+  refund: "credits.kind.refund",
+  purchase: "credits.kind.purchase",
+};
+
+const KIND_STYLES: Record<CreditTransactionKind, string> = {
+  grant: "bg-cyan-400/10 text-cyan-300",
+  debit: "bg-white/10 text-gray-300",
+  refund: "bg-amber-400/10 text-amber-300",
+  purchase: "bg-emerald-400/10 text-emerald-300",
+};
+
+/** Balance, credit packs for sale and the full credit history. */
+export default function CreditsView({ user }: CreditsViewProps) {
+  const { t, formatDateTime } = useI18n();
+  const [plans, setPlans] = useState<CreditPlan[]>([]);
+  const [history, setHistory] = useState<CreditTransactionPage | null>(null);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [buying, setBuying] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchCreditPlans().then(setPlans).catch((e) => setError(e.message));
+  }, []);
+
+  useEffect(() => {
+    let current = true;
+    setLoading(true);
+    fetchCreditTransactions(page, PAGE_SIZE)
+      .then((data) => current && setHistory(data))
+      .catch((e) => current && setError(e.message))
+      .finally(() => current && setLoading(false));
+    return () => {
+      current = false;
+    };
+    // A new balance means new entries, so the history follows it.
+  }, [page, user.credits]);
+
+  const handleBuy = async (plan: CreditPlan) => {
+    setBuying(plan.id);
+    setError("");
+    try {
+      const { checkout_url } = await startCheckout(plan.id);
+      window.location.href = checkout_url;
+    } catch (e: any) {
+      setError(e.message);
+      setBuying(null);
+    }
+  };
+
+  const pageCount = history ? Math.max(Math.ceil(history.total / history.page_size), 1) : 1;
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <header className="mb-8 flex justify-between items-end">
+        <div>
+          <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("credits.title")}</h2>
+          <p className="text-gray-400">{t("credits.subtitle")}</p>
+        </div>
+        <div className="text-right">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t("credits.balance")}</p>
+          <p className="text-4xl font-bold text-emerald-400">{user.credits}</p>
+        </div>
+      </header>
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      <section className="mb-12">
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">{t("action.buyCredits")}</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {plans.map((plan) => (
+            <div
+              key={plan.id}
+              className={`bg-black/30 backdrop-blur-md rounded-3xl border p-6 flex flex-col ${plan.kind === "plan" ? "border-emerald-400/40" : "border-white/10"}`}
+            >
+              <span className="text-[10px] font-bold uppercase tracking-widest text-emerald-400 mb-2">
+                {plan.kind === "plan" ? t("credits.plan") : t("credits.topUp")}
+              </span>
+              <h4 className="text-xl font-bold text-white">{plan.name}</h4>
+              <p className="text-sm text-gray-400 mb-4 flex-1">{plan.description}</p>
+              <p className="flex items-center gap-2 text-white font-bold mb-1">
+                <Coins size={16} className="text-emerald-400" /> {t("credits.amount", { count: plan.credits })}
+              </p>
+              <p className="text-xs text-gray-400 mb-4">{t("credits.perCredit", { price: formatInr(plan.price_inr / plan.credits) })}</p>
+              <button
+                onClick={() => handleBuy(plan)}
+                disabled={buying !== null}
+                className="w-full py-2.5 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-xl font-bold hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center justify-center gap-2"
+              >
+                {buying === plan.id && <Loader2 size={16} className="animate-spin" />} {formatInr(plan.price_inr)}
+              </button>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="text-sm font-bold text-gray-400 uppercase tracking-wider mb-4">{t("credits.history")}</h3>
+        {!history && loading ? (
+          <div className="flex justify-center p-12">
+            <Loader2 className="animate-spin text-emerald-400" size={32} />
+          </div>
+        ) : history && history.total === 0 ? (
+          <div className="bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 p-12 text-center text-gray-400">
+            <Receipt size={32} className="mx-auto mb-3 text-gray-500" />
+            {t("credits.empty")}
+          </div>
+        ) : history && (
+          <>
+            <div className={`bg-black/30 backdrop-blur-md rounded-3xl border border-white/10 overflow-x-auto transition-opacity ${loading ? "opacity-60" : ""}`}>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-gray-400 border-b border-white/10">
+                    <th className="px-6 py-3 font-bold">{t("credits.date")}</th>
+                    <th className="px-6 py-3 font-bold">{t("credits.type")}</th>
+                    <th className="px-6 py-3 font-bold">{t("credits.details")}</th>
+                    <th className="px-6 py-3 font-bold text-right">{t("credits.title")}</th>
+                    <th className="px-6 py-3 font-bold text-right">{t("credits.balance")}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.transactions.map((entry) => (
+                    <tr key={entry.id} className="border-b border-white/5 last:border-0">
+                      <td className="px-6 py-3 text-gray-400 whitespace-nowrap">{formatDateTime(entry.created_at)}</td>
+                      <td className="px-6 py-3">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${KIND_STYLES[entry.kind]}`}>{t(KIND_LABELS[entry.kind])}</span>
+                      </td>
+                      <td className="px-6 py-3 text-white">{entry.description}</td>
+                      <td className={`px-6 py-3 text-right font-bold ${entry.amount < 0 ? "text-gray-300" : "text-emerald-400"}`}>
+                        {entry.amount > 0 ? `+${entry.amount}` : entry.amount}
+                      </td>
+                      <td className="px-6 py-3 text-right text-gray-400">{entry.balance}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {pageCount > 1 && (
+              <div className="mt-6 flex items-center justify-end gap-3 text-sm text-gray-400">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                  aria-label={t("projects.previousPage")}
+                  className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+                <span>{t("projects.page", { page: history.page, count: pageCount })}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount || loading}
+                  aria-label={t("projects.nextPage")}
+                  className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+                >
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+}
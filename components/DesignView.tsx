@@ -0,0 +1,428 @@
+import { motion } from "motion/react";
+import { Brush, CheckCircle2, Image as ImageIcon, Images, Loader2, Palette, Sparkles, TriangleAlert, Upload, X } from "lucide-react";
+import { ChangeEvent, useRef, useState } from "react";
+import MaskEditor from "./MaskEditor";
+import StyleCard from "./StyleCard";
+import StyleManager from "./StyleManager";
+import VariationPicker from "./VariationPicker";
+import type { DesignSession } from "../hooks/useDesign";
+import { useI18n } from "../hooks/useI18n";
+import { navigate } from "../hooks/useRoute";
+import type { StyleOption } from "../hooks/useStyles";
+import { MAX_VARIATIONS } from "../services/geminiService";
+import { ACCEPTED_IMAGE_TYPES } from "../services/imagePreprocessing";
+import type { CustomStyle, UserData } from "../types";
+
+interface DesignViewProps {
+  user: UserData;
+  design: DesignSession;
+  styles: StyleOption[];
+  customStyles: CustomStyle[];
+  reloadStyles: () => Promise<void>;
+}
+
+/** /design: upload a room, pick a style, then generate the redesign or edit part of it. */
+export default function DesignView({ user, design, styles, customStyles, reloadStyles }: DesignViewProps) {
+  const {
+    loading,
+    status,
+    activeJobId,
+    image,
+    preparingImage,
+    uploadError,
+    selectedStyle,
+    setSelectedStyle,
+    homes,
+    designHome,
+    inspiration,
+    setInspiration,
+    analysis,
+    resultImage,
+    setResultImage,
+    variationCount,
+    setVariationCount,
+    preserveLayout,
+    setPreserveLayout,
+    forceRegenerate,
+    setForceRegenerate,
+    driftedImages,
+    variations,
+    selectedVariations,
+    savingVariations,
+    variationsSaved,
+    editingRegion,
+    setEditingRegion,
+    savedProjectId,
+    cancelActiveJob,
+    startRedesign,
+    inpaint,
+    toggleVariation,
+    saveVariations,
+    share,
+    changeHome,
+  } = design;
+  const { t } = useI18n();
+  const [showStyleManager, setShowStyleManager] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires onChange.
+    e.target.value = "";
+    if (file) design.uploadPhoto(file);
+  };
+
+  return (
+    <>
+      <div className="max-w-6xl mx-auto">
+        <header className="mb-10">
+          <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("design.title")}</h2>
+          <p className="text-gray-400">{t("design.subtitle")}</p>
+        </header>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+          {/* Left: Upload & Style */}
+          <div className="lg:col-span-1 space-y-8">
+            <section>
+              <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4">{t("design.uploadHeading")}</h3>
+              <div
+                onClick={() => fileInputRef.current?.click()}
+                className={`aspect-video rounded-3xl border-2 border-dashed transition-all cursor-pointer flex flex-col items-center justify-center p-6 text-center ${image ? "border-emerald-400 bg-black/30" : "border-white/20 hover:border-emerald-400/50 bg-white/5"}`}
+              >
+                {preparingImage ? (
+                  <>
+                    <Loader2 className="animate-spin text-emerald-400 mb-4" />
+                    <p className="text-white font-medium">{t("design.preparing")}</p>
+                  </>
+                ) : image ? (
+                  <img src={image} alt={t("design.uploadAlt")} className="w-full h-full object-cover rounded-2xl" />
+                ) : (
+                  <>
+                    <div className="w-12 h-12 bg-white/10 rounded-2xl flex items-center justify-center mb-4 backdrop-blur-sm">
+                      <Upload className="text-emerald-400" />
+                    </div>
+                    <p className="text-white font-medium">{t("design.uploadPrompt")}</p>
+                    <p className="text-gray-400 text-sm mt-1">{t("design.uploadHint")}</p>
+                  </>
+                )}
+                <input
+                  type="file"
+                  ref={fileInputRef}
+                  onChange={handleImageUpload}
+                  className="hidden"
+                  accept={ACCEPTED_IMAGE_TYPES}
+                />
+              </div>
+              {uploadError && (
+                <p role="alert" className="mt-3 text-sm text-red-400">{uploadError}</p>
+              )}
+            </section>
+
+            <section>
+              <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4">{t("design.styleHeading")}</h3>
+              {homes.length > 0 && (
+                <div className="mb-4">
+                  <select
+                    value={designHome?.id ?? ""}
+                    onChange={(e) => changeHome(e.target.value)}
+                    aria-label={t("design.homeLabel")}
+                    className="w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-emerald-400"
+                  >
+                    <option value="">{t("design.standalone")}</option>
+                    {homes.map((home) => (
+                      <option key={home.id} value={home.id}>{t("design.partOfHome", { home: home.name })}</option>
+                    ))}
+                  </select>
+                  {designHome && (
+                    <p className="text-xs text-gray-400 mt-2">
+                      {t(designHome.palette.length > 0 ? "design.homePaletteNote" : "design.homeNote", { home: designHome.name })}
+                    </p>
+                  )}
+                </div>
+              )}
+              <div className="grid grid-cols-1 gap-3">
+                {(designHome ? styles.filter((style) => style.id === designHome.style) : styles).map((style) => (
+                  <StyleCard
+                    key={style.id}
+                    style={style}
+                    selected={selectedStyle === style.id}
+                    onSelect={() => setSelectedStyle(style.id)}
+                  />
+                ))}
+                {inspiration && (
+                  <div className="flex items-center gap-3 p-3 rounded-2xl border border-emerald-400/40 bg-emerald-400/5">
+                    <img src={inspiration.stored.thumbnail_url} alt="" className="w-14 h-14 rounded-xl object-cover shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-xs font-bold text-emerald-400 uppercase tracking-wider">{t("design.inspiration")}</p>
+                      <p className="text-sm text-white truncate first-letter:uppercase">{inspiration.image.description}</p>
+                    </div>
+                    <button
+                      onClick={() => setInspiration(null)}
+                      aria-label={t("design.removeInspiration")}
+                      className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-gray-400 hover:bg-white/20 hover:text-white shrink-0"
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={() => navigate("/gallery")}
+                  className="flex items-center justify-center gap-2 p-4 rounded-2xl border border-dashed border-white/20 text-gray-300 hover:border-emerald-400/50 hover:text-white transition-colors"
+                >
+                  <Images size={18} /> {inspiration ? t("design.pickAnotherReference") : t("design.addReference")}
+                </button>
+                <button
+                  onClick={() => setShowStyleManager(true)}
+                  className="flex items-center justify-center gap-2 p-4 rounded-2xl border border-dashed border-white/20 text-gray-300 hover:border-emerald-400/50 hover:text-white transition-colors"
+                >
+                  <Palette size={18} /> {t("design.createStyle")}
+                </button>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4">{t("design.variationsHeading")}</h3>
+              <div className="grid grid-cols-4 gap-3">
+                {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map((count) => (
+                  <button
+                    key={count}
+                    disabled={count > user.credits}
+                    onClick={() => setVariationCount(count)}
+                    className={`py-3 rounded-2xl border font-bold transition-all disabled:opacity-30 disabled:cursor-not-allowed ${variationCount === count ? "border-emerald-400 bg-emerald-400/10 text-emerald-400" : "border-white/10 bg-white/5 text-white hover:bg-white/10"}`}
+                  >
+                    {count}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500 mt-3">{t("design.variationCost")}</p>
+              <label className="mt-4 flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={preserveLayout}
+                  onChange={(e) => setPreserveLayout(e.target.checked)}
+                  className="mt-1 accent-emerald-400"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-white">{t("design.preserveLayout")}</span>
+                  <span className="block text-xs text-gray-500">{t("design.preserveLayoutHint")}</span>
+                </span>
+              </label>
+              <label className="mt-4 flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={forceRegenerate}
+                  onChange={(e) => setForceRegenerate(e.target.checked)}
+                  className="mt-1 accent-emerald-400"
+                />
+                <span>
+                  <span className="block text-sm font-semibold text-white">{t("design.forceRegenerate")}</span>
+                  <span className="block text-xs text-gray-500">{t("design.forceRegenerateHint")}</span>
+                </span>
+              </label>
+            </section>
+
+            <button
+              disabled={!image || loading || preparingImage}
+              onClick={startRedesign}
+              className="w-full py-5 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold text-lg hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="animate-spin" />
+                  <span>{t("design.processing")}</span>
+                </>
+              ) : (
+                <>
+                  <Sparkles size={20} />
+                  <span>{t("design.generate")}</span>
+                </>
+              )}
+            </button>
+
+            <button
+              disabled={!image || loading || preparingImage}
+              onClick={() => setEditingRegion(true)}
+              className="w-full py-4 bg-white/10 border border-white/20 text-white rounded-2xl font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
+            >
+              <Brush size={18} />
+              <span>{t("design.editRegionOnly")}</span>
+            </button>
+          </div>
+
+          {/* Right: Results */}
+          <div className="lg:col-span-2">
+            <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-8 min-h-[600px] flex flex-col">
+              {editingRegion && (resultImage || image) && (
+                <MaskEditor
+                  image={(resultImage || image)!}
+                  busy={loading}
+                  onApply={inpaint}
+                  onCancel={() => setEditingRegion(false)}
+                />
+              )}
+
+              {!loading && !resultImage && !editingRegion && (
+                <div className="flex-1 flex flex-col items-center justify-center text-center text-gray-500">
+                  <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mb-6">
+                    <ImageIcon size={40} className="text-gray-500" />
+                  </div>
+                  <h3 className="text-2xl font-serif font-medium text-gray-400">{t("design.emptyTitle")}</h3>
+                  <p className="max-w-xs mt-2 text-gray-500">{t("design.emptyMessage")}</p>
+                </div>
+              )}
+
+              {loading && !editingRegion && (
+                <div className="flex-1 flex flex-col items-center justify-center text-center">
+                  <div className="relative w-32 h-32 mb-10">
+                    <motion.div
+                      animate={{ rotate: 360 }}
+                      transition={{ duration: 4, repeat: Infinity, ease: "linear" }}
+                      className="absolute inset-0 border-4 border-white/10 border-t-emerald-400 rounded-full"
+                    />
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <Sparkles className="text-emerald-400 animate-pulse" size={40} />
+                    </div>
+                  </div>
+                  <h3 className="text-2xl font-serif font-bold text-white mb-2">{status}</h3>
+                  <p className="text-gray-400">{t("design.waitMessage")}</p>
+                  <p className="text-gray-500 text-sm mt-1">{t("design.resumeHint")}</p>
+                  {activeJobId && (
+                    <button
+                      onClick={cancelActiveJob}
+                      className="mt-6 px-5 py-2 bg-white/10 border border-white/20 text-white rounded-xl font-medium hover:bg-white/20 transition-colors flex items-center gap-2"
+                    >
+                      <X size={16} /> {t("design.cancel")}
+                    </button>
+                  )}
+                </div>
+              )}
+
+              {resultImage && !loading && !editingRegion && (
+                <motion.div
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  className="flex-1 flex flex-col"
+                >
+                  <div className="flex justify-between items-center mb-6">
+                    <h3 className="text-2xl font-serif font-bold text-white">{t("design.resultTitle")}</h3>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setEditingRegion(true)}
+                        className="px-4 py-2 bg-white/10 text-white rounded-xl font-medium hover:bg-white/20 transition-colors flex items-center gap-2"
+                      >
+                        <Brush size={16} /> {t("design.editRegion")}
+                      </button>
+                      <button
+                        onClick={() => {
+                          if (resultImage) {
+                            const link = document.createElement('a');
+                            link.href = resultImage;
+                            link.download = `redesign-${selectedStyle}-${Date.now()}.jpg`;
+                            link.target = '_blank';
+                            document.body.appendChild(link);
+                            link.click();
+                            document.body.removeChild(link);
+                          }
+                        }}
+                        className="px-4 py-2 bg-white/10 text-white rounded-xl font-medium hover:bg-white/20 transition-colors"
+                      >
+                        {t("design.download")}
+                      </button>
+                      {savedProjectId && (
+                        <button
+                          onClick={share}
+                          className="px-4 py-2 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-xl font-medium hover:opacity-90 transition-opacity"
+                        >
+                          {t("design.share")}
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {variations.length > 1 && (
+                    <VariationPicker
+                      variations={variations}
+                      selected={selectedVariations}
+                      active={resultImage}
+                      saving={savingVariations}
+                      saved={variationsSaved}
+                      flagged={driftedImages}
+                      onToggle={toggleVariation}
+                      onPreview={(i) => setResultImage(variations[i])}
+                      onSave={saveVariations}
+                    />
+                  )}
+
+                  {driftedImages.includes(resultImage) && (
+                    <div role="status" className="mb-6 flex items-start gap-3 bg-amber-400/10 border border-amber-400/30 rounded-2xl px-5 py-4 text-sm text-amber-200">
+                      <TriangleAlert size={18} className="shrink-0 mt-0.5 text-amber-400" />
+                      <span>{t("design.layoutShifted")}</span>
+                    </div>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+                    <div className="space-y-2">
+                      <p className="text-xs font-bold text-emerald-400 uppercase tracking-widest">{t("design.before")}</p>
+                      <div className="aspect-video rounded-3xl overflow-hidden border border-white/10">
+                        <img src={image!} alt={t("design.before")} className="w-full h-full object-cover" />
+                      </div>
+                    </div>
+                    <div className="space-y-2">
+                      <p className="text-xs font-bold text-emerald-400 uppercase tracking-widest">{t("design.after")}</p>
+                      <div className="aspect-video rounded-3xl overflow-hidden border-4 border-emerald-400 shadow-2xl">
+                        <img src={resultImage} alt={t("design.after")} className="w-full h-full object-cover" />
+                      </div>
+                    </div>
+                  </div>
+
+                  {analysis && (
+                    <div className="bg-white/5 backdrop-blur-sm rounded-3xl p-6 border border-white/10">
+                      <div className="flex items-center gap-2 mb-4">
+                        <CheckCircle2 className="text-emerald-400" size={20} />
+                        <h4 className="font-bold text-white">{t("design.analysisTitle")}</h4>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                          <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("design.roomType")}</p>
+                          <p className="text-white font-medium capitalize">{analysis.roomType}</p>
+                          <p className="text-xs font-bold text-gray-400 uppercase mt-4 mb-2">{t("design.lighting")}</p>
+                          <p className="text-white font-medium">{analysis.lighting}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("design.improvements")}</p>
+                          <ul className="space-y-1">
+                            {analysis.potentialImprovements.map((imp, i) => (
+                              <li key={i} className="text-sm text-gray-300 flex items-start gap-2">
+                                <span className="w-1.5 h-1.5 bg-emerald-400 rounded-full mt-1.5 shrink-0" />
+                                {imp}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </motion.div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {showStyleManager && (
+        <StyleManager
+          userId={user.id}
+          customStyles={customStyles}
+          onClose={() => setShowStyleManager(false)}
+          onChanged={async (createdId) => {
+            await reloadStyles();
+            if (createdId) {
+              setSelectedStyle(createdId);
+              setShowStyleManager(false);
+            }
+          }}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,277 @@
+import { ArrowLeft, Building2, Loader2, Pencil, Plus, Trash2, Wand2, X } from "lucide-react";
+import { FormEvent, useEffect, useMemo, useState } from "react";
+import PaletteEditor from "./PaletteEditor";
+import { useI18n } from "../hooks/useI18n";
+import { styleNameFor, type StyleOption } from "../hooks/useStyles";
+import { deleteHome, fetchHome, updateHome } from "../services/homesApi";
+import { fetchProjects, parseAnalysis, projectTitle, updateProject } from "../services/projectsApi";
+import { formatInrRange, shoppingTotals } from "../services/shoppingList";
+import type { HomeDetail, Project } from "../types";
+
+interface HomeOverviewProps {
+  homeId: string;
+  styles: StyleOption[];
+  onBack: () => void;
+  onOpenProject: (id: string) => void;
+  /** Starts a new design for this home in the design view. */
+  onAddRoom: (home: HomeDetail) => void;
+  onDeleted: () => void;
+}
+
+const MAX_COLORS = 6;
+// Enough to list every project a user is likely to move into a home.
+const CANDIDATE_PAGE_SIZE = 100;
+
+/** Home-level page: the shared style and palette, every room, and the combined estimate. */
+export default function HomeOverview({ homeId, styles, onBack, onOpenProject, onAddRoom, onDeleted }: HomeOverviewProps) {
+  const { t } = useI18n();
+  const [home, setHome] = useState<HomeDetail | null>(null);
+  const [candidates, setCandidates] = useState<Project[]>([]);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState("");
+  const [style, setStyle] = useState("");
+  const [palette, setPalette] = useState<string[]>([]);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  const load = async () => {
+    const [detail, projects] = await Promise.all([
+      fetchHome(homeId),
+      fetchProjects({ page_size: CANDIDATE_PAGE_SIZE }),
+    ]);
+    setHome(detail);
+    setCandidates(projects.projects.filter((p) => !p.home_id));
+  };
+
+  useEffect(() => {
+    setHome(null);
+    load().catch((e) => setError(e.message));
+  }, [homeId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEditing = () => {
+    if (!home) return;
+    setName(home.name);
+    setStyle(home.style);
+    setPalette(home.palette);
+    setEditing(true);
+  };
+
+  const handleSave = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await updateHome(homeId, { name: name.trim(), style, palette });
+      await load();
+      setEditing(false);
+    });
+  };
+
+  const handleDelete = () => run(async () => {
+    await deleteHome(homeId);
+    onDeleted();
+  });
+
+  const moveRoom = (projectId: string, targetHomeId: string | null) => run(async () => {
+    await updateProject(projectId, { home_id: targetHomeId });
+    await load();
+  });
+
+  // Rooms saved before shopping lists existed simply add nothing.
+  const estimate = useMemo(
+    () => shoppingTotals((home?.rooms ?? []).flatMap((room) => parseAnalysis(room)?.shoppingList ?? [])),
+    [home]
+  );
+
+  const inputClass = "w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-emerald-400";
+
+  if (!home) {
+    return (
+      <div className="max-w-6xl mx-auto">
+        <button onClick={onBack} className="mb-8 flex items-center gap-2 text-gray-400 hover:text-white transition-colors">
+          <ArrowLeft size={18} /> {t("home.back")}
+        </button>
+        {error ? (
+          <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-20 text-center">
+            <h3 className="text-2xl font-serif font-medium text-gray-400">{t("home.unavailable")}</h3>
+            <p className="mt-2 text-gray-400">{error}</p>
+          </div>
+        ) : (
+          <div className="flex justify-center p-20">
+            <Loader2 className="animate-spin text-emerald-400" size={40} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <button onClick={onBack} className="mb-8 flex items-center gap-2 text-gray-400 hover:text-white transition-colors">
+        <ArrowLeft size={18} /> {t("home.back")}
+      </button>
+
+      {editing ? (
+        <form onSubmit={handleSave} className="mb-10 bg-black/30 backdrop-blur-md rounded-[32px] border border-white/10 p-8 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input value={name} onChange={(e) => setName(e.target.value)} maxLength={80} required aria-label={t("homes.nameLabel")} className={inputClass} />
+            <select value={style} onChange={(e) => setStyle(e.target.value)} aria-label={t("common.style")} className={inputClass}>
+              {styles.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("home.palette")}</p>
+            <PaletteEditor colors={palette} onChange={setPalette} max={MAX_COLORS} min={0} />
+          </div>
+          <p className="text-xs text-gray-500">{t("home.editNote")}</p>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={busy || !name.trim()}
+              className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {busy && <Loader2 size={16} className="animate-spin" />} {t("common.save")}
+            </button>
+            <button type="button" onClick={() => setEditing(false)} className="px-6 py-3 text-gray-300 rounded-2xl hover:bg-white/10">
+              {t("common.cancel")}
+            </button>
+          </div>
+        </form>
+      ) : (
+        <header className="mb-10 flex flex-wrap justify-between items-end gap-6">
+          <div>
+            <h2 className="text-4xl font-serif font-bold mb-2 text-white">{home.name}</h2>
+            <div className="flex items-center gap-3 text-gray-400">
+              <span className="px-3 py-1 bg-white/10 rounded-full text-xs font-bold uppercase tracking-widest text-emerald-400">
+                {styleNameFor(styles, home.style)}
+              </span>
+              {home.palette.length > 0 && (
+                <div className="flex gap-1" aria-label={t("common.palette")}>
+                  {home.palette.map((color) => (
+                    <span key={color} className="w-5 h-5 rounded-full border border-white/20" style={{ backgroundColor: color }} />
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-3">
+            <button onClick={startEditing} aria-label={t("home.edit")} className="w-11 h-11 rounded-2xl bg-white/10 text-gray-300 flex items-center justify-center hover:bg-white/20 hover:text-white">
+              <Pencil size={16} />
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              aria-label={t("home.delete")}
+              className="w-11 h-11 rounded-2xl bg-white/10 text-gray-300 flex items-center justify-center hover:bg-red-500/20 hover:text-red-400"
+            >
+              <Trash2 size={16} />
+            </button>
+            <button
+              onClick={() => onAddRoom(home)}
+              className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center gap-2 hover:scale-105 transition-transform"
+            >
+              <Wand2 size={18} /> {t("home.designRoom")}
+            </button>
+          </div>
+        </header>
+      )}
+
+      {confirmingDelete && (
+        <div className="mb-8 flex items-center justify-between gap-3 bg-red-500/10 border border-red-500/30 rounded-2xl px-5 py-4">
+          <span className="text-sm text-red-300">{t("home.confirmDelete")}</span>
+          <div className="flex gap-2">
+            <button onClick={handleDelete} disabled={busy} className="px-4 py-1.5 text-sm font-bold bg-red-500 text-white rounded-lg disabled:opacity-50">
+              {t("common.delete")}
+            </button>
+            <button onClick={() => setConfirmingDelete(false)} className="px-4 py-1.5 text-sm text-gray-300 rounded-lg hover:bg-white/10">
+              {t("common.keep")}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      <div className="mb-10 grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="bg-white/5 rounded-3xl border border-white/10 p-6">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t("home.rooms")}</p>
+          <p className="text-3xl font-bold text-white">{home.rooms.length}</p>
+        </div>
+        <div className="bg-white/5 rounded-3xl border border-white/10 p-6">
+          <p className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-1">{t("home.estimate")}</p>
+          <p className="text-3xl font-bold text-emerald-400">{estimate.max > 0 ? formatInrRange(estimate) : "—"}</p>
+        </div>
+      </div>
+
+      {home.rooms.length === 0 ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-20 text-center">
+          <div className="w-20 h-20 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Building2 size={40} className="text-gray-500" />
+          </div>
+          <h3 className="text-2xl font-serif font-medium text-gray-400">{t("home.noRooms.title")}</h3>
+          <p className="mt-2 text-gray-400">{t("home.noRooms.message")}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {home.rooms.map((room) => (
+            <div key={room.id} className="bg-black/30 backdrop-blur-md rounded-[32px] overflow-hidden border border-white/10 group hover:border-emerald-400/30 transition-all duration-500">
+              <button onClick={() => onOpenProject(room.id)} className="block w-full aspect-[4/3] relative overflow-hidden" aria-label={t("project.open", { title: projectTitle(room) })}>
+                <img src={room.redesigned_thumbnail || room.redesigned_image} alt={t("design.after")} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+                <img
+                  src={room.original_thumbnail || room.original_image}
+                  alt={t("design.before")}
+                  className="absolute bottom-3 left-3 w-1/3 aspect-[4/3] object-cover rounded-xl border-2 border-black/60"
+                />
+              </button>
+              <div className="p-6 flex justify-between items-center gap-3">
+                <div className="min-w-0">
+                  <h4 className="font-bold text-white truncate">{projectTitle(room)}</h4>
+                  <p className="text-xs text-gray-400 capitalize">{room.room_type}</p>
+                </div>
+                <button
+                  onClick={() => moveRoom(room.id, null)}
+                  disabled={busy}
+                  aria-label={t("home.removeRoom")}
+                  title={t("home.removeRoom")}
+                  className="w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-gray-400 hover:bg-white/20 hover:text-white disabled:opacity-50"
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="mt-10 flex flex-wrap items-center gap-3">
+          <Plus size={16} className="text-gray-400" />
+          <select
+            value=""
+            disabled={busy}
+            onChange={(e) => e.target.value && moveRoom(e.target.value, homeId)}
+            aria-label={t("home.addExisting")}
+            className="px-4 py-2.5 rounded-2xl bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-emerald-400"
+          >
+            <option value="">{t("home.addExistingPrompt")}</option>
+            {candidates.map((project) => (
+              <option key={project.id} value={project.id}>{projectTitle(project)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { Building2, ChevronRight, Loader2, Plus } from "lucide-react";
+import { FormEvent, useEffect, useState } from "react";
+import PaletteEditor from "./PaletteEditor";
+import { useI18n } from "../hooks/useI18n";
+import { styleNameFor, type StyleOption } from "../hooks/useStyles";
+import { createHome, fetchHomes } from "../services/homesApi";
+import type { Home } from "../types";
+
+interface HomesViewProps {
+  styles: StyleOption[];
+  onOpen: (id: string) => void;
+}
+
+const MAX_COLORS = 6;
+
+/** Multi-room homes: each groups several room redesigns under one style and palette. */
+export default function HomesView({ styles, onOpen }: HomesViewProps) {
+  const { t } = useI18n();
+  const [homes, setHomes] = useState<Home[] | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [style, setStyle] = useState(styles[0]?.id ?? "");
+  const [palette, setPalette] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetchHomes().then(setHomes).catch((e) => setError(e.message));
+  }, []);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      const home = await createHome({ name: name.trim(), style, palette });
+      onOpen(home.id);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = "w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-emerald-400";
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <header className="mb-8 flex justify-between items-end">
+        <div>
+          <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("homes.title")}</h2>
+          <p className="text-gray-400">{t("homes.subtitle")}</p>
+        </div>
+        {!creating && (
+          <button
+            onClick={() => setCreating(true)}
+            className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center gap-2 hover:scale-105 transition-transform"
+          >
+            <Plus size={18} /> {t("homes.new")}
+          </button>
+        )}
+      </header>
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      {creating && (
+        <form onSubmit={handleCreate} className="mb-10 bg-black/30 backdrop-blur-md rounded-[32px] border border-white/10 p-8 space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={t("homes.namePlaceholder")}
+              maxLength={80}
+              required
+              aria-label={t("homes.nameLabel")}
+              className={inputClass}
+            />
+            <select value={style} onChange={(e) => setStyle(e.target.value)} aria-label={t("common.style")} className={inputClass}>
+              {styles.map((option) => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("homes.paletteOptional")}</p>
+            <PaletteEditor colors={palette} onChange={setPalette} max={MAX_COLORS} min={0} />
+          </div>
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={busy || !name.trim() || !style}
+              className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {busy && <Loader2 size={16} className="animate-spin" />} {t("homes.create")}
+            </button>
+            <button type="button" onClick={() => setCreating(false)} className="px-6 py-3 text-gray-300 rounded-2xl hover:bg-white/10">
+              {t("common.cancel")}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {!homes ? (
+        !error && (
+          <div className="flex justify-center p-20">
+            <Loader2 className="animate-spin text-emerald-400" size={40} />
+          </div>
+        )
+      ) : homes.length === 0 && !creating ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-20 text-center">
+          <div className="w-20 h-20 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Building2 size={40} className="text-gray-500" />
+          </div>
+          <h3 className="text-2xl font-serif font-medium text-gray-400">{t("homes.empty.title")}</h3>
+          <p className="mt-2 text-gray-400">{t("homes.empty.message")}</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {homes.map((home) => (
+            <button
+              key={home.id}
+              onClick={() => onOpen(home.id)}
+              className="text-left bg-black/30 backdrop-blur-md rounded-[32px] overflow-hidden border border-white/10 group hover:border-emerald-400/30 transition-all duration-500"
+            >
+              <div className="aspect-[4/3] bg-white/5 flex items-center justify-center overflow-hidden">
+                {home.cover_image ? (
+                  <img src={home.cover_image} alt="" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+                ) : (
+                  <Building2 size={40} className="text-gray-600" />
+                )}
+              </div>
+              <div className="p-6 flex justify-between items-center gap-3">
+                <div className="min-w-0">
+                  <h4 className="font-bold text-white truncate">{home.name}</h4>
+                  <p className="text-xs text-gray-400">
+                    {styleNameFor(styles, home.style)} · {home.room_count === 1 ? t("homes.roomCountOne") : t("homes.roomCount", { count: home.room_count })}
+                  </p>
+                </div>
+                <ChevronRight size={16} className="text-gray-400 shrink-0" />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
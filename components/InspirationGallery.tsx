@@ -0,0 +1,247 @@
+import { Heart, ImagePlus, Loader2, Search } from "lucide-react";
+import { FormEvent, Fragment, useEffect, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import type { MessageKey } from "../services/i18n";
+import { addFavorite, fetchFavorites, removeFavorite, searchInspiration, storeAsReference } from "../services/inspirationApi";
+import type { InspirationImage, InspirationPage, StoredImage } from "../types";
+
+interface InspirationGalleryProps {
+  signedIn: boolean;
+  onSignIn: () => void;
+  /** Called once the image is in our storage, ready to send with a redesign. */
+  onUseAsReference: (image: InspirationImage, stored: StoredImage) => void;
+}
+
+// The providers search in English, so each suggestion keeps its English query.
+const SUGGESTIONS: { query: string; label: MessageKey }[] = [
+  { query: "Living room", label: "gallery.suggestion.livingRoom" },
+  { query: "Bedroom", label: "gallery.suggestion.bedroom" },
+  { query: "Kitchen", label: "gallery.suggestion.kitchen" },
+  { query: "Scandinavian", label: "gallery.suggestion.scandinavian" },
+  { query: "Indian traditional", label: "gallery.suggestion.indianTraditional" },
+  { query: "Japandi", label: "gallery.suggestion.japandi" },
+  { query: "Balcony", label: "gallery.suggestion.balcony" },
+];
+
+const PROVIDER_NAMES: Record<string, string> = {
+  unsplash: "Unsplash",
+};
+
+/** Searchable reference interiors; any of them can be saved or used to steer a redesign. */
+export default function InspirationGallery({ signedIn, onSignIn, onUseAsReference }: InspirationGalleryProps) {
+  const { t } = useI18n();
+  const [tab, setTab] = useState<"search" | "favorites">("search");
+  const [input, setInput] = useState(SUGGESTIONS[0].query);
+  const [query, setQuery] = useState(SUGGESTIONS[0].query);
+  const [results, setResults] = useState<InspirationPage | null>(null);
+  const [favorites, setFavorites] = useState<InspirationImage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let current = true;
+    setLoading(true);
+    setError("");
+    searchInspiration(query)
+      .then((page) => current && setResults(page))
+      .catch((e) => current && setError(e.message))
+      .finally(() => current && setLoading(false));
+    return () => {
+      current = false;
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (signedIn) {
+      fetchFavorites().then(setFavorites).catch((e) => setError(e.message));
+    } else {
+      setFavorites([]);
+    }
+  }, [signedIn]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setTab("search");
+    setQuery(input.trim());
+  };
+
+  const pickSuggestion = (suggestion: string) => {
+    setInput(suggestion);
+    setTab("search");
+    setQuery(suggestion);
+  };
+
+  const loadMore = async () => {
+    if (!results) return;
+    setLoading(true);
+    try {
+      const next = await searchInspiration(query, results.page + 1);
+      setResults({ ...next, images: [...results.images, ...next.images] });
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Signed-out visitors can browse; saving and using images needs an account.
+  const run = async (image: InspirationImage, action: () => Promise<void>) => {
+    if (!signedIn) {
+      onSignIn();
+      return;
+    }
+    setBusyId(image.id);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Fills the author and provider links into the translated credit line, wherever the language puts them.
+  const credit = (image: InspirationImage) => {
+    const provider = image.source_url && PROVIDER_NAMES[image.provider];
+    const template = provider ? t("gallery.photoByOn") : t("gallery.photoBy");
+    return template.split(/(\{author\}|\{provider\})/).map((part, i) => {
+      if (part === "{author}") {
+        return image.author_url ? (
+          <a key={i} href={image.author_url} target="_blank" rel="noreferrer" className="underline hover:text-white">{image.author}</a>
+        ) : (
+          <Fragment key={i}>{image.author}</Fragment>
+        );
+      }
+      if (part === "{provider}") {
+        return <a key={i} href={image.source_url!} target="_blank" rel="noreferrer" className="underline hover:text-white">{provider}</a>;
+      }
+      return <Fragment key={i}>{part}</Fragment>;
+    });
+  };
+
+  const isFavorite = (image: InspirationImage) => favorites.some((f) => f.id === image.id);
+
+  const toggleFavorite = (image: InspirationImage) => run(image, async () => {
+    if (isFavorite(image)) {
+      await removeFavorite(image.id);
+      setFavorites((current) => current.filter((f) => f.id !== image.id));
+    } else {
+      const saved = await addFavorite(image.id);
+      setFavorites((current) => [saved, ...current]);
+    }
+  });
+
+  const handleUse = (image: InspirationImage) => run(image, async () => {
+    onUseAsReference(image, await storeAsReference(image.id));
+  });
+
+  const images = tab === "search" ? results?.images ?? [] : favorites;
+
+  return (
+    <div className="max-w-6xl mx-auto w-full">
+      <header className="mb-8">
+        <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("gallery.title")}</h2>
+        <p className="text-gray-400">{t("gallery.subtitle")}</p>
+      </header>
+
+      <form onSubmit={handleSearch} className="mb-4 flex gap-3">
+        <div className="relative flex-1">
+          <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t("gallery.searchPlaceholder")}
+            maxLength={100}
+            aria-label={t("gallery.searchLabel")}
+            className="w-full pl-11 pr-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-emerald-400"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!input.trim()}
+          className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold disabled:opacity-50"
+        >
+          {t("gallery.search")}
+        </button>
+      </form>
+
+      <div className="mb-8 flex flex-wrap items-center gap-2">
+        {SUGGESTIONS.map((suggestion) => (
+          <button
+            key={suggestion.query}
+            onClick={() => pickSuggestion(suggestion.query)}
+            className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-colors ${tab === "search" && query === suggestion.query ? "border-emerald-400 bg-emerald-400/10 text-emerald-400" : "border-white/10 text-gray-300 hover:bg-white/10"}`}
+          >
+            {t(suggestion.label)}
+          </button>
+        ))}
+        {signedIn && (
+          <button
+            onClick={() => setTab(tab === "favorites" ? "search" : "favorites")}
+            aria-pressed={tab === "favorites"}
+            className={`ml-auto px-3 py-1.5 rounded-full text-xs font-bold border flex items-center gap-1.5 transition-colors ${tab === "favorites" ? "border-pink-400 bg-pink-400/10 text-pink-300" : "border-white/10 text-gray-300 hover:bg-white/10"}`}
+          >
+            <Heart size={12} /> {t("gallery.favourites", { count: favorites.length })}
+          </button>
+        )}
+      </div>
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      {tab === "search" && !results && loading ? (
+        <div className="flex justify-center p-20">
+          <Loader2 className="animate-spin text-emerald-400" size={40} />
+        </div>
+      ) : images.length === 0 ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-20 text-center text-gray-400">
+          {tab === "favorites" ? t("gallery.noFavourites") : t("gallery.noResults", { query })}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {images.map((image) => (
+            <div key={image.id} className="bg-black/30 backdrop-blur-md rounded-[32px] overflow-hidden border border-white/10 group">
+              <div className="relative aspect-[4/3] overflow-hidden">
+                <img src={image.thumbnail_url} alt={image.description} loading="lazy" className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-700" />
+                <button
+                  onClick={() => toggleFavorite(image)}
+                  disabled={busyId === image.id}
+                  aria-label={isFavorite(image) ? t("gallery.removeFavourite") : t("gallery.saveFavourite")}
+                  aria-pressed={isFavorite(image)}
+                  className="absolute top-3 right-3 w-9 h-9 rounded-full bg-black/60 flex items-center justify-center hover:bg-black/80 disabled:opacity-50"
+                >
+                  <Heart size={16} className={isFavorite(image) ? "fill-pink-400 text-pink-400" : "text-white"} />
+                </button>
+              </div>
+              <div className="p-5">
+                <p className="text-sm text-white line-clamp-2 mb-1 first-letter:uppercase">{image.description}</p>
+                <p className="text-xs text-gray-400 mb-4">{credit(image)}</p>
+                <button
+                  onClick={() => handleUse(image)}
+                  disabled={busyId !== null}
+                  className="w-full py-2.5 bg-white/10 border border-white/20 text-white rounded-xl text-sm font-semibold hover:bg-white/20 transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  {busyId === image.id ? <Loader2 size={16} className="animate-spin" /> : <ImagePlus size={16} />}
+                  {t("gallery.useAsReference")}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tab === "search" && results && results.images.length < results.total && (
+        <div className="mt-8 flex justify-center">
+          <button
+            onClick={loadMore}
+            disabled={loading}
+            className="px-6 py-3 bg-white/10 text-white rounded-2xl font-medium hover:bg-white/20 transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {loading && <Loader2 size={16} className="animate-spin" />} {t("gallery.loadMore")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
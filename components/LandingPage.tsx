@@ -0,0 +1,67 @@
+import { motion } from "motion/react";
+import { ChevronRight } from "lucide-react";
+import Link from "./Link";
+import { useI18n } from "../hooks/useI18n";
+
+interface LandingPageProps {
+  onSignIn: () => void;
+}
+
+/** /: the hero signed-out visitors land on. */
+export default function LandingPage({ onSignIn }: LandingPageProps) {
+  const { t } = useI18n();
+
+  return (
+    <main className="flex-1 flex flex-col items-center justify-center px-6 text-center max-w-4xl mx-auto">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6 }}
+      >
+        <h1 className="text-6xl md:text-8xl font-serif font-bold leading-tight mb-6 text-white">
+          {t("landing.title")} <span className="italic text-emerald-400 underline decoration-emerald-400/30 underline-offset-8">{t("landing.titleEmphasis")}</span>
+        </h1>
+        <p className="text-xl text-gray-300 mb-10 max-w-2xl mx-auto leading-relaxed">
+          {t("landing.subtitle")}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <button
+            onClick={onSignIn}
+            className="px-8 py-4 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-semibold text-lg hover:scale-105 transition-transform neo-shadow flex items-center gap-2"
+          >
+            {t("landing.start")} <ChevronRight size={20} />
+          </button>
+          <Link
+            href="/gallery"
+            className="px-8 py-4 bg-white/10 border border-white/20 text-white rounded-2xl font-semibold text-lg hover:bg-white/20 transition-colors backdrop-blur-sm"
+          >
+            {t("landing.gallery")}
+          </Link>
+        </div>
+      </motion.div>
+
+      {/* Preview Grid */}
+      <div className="mt-20 grid grid-cols-2 md:grid-cols-4 gap-4 w-full">
+        {[1, 2, 3, 4].map((i) => (
+          <motion.div
+            key={i}
+            initial={{ opacity: 0, scale: 0.9 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ delay: 0.2 + i * 0.1 }}
+            className="aspect-[3/4] rounded-3xl overflow-hidden bg-white/10 relative group"
+          >
+            <img
+              src={`https://picsum.photos/seed/interior${i}/600/800`}
+              alt={t("landing.previewAlt")}
+              className="w-full h-full object-cover grayscale group-hover:grayscale-0 transition-all duration-700"
+              referrerPolicy="no-referrer"
+            />
+            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity flex items-end p-4">
+              <span className="text-white text-sm font-medium">{t("landing.previewCaption")}</span>
+            </div>
+          </motion.div>
+        ))}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,30 @@
+import { Languages } from "lucide-react";
+import { useI18n } from "../hooks/useI18n";
+import { LANGUAGES, LANGUAGE_INFO, type Language } from "../services/i18n";
+
+interface LanguageSelectProps {
+  className?: string;
+}
+
+/** Switches the app's language, listing each one by its own name. */
+export default function LanguageSelect({ className = "" }: LanguageSelectProps) {
+  const { language, setLanguage, t } = useI18n();
+
+  return (
+    <label className={`flex items-center gap-2 text-gray-300 ${className}`}>
+      <Languages size={18} className="shrink-0" />
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as Language)}
+        aria-label={t("language.label")}
+        className="px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-emerald-400"
+      >
+        {LANGUAGES.map((id) => (
+          <option key={id} value={id} lang={LANGUAGE_INFO[id].locale}>
+            {LANGUAGE_INFO[id].nativeName}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
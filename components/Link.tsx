@@ -0,0 +1,18 @@
+import type { AnchorHTMLAttributes, MouseEvent } from "react";
+import { navigate } from "../hooks/useRoute";
+
+interface LinkProps extends AnchorHTMLAttributes<HTMLAnchorElement> {
+  href: string;
+}
+
+/** An in-app link: a plain click navigates without a reload; modified clicks open a tab as usual. */
+export default function Link({ href, onClick, ...props }: LinkProps) {
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return <a href={href} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,202 @@
+import { Brush, Eraser, Lasso, Loader2, Wand2, X } from "lucide-react";
+import { FormEvent, PointerEvent, useRef, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+
+interface MaskEditorProps {
+  image: string;
+  busy: boolean;
+  onApply: (mask: string, instruction: string) => void;
+  onCancel: () => void;
+}
+
+type Tool = "brush" | "lasso";
+
+const STROKE_COLOR = "rgba(52, 211, 153, 1)";
+
+/**
+ * Lets the user paint (or lasso) the part of the photo to change. The overlay
+ * canvas matches the image's natural size, so the exported mask lines up with
+ * the pixels the model receives.
+ */
+export default function MaskEditor({ image, busy, onApply, onCancel }: MaskEditorProps) {
+  const { t } = useI18n();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const lassoPoints = useRef<{ x: number; y: number }[]>([]);
+  const [tool, setTool] = useState<Tool>("brush");
+  const [brushSize, setBrushSize] = useState(40);
+  const [instruction, setInstruction] = useState("");
+  const [hasMask, setHasMask] = useState(false);
+
+  const handleImageLoad = (e: { currentTarget: HTMLImageElement }) => {
+    const canvas = canvasRef.current!;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+  };
+
+  // Converts a pointer position from CSS pixels to canvas (image) pixels.
+  const toCanvasPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const ctx = canvasRef.current!.getContext("2d")!;
+    const { x, y, scale } = toCanvasPoint(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.fillStyle = STROKE_COLOR;
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    ctx.lineWidth = tool === "brush" ? brushSize * scale : 2 * scale;
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    lassoPoints.current = [{ x, y }];
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const ctx = canvasRef.current!.getContext("2d")!;
+    const { x, y } = toCanvasPoint(e);
+    lassoPoints.current.push({ x, y });
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+
+    if (tool === "lasso" && lassoPoints.current.length > 2) {
+      const ctx = canvasRef.current!.getContext("2d")!;
+      ctx.beginPath();
+      lassoPoints.current.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.closePath();
+      ctx.fill();
+    }
+    lassoPoints.current = [];
+    setHasMask(true);
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  // Flattens the green overlay into the black/white mask the providers expect.
+  const exportMask = () => {
+    const overlay = canvasRef.current!;
+    const white = document.createElement("canvas");
+    white.width = overlay.width;
+    white.height = overlay.height;
+    const whiteCtx = white.getContext("2d")!;
+    whiteCtx.drawImage(overlay, 0, 0);
+    whiteCtx.globalCompositeOperation = "source-in";
+    whiteCtx.fillStyle = "#ffffff";
+    whiteCtx.fillRect(0, 0, white.width, white.height);
+
+    const mask = document.createElement("canvas");
+    mask.width = overlay.width;
+    mask.height = overlay.height;
+    const maskCtx = mask.getContext("2d")!;
+    maskCtx.fillStyle = "#000000";
+    maskCtx.fillRect(0, 0, mask.width, mask.height);
+    maskCtx.drawImage(white, 0, 0);
+    return mask.toDataURL("image/png");
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!hasMask || !instruction.trim()) return;
+    onApply(exportMask(), instruction.trim());
+  };
+
+  const toolButton = (value: Tool, label: string, Icon: typeof Brush) => (
+    <button
+      type="button"
+      onClick={() => setTool(value)}
+      aria-pressed={tool === value}
+      className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-colors ${tool === value ? "bg-emerald-400 text-black" : "bg-white/10 text-white hover:bg-white/20"}`}
+    >
+      <Icon size={16} /> {label}
+    </button>
+  );
+
+  return (
+    <form onSubmit={handleSubmit} className="flex-1 flex flex-col">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-2xl font-serif font-bold text-white">{t("mask.title")}</h3>
+        <button
+          type="button"
+          onClick={onCancel}
+          aria-label={t("mask.close")}
+          className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-gray-300 hover:bg-white/20"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        {toolButton("brush", t("mask.brush"), Brush)}
+        {toolButton("lasso", t("mask.lasso"), Lasso)}
+        {tool === "brush" && (
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            {t("mask.size")}
+            <input
+              type="range"
+              min={10}
+              max={120}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+            />
+          </label>
+        )}
+        <button
+          type="button"
+          onClick={clearMask}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl font-medium bg-white/10 text-white hover:bg-white/20 transition-colors ml-auto"
+        >
+          <Eraser size={16} /> {t("mask.clear")}
+        </button>
+      </div>
+
+      <div className="relative rounded-3xl overflow-hidden border border-white/10 mb-6">
+        <img src={image} alt={t("mask.imageAlt")} onLoad={handleImageLoad} className="w-full block" />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder={t("mask.placeholder")}
+          className="flex-1 px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-white placeholder:text-gray-500 focus:outline-none focus:border-emerald-400"
+        />
+        <button
+          type="submit"
+          disabled={!hasMask || !instruction.trim() || busy}
+          className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busy ? <Loader2 size={18} className="animate-spin" /> : <Wand2 size={18} />}
+          {t("mask.apply")}
+        </button>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">
+        {hasMask ? t("mask.hint") : t("mask.prompt")}
+      </p>
+    </form>
+  );
+}
@@ -0,0 +1,56 @@
+import { motion } from "motion/react";
+import { AlertCircle, CheckCircle2, X } from "lucide-react";
+import { useEffect } from "react";
+
+export interface NoticeData {
+  tone: "error" | "success";
+  title: string;
+  message?: string;
+  action?: { label: string; onClick: () => void };
+}
+
+interface NoticeProps {
+  notice: NoticeData;
+  onDismiss: () => void;
+}
+
+const SUCCESS_DISMISS_MS = 4000;
+
+/** Non-blocking inline message shown in place of window.alert(). */
+export default function Notice({ notice, onDismiss }: NoticeProps) {
+  useEffect(() => {
+    if (notice.tone !== "success") return;
+    const timer = setTimeout(onDismiss, SUCCESS_DISMISS_MS);
+    return () => clearTimeout(timer);
+    // Keyed on the notice only, so parent re-renders don't restart the timer.
+  }, [notice]);
+
+  const isError = notice.tone === "error";
+  const Icon = isError ? AlertCircle : CheckCircle2;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -8 }}
+      animate={{ opacity: 1, y: 0 }}
+      role={isError ? "alert" : "status"}
+      className={`flex items-start gap-3 p-4 rounded-2xl border backdrop-blur-md ${isError ? "bg-red-500/10 border-red-500/30" : "bg-emerald-400/10 border-emerald-400/30"}`}
+    >
+      <Icon className={`shrink-0 mt-0.5 ${isError ? "text-red-400" : "text-emerald-400"}`} size={20} />
+      <div className="flex-1">
+        <p className="font-bold text-white">{notice.title}</p>
+        {notice.message && <p className="text-sm text-gray-300 mt-1">{notice.message}</p>}
+        {notice.action && (
+          <button
+            onClick={notice.action.onClick}
+            className="mt-3 px-4 py-1.5 bg-white/10 text-white rounded-xl text-sm font-medium hover:bg-white/20 transition-colors"
+          >
+            {notice.action.label}
+          </button>
+        )}
+      </div>
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-gray-400 hover:text-white">
+        <X size={18} />
+      </button>
+    </motion.div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Plus, X } from "lucide-react";
+import { t } from "../services/i18n";
+
+interface PaletteEditorProps {
+  colors: string[];
+  onChange: (colors: string[]) => void;
+  max: number;
+  /** Fewest colours the palette may be left with. */
+  min?: number;
+}
+
+/** Row of colour pickers with add and remove buttons. */
+export default function PaletteEditor({ colors, onChange, max, min = 1 }: PaletteEditorProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      {colors.map((color, i) => (
+        <div key={i} className="relative">
+          <input
+            type="color"
+            value={color}
+            onChange={(e) => onChange(colors.map((c, j) => (j === i ? e.target.value : c)))}
+            aria-label={t("palette.colour", { number: i + 1 })}
+            className="w-12 h-12 rounded-xl bg-transparent cursor-pointer"
+          />
+          {colors.length > min && (
+            <button
+              type="button"
+              onClick={() => onChange(colors.filter((_, j) => j !== i))}
+              aria-label={t("palette.remove", { number: i + 1 })}
+              className="absolute -top-2 -right-2 w-5 h-5 rounded-full bg-black text-gray-300 flex items-center justify-center"
+            >
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      ))}
+      {colors.length < max && (
+        <button
+          type="button"
+          onClick={() => onChange([...colors, "#ffffff"])}
+          aria-label={t("palette.add")}
+          className="w-12 h-12 rounded-xl border border-dashed border-white/20 text-gray-400 flex items-center justify-center hover:border-emerald-400"
+        >
+          <Plus size={18} />
+        </button>
+      )}
+    </div>
+  );
+}
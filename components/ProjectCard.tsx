@@ -0,0 +1,155 @@
+import { motion } from "motion/react";
+import { Archive, ArchiveRestore, Check, ChevronRight, Pencil, Trash2, X } from "lucide-react";
+import { FormEvent, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { projectTitle } from "../services/projectsApi";
+import type { Project } from "../types";
+
+interface ProjectCardProps {
+  project: Project;
+  styleName: string;
+  onOpen: () => void;
+  onRename: (title: string) => Promise<void>;
+  onArchive: (archived: boolean) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+const MAX_TITLE_LENGTH = 80;
+
+export default function ProjectCard({ project, styleName, onOpen, onRename, onArchive, onDelete }: ProjectCardProps) {
+  const { t, formatDate } = useI18n();
+  const [renaming, setRenaming] = useState(false);
+  const [title, setTitle] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startRename = () => {
+    setTitle(projectTitle(project));
+    setRenaming(true);
+  };
+
+  const handleRename = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await onRename(title.trim());
+      setRenaming(false);
+    });
+  };
+
+  const iconButton = "w-8 h-8 rounded-full bg-white/10 flex items-center justify-center text-gray-400 transition-colors disabled:opacity-50";
+
+  return (
+    <motion.div
+      layoutId={project.id}
+      className="bg-black/30 backdrop-blur-md rounded-[32px] overflow-hidden border border-white/10 group hover:border-emerald-400/30 transition-all duration-500"
+    >
+      <button onClick={onOpen} className="block w-full aspect-[4/3] relative overflow-hidden" aria-label={t("project.open", { title: projectTitle(project) })}>
+        <img
+          src={project.redesigned_thumbnail || project.redesigned_image}
+          alt={t("project.redesignAlt")}
+          className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700"
+        />
+        <div className="absolute top-4 left-4 flex gap-2">
+          <span className="px-3 py-1 bg-black/70 backdrop-blur-sm rounded-full text-[10px] font-bold uppercase tracking-widest text-emerald-400">
+            {styleName}
+          </span>
+          {project.archived_at && (
+            <span className="px-3 py-1 bg-black/70 backdrop-blur-sm rounded-full text-[10px] font-bold uppercase tracking-widest text-gray-300">
+              {t("projects.archived")}
+            </span>
+          )}
+        </div>
+      </button>
+      <div className="p-6">
+        <div className="flex justify-between items-start gap-3 mb-4">
+          {renaming ? (
+            <form onSubmit={handleRename} className="flex-1 flex gap-2">
+              <input
+                autoFocus
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setRenaming(false)}
+                maxLength={MAX_TITLE_LENGTH}
+                aria-label={t("project.nameLabel")}
+                className="flex-1 min-w-0 px-3 py-1.5 rounded-xl bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-emerald-400"
+              />
+              <button type="submit" disabled={busy} aria-label={t("project.saveName")} className={`${iconButton} hover:bg-emerald-400 hover:text-black`}>
+                <Check size={16} />
+              </button>
+              <button type="button" onClick={() => setRenaming(false)} aria-label={t("project.cancelRename")} className={`${iconButton} hover:bg-white/20`}>
+                <X size={16} />
+              </button>
+            </form>
+          ) : (
+            <div className="min-w-0">
+              <h4 className="font-bold text-white truncate">{projectTitle(project)}</h4>
+              <p className="text-xs text-gray-400">
+                <span className="capitalize">{project.room_type}</span> · {formatDate(project.created_at)}
+              </p>
+            </div>
+          )}
+          {!renaming && (
+            <button
+              onClick={onOpen}
+              aria-label={t("project.openProject")}
+              className={`${iconButton} shrink-0 hover:bg-emerald-400 hover:text-black`}
+            >
+              <ChevronRight size={16} />
+            </button>
+          )}
+        </div>
+
+        {confirmingDelete ? (
+          <div className="flex items-center justify-between gap-2 bg-red-500/10 border border-red-500/30 rounded-xl px-3 py-2">
+            <span className="text-sm text-red-300">{t("project.confirmDelete")}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => run(onDelete)}
+                disabled={busy}
+                className="px-3 py-1 text-sm font-bold bg-red-500 text-white rounded-lg disabled:opacity-50"
+              >
+                {t("common.delete")}
+              </button>
+              <button onClick={() => setConfirmingDelete(false)} className="px-3 py-1 text-sm text-gray-300 rounded-lg hover:bg-white/10">
+                {t("common.keep")}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <button onClick={startRename} disabled={busy} aria-label={t("project.rename")} title={t("project.rename")} className={`${iconButton} hover:bg-white/20 hover:text-white`}>
+              <Pencil size={14} />
+            </button>
+            <button
+              onClick={() => run(() => onArchive(!project.archived_at))}
+              disabled={busy}
+              aria-label={project.archived_at ? t("project.unarchive") : t("project.archive")}
+              title={project.archived_at ? t("project.unarchive") : t("project.archive")}
+              className={`${iconButton} hover:bg-white/20 hover:text-white`}
+            >
+              {project.archived_at ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              disabled={busy}
+              aria-label={t("common.delete")}
+              title={t("common.delete")}
+              className={`${iconButton} hover:bg-red-500/20 hover:text-red-400`}
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
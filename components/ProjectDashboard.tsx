@@ -0,0 +1,236 @@
+import { ChevronLeft, ChevronRight, History, Loader2, Search, Wand2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import ProjectCard from "./ProjectCard";
+import { useI18n } from "../hooks/useI18n";
+import { styleNameFor, type StyleOption } from "../hooks/useStyles";
+import type { MessageKey } from "../services/i18n";
+import {
+  deleteProject,
+  fetchProjectFacets,
+  fetchProjects,
+  updateProject,
+  type ProjectQuery,
+  type ProjectSort,
+} from "../services/projectsApi";
+import type { ProjectFacets, ProjectPage } from "../types";
+
+interface ProjectDashboardProps {
+  styles: StyleOption[];
+  onOpen: (id: string) => void;
+  onNewDesign: () => void;
+}
+
+const PAGE_SIZE = 12;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const SORT_OPTIONS: { value: ProjectSort; label: MessageKey }[] = [
+  { value: "newest", label: "projects.sort.newest" },
+  { value: "oldest", label: "projects.sort.oldest" },
+  { value: "title", label: "projects.sort.title" },
+  { value: "room_type", label: "projects.sort.roomType" },
+  { value: "style", label: "projects.sort.style" },
+];
+
+type Filters = Required<Pick<ProjectQuery, "style" | "room_type" | "from" | "to" | "sort" | "archived">>;
+
+const DEFAULT_FILTERS: Filters = { style: "", room_type: "", from: "", to: "", sort: "newest", archived: false };
+
+/** "My Projects": server-side search, filters, sorting and pagination, with per-card actions. */
+export default function ProjectDashboard({ styles, onOpen, onNewDesign }: ProjectDashboardProps) {
+  const { t } = useI18n();
+  const [search, setSearch] = useState("");
+  const [q, setQ] = useState("");
+  const [filters, setFilters] = useState<Filters>(DEFAULT_FILTERS);
+  const [page, setPage] = useState(1);
+  const [result, setResult] = useState<ProjectPage | null>(null);
+  const [facets, setFacets] = useState<ProjectFacets>({ styles: [], room_types: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  // Bumped after an action so the current page is fetched again.
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQ(search.trim());
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  useEffect(() => {
+    fetchProjectFacets().then(setFacets).catch((e) => console.error("Failed to fetch filters", e));
+  }, [reloadKey]);
+
+  useEffect(() => {
+    // Ignore responses for a query the user has already moved past.
+    let current = true;
+    setLoading(true);
+    fetchProjects({ ...filters, q, page, page_size: PAGE_SIZE })
+      .then((data) => {
+        if (!current) return;
+        setResult(data);
+        setError("");
+        // Deleting or archiving the last card on a page moves back a page.
+        if (data.projects.length === 0 && data.page > 1) setPage(data.page - 1);
+      })
+      .catch((e) => current && setError(e.message))
+      .finally(() => current && setLoading(false));
+    return () => {
+      current = false;
+    };
+  }, [filters, q, page, reloadKey]);
+
+  const setFilter = <K extends keyof Filters>(key: K, value: Filters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const clearFilters = () => {
+    setFilters(DEFAULT_FILTERS);
+    setSearch("");
+    setPage(1);
+  };
+
+  const act = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      setReloadKey((k) => k + 1);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  const filtered = q !== "" || filters.style !== "" || filters.room_type !== "" || filters.from !== "" || filters.to !== "";
+  const pageCount = result ? Math.max(Math.ceil(result.total / result.page_size), 1) : 1;
+  const controlClass = "px-4 py-2.5 rounded-2xl bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-emerald-400";
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <header className="mb-8 flex justify-between items-end">
+        <div>
+          <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("projects.title")}</h2>
+          <p className="text-gray-400">{t("projects.subtitle")}</p>
+        </div>
+        <button
+          onClick={onNewDesign}
+          className="px-6 py-3 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center gap-2 hover:scale-105 transition-transform"
+        >
+          <Wand2 size={18} /> {t("nav.design")}
+        </button>
+      </header>
+
+      <div className="mb-8 space-y-3">
+        <div className="relative">
+          <Search size={18} className="absolute left-4 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t("projects.searchPlaceholder")}
+            aria-label={t("projects.searchLabel")}
+            className={`${controlClass} w-full pl-11`}
+          />
+        </div>
+        <div className="flex flex-wrap gap-3 items-center">
+          <select value={filters.style} onChange={(e) => setFilter("style", e.target.value)} aria-label={t("common.style")} className={controlClass}>
+            <option value="">{t("projects.allStyles")}</option>
+            {facets.styles.map((id) => (
+              <option key={id} value={id}>{styleNameFor(styles, id)}</option>
+            ))}
+          </select>
+          <select value={filters.room_type} onChange={(e) => setFilter("room_type", e.target.value)} aria-label={t("projects.roomType")} className={`${controlClass} capitalize`}>
+            <option value="">{t("projects.allRooms")}</option>
+            {facets.room_types.map((roomType) => (
+              <option key={roomType} value={roomType}>{roomType}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            {t("projects.from")}
+            <input type="date" value={filters.from} max={filters.to || undefined} onChange={(e) => setFilter("from", e.target.value)} className={controlClass} />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-400">
+            {t("projects.to")}
+            <input type="date" value={filters.to} min={filters.from || undefined} onChange={(e) => setFilter("to", e.target.value)} className={controlClass} />
+          </label>
+          <select value={filters.sort} onChange={(e) => setFilter("sort", e.target.value as ProjectSort)} aria-label={t("projects.sortBy")} className={controlClass}>
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{t(option.label)}</option>
+            ))}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input type="checkbox" checked={filters.archived} onChange={(e) => setFilter("archived", e.target.checked)} className="accent-emerald-400" />
+            {t("projects.archived")}
+          </label>
+          {(filtered || filters.archived) && (
+            <button onClick={clearFilters} className="text-sm text-emerald-400 hover:underline">{t("projects.clear")}</button>
+          )}
+        </div>
+      </div>
+
+      {error && <p role="alert" className="mb-6 text-sm text-red-400">{error}</p>}
+
+      {!result && loading ? (
+        <div className="flex justify-center p-20">
+          <Loader2 className="animate-spin text-emerald-400" size={40} />
+        </div>
+      ) : result && result.total === 0 ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-20 text-center">
+          <div className="w-20 h-20 bg-white/10 rounded-full flex items-center justify-center mx-auto mb-6">
+            <History size={40} className="text-gray-500" />
+          </div>
+          {filtered || filters.archived ? (
+            <>
+              <h3 className="text-2xl font-serif font-medium text-gray-400">{t("projects.noMatches.title")}</h3>
+              <p className="mt-2 text-gray-400">{t("projects.noMatches.message")}</p>
+            </>
+          ) : (
+            <>
+              <h3 className="text-2xl font-serif font-medium text-gray-400">{t("projects.empty.title")}</h3>
+              <p className="mt-2 text-gray-400">{t("projects.empty.message")}</p>
+            </>
+          )}
+        </div>
+      ) : result && (
+        <>
+          <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-opacity ${loading ? "opacity-60" : ""}`}>
+            {result.projects.map((project) => (
+              <ProjectCard
+                key={project.id}
+                project={project}
+                styleName={styleNameFor(styles, project.style)}
+                onOpen={() => onOpen(project.id)}
+                onRename={(title) => act(() => updateProject(project.id, { title }))}
+                onArchive={(archived) => act(() => updateProject(project.id, { archived }))}
+                onDelete={() => act(() => deleteProject(project.id))}
+              />
+            ))}
+          </div>
+
+          <div className="mt-10 flex items-center justify-between text-sm text-gray-400">
+            <span>{result.total === 1 ? t("projects.countOne") : t("projects.count", { count: result.total })}</span>
+            {pageCount > 1 && (
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1 || loading}
+                  aria-label={t("projects.previousPage")}
+                  className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+                >
+                  <ChevronLeft size={16} />
+                </button>
+                <span>{t("projects.page", { page: result.page, count: pageCount })}</span>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pageCount || loading}
+                  aria-label={t("projects.nextPage")}
+                  className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-white hover:bg-white/20 disabled:opacity-30"
+                >
+                  <ChevronRight size={16} />
+                </button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { motion } from "motion/react";
+import { ArrowLeft, CheckCircle2, FileText, Loader2, RefreshCw } from "lucide-react";
+import { useEffect, useMemo, useState } from "react";
+import BeforeAfterSlider from "./BeforeAfterSlider";
+import Notice, { type NoticeData } from "./Notice";
+import RefinementChat from "./RefinementChat";
+import SharePanel from "./SharePanel";
+import ShoppingList from "./ShoppingList";
+import StyleCard from "./StyleCard";
+import { styleNameFor, styleSpecFor, type StyleOption } from "../hooks/useStyles";
+import { describeError } from "../services/errorMessages";
+import { formatDate, getLanguage, t } from "../services/i18n";
+import { STAGE_MESSAGES, dismissJob, jobError, startJob, watchJob } from "../services/jobsApi";
+import { fetchProject, parseAnalysis, projectBriefUrl, projectTitle } from "../services/projectsApi";
+import type { ShoppingItem } from "../services/shoppingList";
+import type { Project } from "../types";
+
+interface ProjectDetailProps {
+  projectId: string;
+  styles: StyleOption[];
+  onBack: () => void;
+  onProjectCreated: (id: string) => void;
+  onCreditsChanged: () => void;
+}
+
+const NO_ITEMS: ShoppingItem[] = [];
+
+export default function ProjectDetail({ projectId, styles, onBack, onProjectCreated, onCreditsChanged }: ProjectDetailProps) {
+  const [project, setProject] = useState<Project | null>(null);
+  const [error, setError] = useState("");
+  const [rerunStyle, setRerunStyle] = useState<string | null>(null);
+  const [status, setStatus] = useState("");
+  const [notice, setNotice] = useState<NoticeData | null>(null);
+
+  useEffect(() => {
+    setProject(null);
+    setError("");
+    fetchProject(projectId)
+      .then((p) => {
+        setProject(p);
+        setRerunStyle(styles.find((s) => s.id !== p.style)?.id ?? null);
+      })
+      .catch((e) => setError(e.message));
+  }, [projectId]);
+
+  const handleVersionChanged = async () => {
+    onCreditsChanged();
+    try {
+      setProject(await fetchProject(projectId));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  // Runs as a server job like any other redesign; the job saves the new project.
+  const handleRerun = async () => {
+    if (!project || !rerunStyle) return;
+
+    setNotice(null);
+    try {
+      setStatus(t("stage.uploading"));
+      const job = await startJob({
+        kind: "redesign",
+        image: project.original_image,
+        style: rerunStyle,
+        styleSpec: styleSpecFor(styles, rerunStyle),
+        variations: 1,
+        language: getLanguage()
+      });
+      onCreditsChanged();
+      const finished = await watchJob(job.id, (update) => setStatus(t(STAGE_MESSAGES[update.stage])));
+      // Seen here, so the design view doesn't restore it on the next load.
+      dismissJob(finished.id);
+      onCreditsChanged();
+      if (finished.status === "succeeded" && finished.result?.project_id) {
+        onProjectCreated(finished.result.project_id);
+      } else if (finished.status === "failed") {
+        throw jobError(finished);
+      }
+    } catch (e) {
+      console.error(e);
+      const { title, message } = describeError(e);
+      setNotice({ tone: "error", title, message });
+    } finally {
+      setStatus("");
+    }
+  };
+
+  // Memoised so the shopping list only resets when the saved analysis changes.
+  const analysis = useMemo(() => (project ? parseAnalysis(project) : null), [project]);
+
+  const handleShoppingListSaved = (shoppingList: ShoppingItem[]) => {
+    if (!project || !analysis) return;
+    setProject({ ...project, analysis: JSON.stringify({ ...analysis, shoppingList }) });
+  };
+  const styleName = (id: string) => styleNameFor(styles, id);
+
+  return (
+    <div className="max-w-6xl mx-auto">
+      <button
+        onClick={onBack}
+        className="mb-8 flex items-center gap-2 text-gray-400 hover:text-white transition-colors"
+      >
+        <ArrowLeft size={18} /> {t("project.back")}
+      </button>
+
+      {notice && (
+        <div className="mb-6">
+          <Notice notice={notice} onDismiss={() => setNotice(null)} />
+        </div>
+      )}
+
+      {error && (
+        <div className="bg-black/30 backdrop-blur-md rounded-[40px] border border-white/10 p-20 text-center">
+          <h3 className="text-2xl font-serif font-medium text-gray-400">{t("project.unavailable")}</h3>
+          <p className="mt-2 text-gray-400">{error}</p>
+        </div>
+      )}
+
+      {!project && !error && (
+        <div className="flex justify-center p-20">
+          <Loader2 className="animate-spin text-emerald-400" size={40} />
+        </div>
+      )}
+
+      {project && (
+        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+          <header className="mb-10 flex flex-wrap items-end justify-between gap-4">
+            <div>
+              <h2 className="text-4xl font-serif font-bold mb-2 text-white">{projectTitle(project)}</h2>
+              <p className="text-gray-400">
+                {styleName(project.style)} · {formatDate(project.created_at)}
+              </p>
+            </div>
+            <a
+              href={projectBriefUrl(project.id, getLanguage())}
+              download
+              className="px-4 py-2 bg-white/10 text-white rounded-xl font-medium hover:bg-white/20 transition-colors flex items-center gap-2"
+            >
+              <FileText size={16} /> {t("project.downloadBrief")}
+            </a>
+          </header>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-10">
+            <div className="lg:col-span-2 space-y-8">
+              <BeforeAfterSlider before={project.original_image} after={project.redesigned_image} />
+
+              {analysis && (
+                <div className="bg-white/5 backdrop-blur-sm rounded-3xl p-6 border border-white/10">
+                  <div className="flex items-center gap-2 mb-4">
+                    <CheckCircle2 className="text-emerald-400" size={20} />
+                    <h4 className="font-bold text-white">{t("design.analysisTitle")}</h4>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("design.roomType")}</p>
+                      <p className="text-white font-medium capitalize">{analysis.roomType}</p>
+                      <p className="text-xs font-bold text-gray-400 uppercase mt-4 mb-2">{t("design.lighting")}</p>
+                      <p className="text-white font-medium">{analysis.lighting}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("design.improvements")}</p>
+                      <ul className="space-y-1">
+                        {(analysis.potentialImprovements ?? []).map((imp, i) => (
+                          <li key={i} className="text-sm text-gray-300 flex items-start gap-2">
+                            <span className="w-1.5 h-1.5 bg-emerald-400 rounded-full mt-1.5 shrink-0" />
+                            {imp}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {analysis && (
+                <ShoppingList
+                  projectId={project.id}
+                  items={analysis.shoppingList ?? NO_ITEMS}
+                  roomType={project.room_type}
+                  onSaved={handleShoppingListSaved}
+                />
+              )}
+            </div>
+
+            <section className="lg:col-span-1 space-y-8">
+              <SharePanel projectId={project.id} hidden={!!project.hidden_at} />
+
+              <RefinementChat
+                project={project}
+                style={styleSpecFor(styles, project.style)}
+                onChanged={handleVersionChanged}
+              />
+
+              <div>
+                <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4">{t("project.tryAnotherStyle")}</h3>
+                <div className="grid grid-cols-1 gap-3 mb-6">
+                  {styles.map((style) => (
+                    <StyleCard
+                      key={style.id}
+                      style={style}
+                      selected={rerunStyle === style.id}
+                      disabled={style.id === project.style}
+                      onSelect={() => setRerunStyle(style.id)}
+                    />
+                  ))}
+                </div>
+                <button
+                  disabled={!rerunStyle || !!status}
+                  onClick={handleRerun}
+                  className="w-full py-5 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold text-lg hover:scale-[1.02] active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-3"
+                >
+                  {status ? (
+                    <>
+                      <Loader2 className="animate-spin" />
+                      <span>{status}</span>
+                    </>
+                  ) : (
+                    <>
+                      <RefreshCw size={20} />
+                      <span>{t("project.regenerate", { style: rerunStyle ? styleName(rerunStyle) : "..." })}</span>
+                    </>
+                  )}
+                </button>
+                <p className="text-xs text-gray-500 mt-3 text-center">{t("project.regenerateCost")}</p>
+              </div>
+            </section>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { Sparkles } from "lucide-react";
+import type { ReactNode } from "react";
+import LanguageSelect from "./LanguageSelect";
+import Link from "./Link";
+import { useI18n } from "../hooks/useI18n";
+
+interface PublicLayoutProps {
+  onSignIn: () => void;
+  children: ReactNode;
+}
+
+/** Frame for the pages signed-out visitors can see: the landing page and the gallery. */
+export default function PublicLayout({ onSignIn, children }: PublicLayoutProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      {/* Navigation */}
+      <nav className="p-6 flex justify-between items-center max-w-7xl mx-auto w-full">
+        <div className="flex items-center gap-2">
+          <Link href="/" className="flex items-center gap-2 hover:opacity-80 transition-opacity">
+            <div className="w-10 h-10 bg-gradient-to-br from-emerald-400 to-cyan-500 rounded-xl flex items-center justify-center text-white">
+              <Sparkles size={20} />
+            </div>
+            <span className="font-serif text-2xl font-bold tracking-tight text-white">GruhaBuddy</span>
+          </Link>
+        </div>
+        <div className="flex items-center gap-4">
+          <LanguageSelect />
+          <button
+            onClick={onSignIn}
+            className="px-6 py-2.5 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-full font-medium hover:opacity-90 transition-opacity"
+          >
+            {t("public.getStarted")}
+          </button>
+        </div>
+      </nav>
+
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { Loader2, MessageCircle, RotateCcw, Send } from "lucide-react";
+import { FormEvent, useEffect, useRef, useState } from "react";
+import type { StyleSpec } from "../services/geminiService";
+import { describeError } from "../services/errorMessages";
+import { t } from "../services/i18n";
+import { jobError, startJob, watchJob } from "../services/jobsApi";
+import { fetchProjectHistory, revertProjectVersion } from "../services/projectsApi";
+import type { Project, ProjectHistory } from "../types";
+
+interface RefinementChatProps {
+  project: Project;
+  style: StyleSpec;
+  /** Called after a new version is created or an old one restored. */
+  onChanged: () => void;
+}
+
+export default function RefinementChat({ project, style, onChanged }: RefinementChatProps) {
+  const [history, setHistory] = useState<ProjectHistory>({ versions: [], messages: [] });
+  const [instruction, setInstruction] = useState("");
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  const loadHistory = async () => {
+    try {
+      setHistory(await fetchProjectHistory(project.id));
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  useEffect(() => {
+    loadHistory();
+  }, [project.id]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [history.messages.length, status]);
+
+  const handleSend = async (e: FormEvent) => {
+    e.preventDefault();
+    const text = instruction.trim();
+    if (!text || status) return;
+
+    setError("");
+    try {
+      // Runs as a server job: the credit is taken when it starts and refunded
+      // if it fails, and the job saves the new version.
+      setStatus(t("refine.updating"));
+      const job = await startJob({
+        kind: "refine",
+        project_id: project.id,
+        instruction: text,
+        style: project.style,
+        styleSpec: style
+      });
+      onChanged();
+      const finished = await watchJob(job.id, (update) =>
+        setStatus(t(update.stage === "saving" ? "refine.saving" : "refine.updating"))
+      );
+      if (finished.status === "failed") {
+        throw jobError(finished);
+      }
+      setInstruction("");
+      await loadHistory();
+      onChanged();
+    } catch (e) {
+      console.error(e);
+      const { title, message } = describeError(e);
+      setError(`${title}. ${message}`);
+    } finally {
+      setStatus("");
+    }
+  };
+
+  const handleRevert = async (version: number) => {
+    setError("");
+    try {
+      await revertProjectVersion(project.id, version);
+      await loadHistory();
+      onChanged();
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {history.versions.length > 0 && (
+        <section>
+          <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4">{t("refine.versions")}</h3>
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {history.versions.map((v) => {
+              const isCurrent = v.version === project.current_version;
+              return (
+                <div key={v.version} className="shrink-0 w-32">
+                  <div className={`aspect-video rounded-xl overflow-hidden border-2 ${isCurrent ? "border-emerald-400" : "border-white/10"}`}>
+                    <img src={v.thumbnail || v.image} alt={t("refine.versionAlt", { version: v.version })} className="w-full h-full object-cover" />
+                  </div>
+                  <div className="flex justify-between items-center mt-1">
+                    <span className="text-xs text-gray-400">v{v.version}</span>
+                    {isCurrent ? (
+                      <span className="text-[10px] font-bold uppercase text-emerald-400">{t("refine.current")}</span>
+                    ) : (
+                      <button
+                        onClick={() => handleRevert(v.version)}
+                        disabled={!!status}
+                        className="text-[10px] font-bold uppercase text-gray-400 hover:text-white flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <RotateCcw size={10} /> {t("refine.revert")}
+                      </button>
+                    )}
+                  </div>
+                  {v.instruction && <p className="text-[11px] text-gray-500 truncate" title={v.instruction}>{v.instruction}</p>}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      )}
+
+      <section className="bg-white/5 backdrop-blur-sm rounded-3xl border border-white/10 flex flex-col h-[420px]">
+        <div className="flex items-center gap-2 p-4 border-b border-white/10">
+          <MessageCircle className="text-emerald-400" size={18} />
+          <h4 className="font-bold text-white">{t("refine.title")}</h4>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-3">
+          {history.messages.length === 0 && !status && (
+            <p className="text-sm text-gray-500">{t("refine.empty")}</p>
+          )}
+          {history.messages.map((m) => (
+            <div key={m.id} className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}>
+              <div className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm ${m.role === "user" ? "bg-emerald-400 text-black" : "bg-white/10 text-gray-200"}`}>
+                {m.event === "revert" ? t("refine.reverted", { version: m.version ?? "" }) : m.content}
+                {m.role === "assistant" && m.version !== null && (
+                  <span className="block mt-1 text-[10px] uppercase tracking-widest text-gray-400">v{m.version}</span>
+                )}
+              </div>
+            </div>
+          ))}
+          {status && (
+            <div className="flex items-center gap-2 text-sm text-gray-400">
+              <Loader2 size={14} className="animate-spin" /> {status}
+            </div>
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+
+        {error && <p role="alert" className="px-4 pb-2 text-sm text-red-400">{error}</p>}
+
+        <form onSubmit={handleSend} className="p-3 border-t border-white/10 flex gap-2">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder={t("refine.placeholder")}
+            className="flex-1 px-4 py-2 rounded-xl bg-black/30 border border-white/10 text-white placeholder:text-gray-500 focus:outline-none focus:border-emerald-400"
+          />
+          <button
+            type="submit"
+            disabled={!instruction.trim() || !!status}
+            aria-label={t("refine.send")}
+            className="w-10 h-10 rounded-xl bg-gradient-to-r from-emerald-400 to-cyan-500 text-black flex items-center justify-center disabled:opacity-50"
+          >
+            <Send size={16} />
+          </button>
+        </form>
+      </section>
+    </div>
+  );
+}
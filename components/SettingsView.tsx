@@ -0,0 +1,90 @@
+import { Coins, KeyRound, Languages, LogOut, User } from "lucide-react";
+import LanguageSelect from "./LanguageSelect";
+import Link from "./Link";
+import { useI18n } from "../hooks/useI18n";
+import type { UserData } from "../types";
+
+interface SettingsViewProps {
+  user: UserData;
+  hasApiKey: boolean;
+  /** Only set inside AI Studio, where the user brings their own Gemini key. */
+  onSelectKey?: () => void;
+  onSignOut: () => void;
+}
+
+/** /settings: the signed-in account, its connections and the app language. */
+export default function SettingsView({ user, hasApiKey, onSelectKey, onSignOut }: SettingsViewProps) {
+  const { t } = useI18n();
+  const sectionClass = "bg-black/30 backdrop-blur-md rounded-[32px] border border-white/10 p-8";
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <header className="mb-8">
+        <h2 className="text-4xl font-serif font-bold mb-2 text-white">{t("settings.title")}</h2>
+        <p className="text-gray-400">{t("settings.subtitle")}</p>
+      </header>
+
+      <div className="space-y-6">
+        <section className={sectionClass}>
+          <h3 className="flex items-center gap-2 text-sm font-bold text-emerald-400 uppercase tracking-widest mb-6">
+            <User size={16} /> {t("settings.account")}
+          </h3>
+          <dl className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <div>
+              <dt className="text-xs font-bold text-gray-400 uppercase mb-1">{t("settings.name")}</dt>
+              <dd className="text-white font-medium">{user.name}</dd>
+            </div>
+            <div>
+              <dt className="text-xs font-bold text-gray-400 uppercase mb-1">{t("settings.email")}</dt>
+              <dd className="text-white font-medium break-all">{user.email}</dd>
+            </div>
+          </dl>
+          <p className="text-xs text-gray-500 mt-6">{t("settings.accountNote")}</p>
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className="flex items-center gap-2 text-sm font-bold text-emerald-400 uppercase tracking-widest mb-6">
+            <Coins size={16} /> {t("settings.credits")}
+          </h3>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-white">
+              <span className="text-3xl font-bold text-emerald-400">{user.credits}</span> {t("settings.creditsLeft")}
+            </p>
+            <Link href="/credits" className="px-5 py-2.5 bg-white/10 text-white rounded-xl font-medium hover:bg-white/20 transition-colors">
+              {t("settings.buyCredits")}
+            </Link>
+          </div>
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className="flex items-center gap-2 text-sm font-bold text-emerald-400 uppercase tracking-widest mb-6">
+            <Languages size={16} /> {t("language.label")}
+          </h3>
+          <LanguageSelect />
+          <p className="text-xs text-gray-500 mt-6">{t("settings.languageNote")}</p>
+        </section>
+
+        {onSelectKey && (
+          <section className={sectionClass}>
+            <h3 className="flex items-center gap-2 text-sm font-bold text-emerald-400 uppercase tracking-widest mb-6">
+              <KeyRound size={16} /> {t("settings.apiKey")}
+            </h3>
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <p className="text-gray-300">{hasApiKey ? t("settings.keySelected") : t("settings.noKey")}</p>
+              <button onClick={onSelectKey} className="px-5 py-2.5 bg-white/10 text-white rounded-xl font-medium hover:bg-white/20 transition-colors">
+                {hasApiKey ? t("settings.changeKey") : t("action.selectApiKey")}
+              </button>
+            </div>
+          </section>
+        )}
+
+        <button
+          onClick={onSignOut}
+          className="px-5 py-3 flex items-center gap-2 text-gray-400 hover:bg-red-500/20 hover:text-red-400 rounded-xl transition-colors"
+        >
+          <LogOut size={18} /> {t("settings.signOut")}
+        </button>
+      </div>
+    </div>
+  );
+}
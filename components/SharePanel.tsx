@@ -0,0 +1,150 @@
+import { Check, Copy, Link2, Loader2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import type { MessageKey } from "../services/i18n";
+import { fetchShareLink, revokeShareLink, shareProject } from "../services/projectsApi";
+import type { ShareLink } from "../types";
+
+interface SharePanelProps {
+  projectId: string;
+  /** A moderator hid the project; its links no longer open. */
+  hidden?: boolean;
+}
+
+const EXPIRY_OPTIONS: { label: MessageKey; days: number | null }[] = [
+  { label: "sharePanel.expiry.never", days: null },
+  { label: "sharePanel.expiry.oneDay", days: 1 },
+  { label: "sharePanel.expiry.days", days: 7 },
+  { label: "sharePanel.expiry.days", days: 30 },
+];
+
+/** Publishes a project to a public link, with expiry and revoke controls. */
+export default function SharePanel({ projectId, hidden = false }: SharePanelProps) {
+  const { t, formatDateTime } = useI18n();
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [expiryDays, setExpiryDays] = useState<number | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setLoading(true);
+    setLink(null);
+    fetchShareLink(projectId)
+      .then(setLink)
+      .catch((e) => setError(e.message))
+      .finally(() => setLoading(false));
+  }, [projectId]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleShare = (days: number | null) => run(async () => {
+    setExpiryDays(days);
+    setLink(await shareProject(projectId, days));
+  });
+
+  const handleRevoke = () => run(async () => {
+    await revokeShareLink(projectId);
+    setLink(null);
+  });
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link.url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-3xl p-6 border border-white/10">
+      <div className="flex items-center gap-2 mb-4">
+        <Link2 className="text-emerald-400" size={20} />
+        <h4 className="font-bold text-white">{t("sharePanel.title")}</h4>
+      </div>
+
+      {error && <p role="alert" className="mb-3 text-sm text-red-400">{error}</p>}
+
+      {hidden ? (
+        <p className="text-sm text-amber-300">{t("sharePanel.hidden")}</p>
+      ) : loading ? (
+        <Loader2 className="animate-spin text-emerald-400" size={20} />
+      ) : link ? (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <input
+              readOnly
+              value={link.url}
+              onFocus={(e) => e.target.select()}
+              aria-label={t("sharePanel.linkLabel")}
+              className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm"
+            />
+            <button
+              onClick={handleCopy}
+              aria-label={t("sharePanel.copy")}
+              className="px-3 py-2 bg-white/10 text-white rounded-xl hover:bg-white/20 transition-colors"
+            >
+              {copied ? <Check size={16} className="text-emerald-400" /> : <Copy size={16} />}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            {link.expires_at ? t("sharePanel.expiresAt", { date: formatDateTime(link.expires_at) }) : t("sharePanel.neverExpires")}
+          </p>
+          <div className="flex gap-2">
+            <select
+              value={expiryDays ?? ""}
+              disabled={busy}
+              onChange={(e) => handleShare(e.target.value ? Number(e.target.value) : null)}
+              aria-label={t("sharePanel.expiryLabel")}
+              className="flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days ?? "never"} value={option.days ?? ""}>{t(option.label, { count: option.days ?? 0 })}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleRevoke}
+              disabled={busy}
+              className="px-3 py-2 text-sm text-red-400 border border-red-400/30 rounded-xl hover:bg-red-400/10 transition-colors disabled:opacity-50"
+            >
+              {t("sharePanel.turnOff")}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">{t("sharePanel.intro")}</p>
+          <div className="flex gap-2">
+            <select
+              value={expiryDays ?? ""}
+              onChange={(e) => setExpiryDays(e.target.value ? Number(e.target.value) : null)}
+              aria-label={t("sharePanel.expiryLabel")}
+              className="flex-1 px-3 py-2 rounded-xl bg-white/5 border border-white/10 text-white text-sm"
+            >
+              {EXPIRY_OPTIONS.map((option) => (
+                <option key={option.days ?? "never"} value={option.days ?? ""}>{t(option.label, { count: option.days ?? 0 })}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleShare(expiryDays)}
+              disabled={busy}
+              className="px-4 py-2 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-xl text-sm font-bold hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center gap-2"
+            >
+              {busy && <Loader2 size={14} className="animate-spin" />} {t("sharePanel.create")}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { Download, Loader2, Plus, Save, ShoppingCart, Trash2 } from "lucide-react";
+import { useEffect, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { updateShoppingList } from "../services/projectsApi";
+import {
+  MAX_SHOPPING_ITEMS,
+  SHOPPING_CATEGORIES,
+  categoryLabel,
+  downloadCsv,
+  formatInr,
+  formatInrRange,
+  lineTotals,
+  parseShoppingItem,
+  shoppingListToCsv,
+  shoppingTotals,
+  type ShoppingItem,
+} from "../services/shoppingList";
+
+interface ShoppingListProps {
+  projectId: string;
+  items: ShoppingItem[];
+  /** Used for the CSV file name, e.g. "living room". */
+  roomType: string;
+  onSaved: (items: ShoppingItem[]) => void;
+}
+
+const NEW_ITEM: ShoppingItem = { category: "furniture", description: "", quantity: 1, priceMin: 0, priceMax: 0 };
+
+// Number inputs report "" while being edited; treat that as 0 rather than NaN.
+const toInt = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+/** Editable bill of materials with INR totals, saved with the project. */
+export default function ShoppingList({ projectId, items: savedItems, roomType, onSaved }: ShoppingListProps) {
+  const { t } = useI18n();
+  const [items, setItems] = useState(savedItems);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setItems(savedItems);
+    setDirty(false);
+  }, [savedItems]);
+
+  const update = (index: number, changes: Partial<ShoppingItem>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    setDirty(true);
+  };
+
+  const remove = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+    setDirty(true);
+  };
+
+  const add = () => {
+    setItems([...items, NEW_ITEM]);
+    setDirty(true);
+  };
+
+  // The same rules the server applies before saving.
+  const invalid = items.length > MAX_SHOPPING_ITEMS || items.some((item) => parseShoppingItem(item) === null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError("");
+    try {
+      onSaved(await updateShoppingList(projectId, items));
+      setDirty(false);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    downloadCsv(`${roomType.replace(/\s+/g, "-").toLowerCase() || "room"}-shopping-list.csv`, shoppingListToCsv(items));
+  };
+
+  const total = shoppingTotals(items);
+  const cellClass = "px-2 py-1.5 rounded-lg bg-white/5 border border-white/10 text-white text-sm focus:outline-none focus:border-emerald-400";
+
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-3xl p-6 border border-white/10">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center gap-2">
+          <ShoppingCart className="text-emerald-400" size={20} />
+          <h4 className="font-bold text-white">{t("shopping.title")}</h4>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleExport}
+            disabled={items.length === 0}
+            className="px-3 py-1.5 bg-white/10 text-white rounded-xl text-sm font-medium hover:bg-white/20 transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            <Download size={14} /> {t("shopping.exportCsv")}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!dirty || invalid || saving}
+            className="px-3 py-1.5 bg-emerald-400 text-black rounded-xl text-sm font-bold hover:opacity-90 transition-opacity disabled:opacity-50 flex items-center gap-2"
+          >
+            {saving ? <Loader2 size={14} className="animate-spin" /> : <Save size={14} />} {t("common.save")}
+          </button>
+        </div>
+      </div>
+
+      {error && <p role="alert" className="mb-3 text-sm text-red-400">{error}</p>}
+
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-400 mb-4">{t("shopping.empty")}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-xs font-bold text-gray-400 uppercase">
+                <th className="pb-2 pr-2">{t("shopping.item")}</th>
+                <th className="pb-2 pr-2">{t("shopping.category")}</th>
+                <th className="pb-2 pr-2">{t("shopping.quantity")}</th>
+                <th className="pb-2 pr-2">{t("shopping.unitPrice")}</th>
+                <th className="pb-2 pr-2 text-right">{t("shopping.total")}</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, i) => (
+                <tr key={i} className="align-top">
+                  <td className="py-1 pr-2">
+                    <input
+                      value={item.description}
+                      onChange={(e) => update(i, { description: e.target.value })}
+                      maxLength={200}
+                      placeholder={t("shopping.itemPlaceholder")}
+                      aria-label={t("shopping.itemLabel", { number: i + 1 })}
+                      className={`${cellClass} w-full min-w-[10rem]`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <select
+                      value={item.category}
+                      onChange={(e) => update(i, { category: e.target.value as ShoppingItem["category"] })}
+                      aria-label={t("shopping.categoryLabel", { number: i + 1 })}
+                      className={cellClass}
+                    >
+                      {SHOPPING_CATEGORIES.map((category) => (
+                        <option key={category} value={category}>{categoryLabel(category)}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      type="number"
+                      min={1}
+                      max={999}
+                      value={item.quantity}
+                      onChange={(e) => update(i, { quantity: toInt(e.target.value) })}
+                      aria-label={t("shopping.quantityLabel", { number: i + 1 })}
+                      className={`${cellClass} w-16`}
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="number"
+                        min={0}
+                        value={item.priceMin}
+                        onChange={(e) => update(i, { priceMin: toInt(e.target.value) })}
+                        aria-label={t("shopping.priceMinLabel", { number: i + 1 })}
+                        className={`${cellClass} w-24`}
+                      />
+                      <span className="text-gray-500">–</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={item.priceMax}
+                        onChange={(e) => update(i, { priceMax: toInt(e.target.value) })}
+                        aria-label={t("shopping.priceMaxLabel", { number: i + 1 })}
+                        className={`${cellClass} w-24 ${item.priceMin > item.priceMax ? "border-red-400" : ""}`}
+                      />
+                    </div>
+                  </td>
+                  <td className="py-2.5 pr-2 text-right text-sm text-gray-300 whitespace-nowrap">
+                    {formatInrRange(lineTotals(item))}
+                  </td>
+                  <td className="py-1">
+                    <button
+                      onClick={() => remove(i)}
+                      aria-label={t("shopping.removeLabel", { number: i + 1 })}
+                      className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+        <button
+          onClick={add}
+          className="px-3 py-1.5 border border-dashed border-white/20 text-gray-300 rounded-xl text-sm hover:border-emerald-400/50 hover:text-white transition-colors flex items-center gap-2"
+        >
+          <Plus size={14} /> {t("shopping.add")}
+        </button>
+        <p className="text-white">
+          <span className="text-xs font-bold text-gray-400 uppercase mr-2">{t("shopping.estimatedTotal")}</span>
+          <span className="font-bold">{items.length > 0 ? formatInrRange(total) : formatInr(0)}</span>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import type { StyleOption } from "../hooks/useStyles";
+
+interface StyleCardProps {
+  style: StyleOption;
+  selected: boolean;
+  disabled?: boolean;
+  onSelect: () => void;
+}
+
+export default function StyleCard({ style, selected, disabled, onSelect }: StyleCardProps) {
+  return (
+    <button
+      disabled={disabled}
+      onClick={onSelect}
+      className={`flex items-center gap-4 p-4 rounded-2xl border transition-all text-left disabled:opacity-40 disabled:cursor-not-allowed ${selected ? "border-emerald-400 bg-emerald-400/10 ring-2 ring-emerald-400/20" : "border-white/10 bg-white/5 hover:bg-white/10"}`}
+    >
+      {style.icon ? (
+        <span className="text-2xl">{style.icon}</span>
+      ) : (
+        // Custom styles have no emoji; show their palette instead.
+        <span className="grid grid-cols-2 gap-0.5 w-8 h-8 rounded-lg overflow-hidden shrink-0">
+          {(style.palette?.length ? style.palette : ["#475569"]).slice(0, 4).map((color, i) => (
+            <span key={i} style={{ backgroundColor: color }} />
+          ))}
+        </span>
+      )}
+      <div className="min-w-0">
+        <p className="font-bold text-white">{style.name}</p>
+        <p className="text-xs text-gray-400 line-clamp-2">{style.description}</p>
+        {style.custom?.team_name && (
+          <p className="text-[10px] font-bold uppercase tracking-widest text-emerald-400 mt-1">{style.custom.team_name}</p>
+        )}
+      </div>
+    </button>
+  );
+}
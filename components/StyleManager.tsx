@@ -0,0 +1,290 @@
+import { motion } from "motion/react";
+import { ImagePlus, Loader2, Lock, Plus, Trash2, Users, X } from "lucide-react";
+import { ChangeEvent, FormEvent, useEffect, useRef, useState } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { ACCEPTED_IMAGE_TYPES, prepareImage } from "../services/imagePreprocessing";
+import { uploadImage } from "../services/projectsApi";
+import { createStyle, createTeam, deleteStyle, fetchTeams, joinTeam, leaveTeam, unshareStyle } from "../services/stylesApi";
+import type { CustomStyle, Team } from "../types";
+import PaletteEditor from "./PaletteEditor";
+
+interface StyleManagerProps {
+  userId: string;
+  customStyles: CustomStyle[];
+  onClose: () => void;
+  /** Called after a style is created, deleted or unshared; receives the new style's id when one was created. */
+  onChanged: (createdId?: string) => void;
+}
+
+const MAX_COLORS = 6;
+const MAX_REFERENCES = 3;
+const DEFAULT_PALETTE = ["#f5f0e8", "#c8a27a", "#3d4a3a"];
+
+export default function StyleManager({ userId, customStyles, onClose, onChanged }: StyleManagerProps) {
+  const { t } = useI18n();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [palette, setPalette] = useState<string[]>(DEFAULT_PALETTE);
+  const [references, setReferences] = useState<{ url: string; thumbnail: string }[]>([]);
+  const [teamId, setTeamId] = useState("");
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [newTeamName, setNewTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    fetchTeams().then(setTeams).catch((e) => console.error("Failed to fetch teams", e));
+  }, []);
+
+  // Wraps an async action with the shared busy flag and inline error message.
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError("");
+    try {
+      await action();
+    } catch (e: any) {
+      setError(e.message || t("error.unknown.title"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReferenceUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    run(async () => {
+      const prepared = await prepareImage(file);
+      const stored = await uploadImage(await (await fetch(prepared.dataUrl)).blob());
+      setReferences((current) => [...current, { url: stored.url, thumbnail: stored.thumbnail_url }]);
+    });
+  };
+
+  const handleCreate = (e: FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      const style = await createStyle({
+        name: name.trim(),
+        description: description.trim(),
+        palette,
+        reference_images: references.map((r) => r.url),
+        team_id: teamId || null
+      });
+      setName("");
+      setDescription("");
+      setPalette(DEFAULT_PALETTE);
+      setReferences([]);
+      onChanged(style.id);
+    });
+  };
+
+  const handleDelete = (id: string) => run(async () => {
+    await deleteStyle(id);
+    onChanged();
+  });
+
+  const handleUnshare = (id: string) => run(async () => {
+    await unshareStyle(id);
+    onChanged();
+  });
+
+  const handleCreateTeam = () => run(async () => {
+    setTeams(await createTeam(newTeamName.trim()));
+    setNewTeamName("");
+  });
+
+  const handleJoinTeam = () => run(async () => {
+    setTeams(await joinTeam(inviteCode.trim()));
+    setInviteCode("");
+    // Joining a team brings its shared styles into the picker.
+    onChanged();
+  });
+
+  const handleLeaveTeam = (id: string) => run(async () => {
+    setTeams(await leaveTeam(id));
+    if (teamId === id) setTeamId("");
+    // Leaving takes the team's styles out of the picker and makes yours private.
+    onChanged();
+  });
+
+  const inputClass = "w-full px-4 py-3 rounded-2xl bg-white/5 border border-white/10 text-white placeholder:text-gray-500 focus:outline-none focus:border-emerald-400";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-slate-900 border border-white/10 rounded-[32px] w-full max-w-3xl max-h-[90vh] overflow-y-auto p-8"
+      >
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-3xl font-serif font-bold text-white">{t("styles.title")}</h2>
+          <button onClick={onClose} aria-label={t("common.close")} className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center text-gray-300 hover:bg-white/20">
+            <X size={18} />
+          </button>
+        </div>
+
+        {error && <p role="alert" className="mb-4 text-sm text-red-400">{error}</p>}
+
+        <form onSubmit={handleCreate} className="space-y-4 mb-10">
+          <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest">{t("styles.new")}</h3>
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder={t("styles.namePlaceholder")} maxLength={60} className={inputClass} />
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder={t("styles.descriptionPlaceholder")}
+            maxLength={500}
+            rows={3}
+            className={inputClass}
+          />
+
+          <div>
+            <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("common.palette")}</p>
+            <PaletteEditor colors={palette} onChange={setPalette} max={MAX_COLORS} />
+          </div>
+
+          <div>
+            <p className="text-xs font-bold text-gray-400 uppercase mb-2">{t("styles.references")}</p>
+            <div className="flex flex-wrap gap-3">
+              {references.map((ref, i) => (
+                <div key={ref.url} className="relative w-24 aspect-video rounded-xl overflow-hidden border border-white/10">
+                  <img src={ref.thumbnail} alt={t("styles.referenceAlt", { number: i + 1 })} className="w-full h-full object-cover" />
+                  <button
+                    type="button"
+                    onClick={() => setReferences(references.filter((r) => r.url !== ref.url))}
+                    aria-label={t("styles.removeReference", { number: i + 1 })}
+                    className="absolute top-1 right-1 w-5 h-5 rounded-full bg-black/70 text-gray-300 flex items-center justify-center"
+                  >
+                    <X size={12} />
+                  </button>
+                </div>
+              ))}
+              {references.length < MAX_REFERENCES && (
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={() => referenceInputRef.current?.click()}
+                  className="w-24 aspect-video rounded-xl border border-dashed border-white/20 text-gray-400 flex items-center justify-center hover:border-emerald-400"
+                >
+                  <ImagePlus size={18} />
+                </button>
+              )}
+              <input type="file" ref={referenceInputRef} onChange={handleReferenceUpload} className="hidden" accept={ACCEPTED_IMAGE_TYPES} />
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="text-xs font-bold text-gray-400 uppercase">{t("styles.shareWith")}</span>
+            <select value={teamId} onChange={(e) => setTeamId(e.target.value)} className={`${inputClass} mt-2`}>
+              <option value="">{t("styles.onlyMe")}</option>
+              {teams.map((team) => (
+                <option key={team.id} value={team.id}>{t("styles.teamLibrary", { team: team.name })}</option>
+              ))}
+            </select>
+          </label>
+
+          <button
+            type="submit"
+            disabled={busy || !name.trim() || !description.trim()}
+            className="w-full py-4 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-2xl font-bold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? <Loader2 size={18} className="animate-spin" /> : <Plus size={18} />}
+            {t("styles.save")}
+          </button>
+        </form>
+
+        {customStyles.length > 0 && (
+          <section className="mb-10">
+            <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4">{t("styles.library")}</h3>
+            <div className="space-y-3">
+              {customStyles.map((style) => (
+                <div key={style.id} className="flex items-center gap-4 p-4 rounded-2xl border border-white/10 bg-white/5">
+                  <div className="flex -space-x-1">
+                    {style.palette.map((color, i) => (
+                      <span key={i} className="w-5 h-5 rounded-full border border-black/40" style={{ backgroundColor: color }} />
+                    ))}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-bold text-white truncate">{style.name}</p>
+                    <p className="text-xs text-gray-400 truncate">{style.team_name ? t("styles.sharedWith", { team: style.team_name }) : t("styles.private")}</p>
+                  </div>
+                  {style.owner_id === userId && style.team_id && (
+                    <button
+                      onClick={() => handleUnshare(style.id)}
+                      disabled={busy}
+                      aria-label={t("styles.unshare", { name: style.name })}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      <Lock size={18} />
+                    </button>
+                  )}
+                  {style.owner_id === userId && (
+                    <button
+                      onClick={() => handleDelete(style.id)}
+                      disabled={busy}
+                      aria-label={t("styles.delete", { name: style.name })}
+                      className="text-gray-400 hover:text-red-400"
+                    >
+                      <Trash2 size={18} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section>
+          <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest mb-4 flex items-center gap-2">
+            <Users size={16} /> {t("styles.teams")}
+          </h3>
+          {teams.length > 0 && (
+            <ul className="space-y-2 mb-4">
+              {teams.map((team) => (
+                <li key={team.id} className="flex items-center gap-4 text-sm text-gray-300">
+                  <span className="flex-1">{team.name}</span>
+                  <span className="font-mono text-gray-500">{t("styles.inviteCode", { code: team.invite_code })}</span>
+                  <button
+                    type="button"
+                    disabled={busy}
+                    onClick={() => handleLeaveTeam(team.id)}
+                    aria-label={t("styles.leaveTeam", { team: team.name })}
+                    className="text-gray-400 hover:text-red-400 disabled:opacity-50"
+                  >
+                    {t("styles.leave")}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div className="flex gap-2">
+              <input value={newTeamName} onChange={(e) => setNewTeamName(e.target.value)} placeholder={t("styles.newTeamName")} className={inputClass} />
+              <button
+                type="button"
+                disabled={busy || !newTeamName.trim()}
+                onClick={handleCreateTeam}
+                className="px-4 rounded-2xl bg-white/10 text-white font-medium hover:bg-white/20 disabled:opacity-50"
+              >
+                {t("styles.createTeam")}
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <input value={inviteCode} onChange={(e) => setInviteCode(e.target.value)} placeholder={t("styles.invitePlaceholder")} className={inputClass} />
+              <button
+                type="button"
+                disabled={busy || !inviteCode.trim()}
+                onClick={handleJoinTeam}
+                className="px-4 rounded-2xl bg-white/10 text-white font-medium hover:bg-white/20 disabled:opacity-50"
+              >
+                {t("styles.join")}
+              </button>
+            </div>
+          </div>
+        </section>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Check, Loader2, TriangleAlert } from "lucide-react";
+import { useI18n } from "../hooks/useI18n";
+
+interface VariationPickerProps {
+  variations: string[];
+  selected: number[];
+  active: string | null;
+  saving: boolean;
+  saved: boolean;
+  /** Variations whose layout drifted from the original photo. */
+  flagged?: string[];
+  onToggle: (index: number) => void;
+  onPreview: (index: number) => void;
+  onSave: () => void;
+}
+
+export default function VariationPicker({ variations, selected, active, saving, saved, flagged = [], onToggle, onPreview, onSave }: VariationPickerProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <p className="text-xs font-bold text-emerald-400 uppercase tracking-widest">
+          {saved ? t("variations.saved") : t("variations.pick")}
+        </p>
+        {!saved && (
+          <button
+            disabled={selected.length === 0 || saving}
+            onClick={onSave}
+            className="px-4 py-2 bg-gradient-to-r from-emerald-400 to-cyan-500 text-black rounded-xl font-medium hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {saving && <Loader2 size={16} className="animate-spin" />}
+            {selected.length === 1 ? t("variations.saveOne") : t("variations.save", { count: selected.length })}
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {variations.map((variation, i) => {
+          const isSelected = selected.includes(i);
+          return (
+            <div
+              key={i}
+              onClick={() => onPreview(i)}
+              className={`relative aspect-video rounded-2xl overflow-hidden cursor-pointer border-2 transition-all ${active === variation ? "border-emerald-400" : "border-white/10 hover:border-white/30"}`}
+            >
+              <img src={variation} alt={t("variations.alt", { number: i + 1 })} className="w-full h-full object-cover" />
+              {flagged.includes(variation) && (
+                <span
+                  title={t("variations.layoutShiftedHint")}
+                  className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-black/70 text-amber-300 text-[10px] font-bold flex items-center gap-1"
+                >
+                  <TriangleAlert size={12} /> {t("variations.layoutShifted")}
+                </span>
+              )}
+              <button
+                disabled={saved}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggle(i);
+                }}
+                aria-label={t(isSelected ? "variations.deselect" : "variations.select", { number: i + 1 })}
+                aria-pressed={isSelected}
+                className={`absolute top-2 right-2 w-7 h-7 rounded-full flex items-center justify-center transition-colors ${isSelected ? "bg-emerald-400 text-black" : "bg-black/60 text-transparent border border-white/40"}`}
+              >
+                <Check size={16} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,9 @@
+export const STYLES = [
+  { id: "modern", name: "Modern", description: "Clean lines, neutral palette", icon: "🏙️" },
+  { id: "minimalist", name: "Minimalist", description: "Less is more, functional", icon: "⚪" },
+  { id: "scandinavian", name: "Scandinavian", description: "Light, airy, wood textures", icon: "🌲" },
+  { id: "industrial", name: "Industrial", description: "Raw materials, exposed brick", icon: "🏭" },
+  { id: "luxury", name: "Luxury", description: "Opulent, rich textures, gold", icon: "💎" },
+  { id: "bohemian", name: "Bohemian", description: "Eclectic, colorful, natural", icon: "🌿" },
+  { id: "japandi", name: "Japandi", description: "Japanese zen meets Scandi", icon: "🎋" },
+];
@@ -0,0 +1,408 @@
+import { useEffect, useRef, useState } from "react";
+import type { NoticeData } from "../components/Notice";
+import { STYLES } from "../constants";
+import type { RoomAnalysis } from "../services/geminiService";
+import { fetchHomes } from "../services/homesApi";
+import { ImagePreprocessingError, prepareImage } from "../services/imagePreprocessing";
+import { getLanguage, t } from "../services/i18n";
+import { STAGE_MESSAGES, cancelJob, dismissJob, fetchCurrentJob, isJobActive, jobError, startJob, watchJob } from "../services/jobsApi";
+import { InsufficientCreditsError, ensureShareLink, saveProjects } from "../services/projectsApi";
+import type { GenerationJob, Home, InspirationImage, StoredImage, UserData } from "../types";
+import { styleNameFor, styleSpecFor, type StyleOption } from "./useStyles";
+
+interface DesignOptions {
+  user: UserData | null;
+  styles: StyleOption[];
+  /** True while the design page is showing; homes are loaded for its picker then. */
+  visible: boolean;
+  refreshUser: () => Promise<void>;
+  showError: (e: unknown) => void;
+  setNotice: (notice: NoticeData | null) => void;
+  buyCreditsAction: NonNullable<NoticeData["action"]>;
+  /** A job from before the page was loaded was picked back up. */
+  onResume: () => void;
+}
+
+/**
+ * The design page's state and actions. It lives above the router, so an
+ * upload or a running job survives a visit to another page.
+ */
+export function useDesign({ user, styles, visible, refreshUser, showError, setNotice, buyCreditsAction, onResume }: DesignOptions) {
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState("");
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+
+  const [image, setImage] = useState<string | null>(null);
+  const [preparingImage, setPreparingImage] = useState(false);
+  const [uploadError, setUploadError] = useState("");
+  const [selectedStyle, setSelectedStyle] = useState(STYLES[0].id);
+  // Homes the new design can be added to; a room in a home uses the home's style.
+  const [homes, setHomes] = useState<Home[]>([]);
+  const [designHomeId, setDesignHomeId] = useState<string | null>(null);
+  const designHome = homes.find((h) => h.id === designHomeId) ?? null;
+  // A gallery image picked to guide this design, on top of the style's own references.
+  const [inspiration, setInspiration] = useState<{ image: InspirationImage; stored: StoredImage } | null>(null);
+  const [analysis, setAnalysis] = useState<RoomAnalysis | null>(null);
+  const [resultImage, setResultImage] = useState<string | null>(null);
+  const [variationCount, setVariationCount] = useState(1);
+  const [preserveLayout, setPreserveLayout] = useState(false);
+  // Skips results cached from an earlier run with the same photo and style.
+  const [forceRegenerate, setForceRegenerate] = useState(false);
+  // Results whose walls, windows or doors still moved after the layout check's retries.
+  const [driftedImages, setDriftedImages] = useState<string[]>([]);
+  const [variations, setVariations] = useState<string[]>([]);
+  const [selectedVariations, setSelectedVariations] = useState<number[]>([]);
+  const [savingVariations, setSavingVariations] = useState(false);
+  const [variationsSaved, setVariationsSaved] = useState(false);
+  const [editingRegion, setEditingRegion] = useState(false);
+  // Set once the result on screen is saved, so it can be published as a share link.
+  const [savedProjectId, setSavedProjectId] = useState<string | null>(null);
+
+  // The job whose result is on screen; dismissed once the user moves on.
+  const lastJobId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (user) resumeJob();
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user || !visible) return;
+    fetchHomes().then(setHomes).catch((e) => console.error("Failed to fetch homes", e));
+  }, [user?.id, visible]);
+
+  const reset = () => {
+    setImage(null);
+    setAnalysis(null);
+    setResultImage(null);
+    setSavedProjectId(null);
+    setVariations([]);
+    setInspiration(null);
+    setDesignHomeId(null);
+    lastJobId.current = null;
+  };
+
+  const uploadPhoto = async (file: File) => {
+    setUploadError("");
+    setPreparingImage(true);
+    try {
+      const prepared = await prepareImage(file);
+      setImage(prepared.dataUrl);
+      setAnalysis(null);
+      setResultImage(null);
+      setSavedProjectId(null);
+      setVariations([]);
+      setEditingRegion(false);
+      if (lastJobId.current) {
+        // Dismissing unsaved variations refunds their credits.
+        dismissJob(lastJobId.current).then(refreshUser);
+        lastJobId.current = null;
+      }
+    } catch (err: any) {
+      console.error(err);
+      setUploadError(err instanceof ImagePreprocessingError ? err.message : t("upload.unreadable"));
+    } finally {
+      setPreparingImage(false);
+    }
+  };
+
+  const stageLabel = (job: GenerationJob) => {
+    if (job.stage !== "generating") return t(STAGE_MESSAGES[job.stage]);
+    if (job.kind === "inpaint") return t("stage.editing");
+    if (job.preserve_layout) {
+      return job.variations > 1 ? t("stage.checkingLayoutVariations", { count: job.variations }) : t("stage.checkingLayout");
+    }
+    return job.variations > 1 ? t("stage.generatingVariations", { count: job.variations }) : t(STAGE_MESSAGES.generating);
+  };
+
+  const applyJobResult = async (job: GenerationJob) => {
+    if (job.status === "succeeded" && job.result) {
+      const { analysis: roomAnalysis, images, project_id, layout } = job.result;
+      setAnalysis(roomAnalysis);
+      setDriftedImages(images.filter((_, i) => layout?.[i]?.drifted));
+      setSavedProjectId(project_id);
+      setResultImage(images[0]);
+      setEditingRegion(false);
+      if (job.result.cached) {
+        setNotice({
+          tone: "success",
+          title: t("notice.cached.title"),
+          message: job.variations > 1 ? t("notice.cached.variations") : t("notice.cached.single")
+        });
+      }
+      if (job.kind === "redesign" && job.variations > 1) {
+        // Variations hold their credits until the user saves the ones they like,
+        // so the job stays restorable until then.
+        setVariations(images);
+        setSelectedVariations([0]);
+        setVariationsSaved(false);
+      } else {
+        setVariations([]);
+        dismissJob(job.id);
+      }
+    } else {
+      if (job.status === "failed") {
+        showError(jobError(job));
+      } else if (job.status === "canceled") {
+        setNotice({ tone: "success", title: t("notice.canceled.title"), message: t("notice.canceled.message") });
+      }
+      dismissJob(job.id);
+    }
+    await refreshUser();
+  };
+
+  // The job runs on the server; this only follows its progress.
+  const followJob = async (job: GenerationJob) => {
+    setLoading(true);
+    setActiveJobId(job.id);
+    lastJobId.current = job.id;
+    setStatus(stageLabel(job));
+    try {
+      const finished = await watchJob(job.id, (update) => setStatus(stageLabel(update)));
+      await applyJobResult(finished);
+    } finally {
+      setLoading(false);
+      setStatus("");
+      setActiveJobId(null);
+    }
+  };
+
+  // Picks up a job that was running (or finished unseen) before the page was reloaded.
+  const resumeJob = async () => {
+    try {
+      const job = await fetchCurrentJob();
+      if (!job) return;
+      onResume();
+      setImage(job.image);
+      setSelectedStyle(job.style);
+      setDesignHomeId(job.home_id);
+      if (job.kind === "redesign") {
+        setVariationCount(job.variations);
+        setPreserveLayout(job.preserve_layout);
+      }
+      if (isJobActive(job)) {
+        await followJob(job);
+      } else {
+        lastJobId.current = job.id;
+        await applyJobResult(job);
+      }
+    } catch (e) {
+      console.error("Failed to resume job", e);
+    }
+  };
+
+  const cancelActiveJob = async () => {
+    if (!activeJobId) return;
+    try {
+      await cancelJob(activeJobId);
+    } catch (e) {
+      console.error(e);
+      showError(e);
+    }
+  };
+
+  const designStyleSpec = () => {
+    const spec = styleSpecFor(styles, selectedStyle);
+    if (!inspiration) return spec;
+    return { ...spec, referenceImages: [...(spec.referenceImages ?? []), inspiration.stored.url] };
+  };
+
+  const startRedesign = async () => {
+    if (!image || !user) return;
+
+    if (user.credits < variationCount) {
+      showError(new InsufficientCreditsError());
+      return;
+    }
+
+    setLoading(true);
+    setNotice(null);
+    setVariations([]);
+    setEditingRegion(false);
+    setResultImage(null);
+    setSavedProjectId(null);
+    setAnalysis(null);
+    try {
+      setStatus(t("stage.uploading"));
+      const job = await startJob({
+        kind: "redesign",
+        image,
+        style: selectedStyle,
+        styleSpec: designStyleSpec(),
+        variations: variationCount,
+        preserveLayout,
+        force: forceRegenerate,
+        home_id: designHome?.id,
+        language: getLanguage()
+      });
+      setImage(job.image);
+      // The credits are taken when the job starts.
+      refreshUser();
+      await followJob(job);
+    } catch (e) {
+      console.error(e);
+      showError(e);
+    } finally {
+      setLoading(false);
+      setStatus("");
+    }
+  };
+
+  // Edits build on the latest result, so clients can ask for one change at a time.
+  const inpaint = async (mask: string, instruction: string) => {
+    const base = resultImage ?? image;
+    if (!base || !image || !user) return;
+
+    if (user.credits <= 0) {
+      showError(new InsufficientCreditsError());
+      return;
+    }
+
+    setLoading(true);
+    setNotice(null);
+    try {
+      setStatus(t("stage.uploading"));
+      const job = await startJob({
+        kind: "inpaint",
+        image,
+        base,
+        mask,
+        instruction,
+        analysis: analysis ?? undefined,
+        style: selectedStyle,
+        styleSpec: designStyleSpec(),
+        home_id: designHome?.id,
+        language: getLanguage()
+      });
+      setImage(job.image);
+      refreshUser();
+      await followJob(job);
+    } catch (e) {
+      console.error(e);
+      showError(e);
+    } finally {
+      setLoading(false);
+      setStatus("");
+    }
+  };
+
+  const toggleVariation = (index: number) => {
+    setSelectedVariations((current) =>
+      current.includes(index) ? current.filter((i) => i !== index) : [...current, index].sort((a, b) => a - b)
+    );
+  };
+
+  const saveVariations = async () => {
+    if (!image || !analysis || selectedVariations.length === 0) return;
+
+    setSavingVariations(true);
+    try {
+      const ids = await saveProjects(selectedVariations.map((i) => ({
+        original_image: image,
+        redesigned_image: variations[i],
+        style: selectedStyle,
+        analysis,
+        home_id: designHome?.id
+      })), lastJobId.current);
+      setVariationsSaved(true);
+      // Share whichever saved variation is on screen.
+      const shown = selectedVariations.findIndex((i) => variations[i] === resultImage);
+      setSavedProjectId(ids[Math.max(shown, 0)]);
+      if (lastJobId.current) dismissJob(lastJobId.current);
+      await refreshUser();
+    } catch (e) {
+      console.error(e);
+      if (e instanceof InsufficientCreditsError) {
+        setNotice({
+          tone: "error",
+          title: t("notice.notEnoughCredits.title"),
+          message: t("notice.notEnoughCredits.message", { count: selectedVariations.length, credits: user?.credits ?? 0 }),
+          action: buyCreditsAction
+        });
+      } else {
+        showError(e);
+      }
+    } finally {
+      setSavingVariations(false);
+    }
+  };
+
+  const share = async () => {
+    if (!savedProjectId) return;
+    try {
+      const link = await ensureShareLink(savedProjectId);
+      if (navigator.share) {
+        try {
+          await navigator.share({
+            title: t("share.title"),
+            text: t("share.text", { style: styleNameFor(styles, selectedStyle) }),
+            url: link.url
+          });
+          return;
+        } catch {
+          // User cancelled or sharing isn't available; fall back to copying.
+        }
+      }
+      await navigator.clipboard.writeText(link.url);
+      setNotice({ tone: "success", title: t("notice.linkCopied.title"), message: t("notice.linkCopied.message") });
+    } catch (e) {
+      console.error(e);
+      showError(e);
+    }
+  };
+
+  const designForHome = (home: Home) => {
+    setHomes((current) => (current.some((h) => h.id === home.id) ? current : [home, ...current]));
+    setDesignHomeId(home.id);
+    setSelectedStyle(home.style);
+  };
+
+  const changeHome = (id: string) => {
+    const home = homes.find((h) => h.id === id);
+    setDesignHomeId(home?.id ?? null);
+    if (home) setSelectedStyle(home.style);
+  };
+
+  return {
+    loading,
+    status,
+    activeJobId,
+    image,
+    preparingImage,
+    uploadError,
+    selectedStyle,
+    setSelectedStyle,
+    homes,
+    designHome,
+    inspiration,
+    setInspiration,
+    analysis,
+    resultImage,
+    setResultImage,
+    variationCount,
+    setVariationCount,
+    preserveLayout,
+    setPreserveLayout,
+    forceRegenerate,
+    setForceRegenerate,
+    driftedImages,
+    variations,
+    selectedVariations,
+    savingVariations,
+    variationsSaved,
+    editingRegion,
+    setEditingRegion,
+    savedProjectId,
+    reset,
+    uploadPhoto,
+    cancelActiveJob,
+    startRedesign,
+    inpaint,
+    toggleVariation,
+    saveVariations,
+    share,
+    designForHome,
+    changeHome,
+  };
+}
+
+export type DesignSession = ReturnType<typeof useDesign>;
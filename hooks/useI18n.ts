@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from "react";
+import { formatDate, formatDateTime, getLanguage, onLanguageChange, setLanguage, t } from "../services/i18n";
+
+/** The current language and its helpers; components using it re-render when the language changes. */
+export function useI18n() {
+  const language = useSyncExternalStore(onLanguageChange, getLanguage);
+  return { language, setLanguage, t, formatDate, formatDateTime };
+}
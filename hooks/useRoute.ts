@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+
+/** A page of the app, parsed from the URL path. */
+export type Route =
+  | { name: "landing" }
+  | { name: "design" }
+  | { name: "projects" }
+  | { name: "project"; id: string }
+  | { name: "homes" }
+  | { name: "home"; id: string }
+  | { name: "gallery" }
+  | { name: "credits" }
+  | { name: "settings" }
+  | { name: "admin"; tab: AdminTab }
+  | { name: "notFound" };
+
+export type AdminTab = "users" | "usage" | "moderation";
+
+/** Routes signed-out visitors may see; every other route sends them to sign in. */
+export const PUBLIC_ROUTES: Route["name"][] = ["landing", "gallery", "notFound"];
+
+const STATIC_ROUTES: Record<string, Route> = {
+  "/": { name: "landing" },
+  "/design": { name: "design" },
+  "/projects": { name: "projects" },
+  "/homes": { name: "homes" },
+  "/gallery": { name: "gallery" },
+  "/credits": { name: "credits" },
+  "/settings": { name: "settings" },
+  "/admin": { name: "admin", tab: "users" },
+  "/admin/usage": { name: "admin", tab: "usage" },
+  "/admin/moderation": { name: "admin", tab: "moderation" },
+};
+
+export function parseRoute(pathname: string): Route {
+  const path = pathname.length > 1 ? pathname.replace(/\/+$/, "") : pathname;
+  if (STATIC_ROUTES[path]) return STATIC_ROUTES[path];
+  const [, section, id, ...rest] = path.split("/");
+  if (id && rest.length === 0) {
+    if (section === "projects") return { name: "project", id: decodeURIComponent(id) };
+    if (section === "homes") return { name: "home", id: decodeURIComponent(id) };
+  }
+  return { name: "notFound" };
+}
+
+// pushState does not fire popstate, so navigations announce themselves with this event.
+const NAVIGATE_EVENT = "app:navigate";
+
+/** Moves to `path` without reloading; `replace` keeps it out of the back-button history. */
+export function navigate(path: string, { replace = false } = {}) {
+  if (path === window.location.pathname + window.location.search) return;
+  if (replace) {
+    window.history.replaceState(null, "", path);
+  } else {
+    window.history.pushState(null, "", path);
+  }
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+export const projectPath = (id: string) => `/projects/${encodeURIComponent(id)}`;
+export const homePath = (id: string) => `/homes/${encodeURIComponent(id)}`;
+
+/** The current route, following links, navigate() and the back and forward buttons. */
+export function useRoute(): Route {
+  const [route, setRoute] = useState(() => parseRoute(window.location.pathname));
+
+  useEffect(() => {
+    const update = () => setRoute(parseRoute(window.location.pathname));
+    window.addEventListener("popstate", update);
+    window.addEventListener(NAVIGATE_EVENT, update);
+    return () => {
+      window.removeEventListener("popstate", update);
+      window.removeEventListener(NAVIGATE_EVENT, update);
+    };
+  }, []);
+
+  return route;
+}
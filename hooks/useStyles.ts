@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import { STYLES } from "../constants";
+import { t, type MessageKey } from "../services/i18n";
+import type { StyleSpec } from "../services/styles";
+import { fetchStyles } from "../services/stylesApi";
+import type { CustomStyle } from "../types";
+import { useI18n } from "./useI18n";
+
+/** An entry in the style picker: one of the presets or a user's custom style. */
+export interface StyleOption {
+  id: string;
+  name: string;
+  description: string;
+  icon?: string;
+  palette?: string[];
+  reference_images?: string[];
+  custom?: CustomStyle;
+}
+
+// Presets are shown in the current language; prompts get their English text from STYLES.
+const fromPreset = (style: (typeof STYLES)[number]): StyleOption => ({
+  ...style,
+  name: t(`style.${style.id}.name` as MessageKey),
+  description: t(`style.${style.id}.description` as MessageKey),
+});
+
+const fromCustomStyle = (style: CustomStyle): StyleOption => ({
+  id: style.id,
+  name: style.name,
+  description: style.description,
+  palette: style.palette,
+  reference_images: style.reference_images,
+  custom: style,
+});
+
+export function styleNameFor(styles: StyleOption[], id: string): string {
+  const style = styles.find((s) => s.id === id);
+  if (style) return style.name;
+  // A custom style that has since been deleted or unshared.
+  return id.startsWith("style_") ? t("style.deleted") : id;
+}
+
+export function styleSpecFor(styles: StyleOption[], id: string): StyleSpec {
+  const preset = STYLES.find((s) => s.id === id);
+  if (preset) return { name: preset.name, description: preset.description };
+  const style = styles.find((s) => s.id === id);
+  if (!style) return { name: styleNameFor(styles, id) };
+  return {
+    name: style.name,
+    description: style.description,
+    palette: style.palette,
+    referenceImages: style.reference_images,
+  };
+}
+
+/** Presets plus the signed-in user's own and team-shared styles. */
+export function useStyles(signedIn: boolean) {
+  // Preset names and descriptions follow the current language.
+  useI18n();
+  const [customStyles, setCustomStyles] = useState<CustomStyle[]>([]);
+
+  const reload = useCallback(async () => {
+    try {
+      setCustomStyles(await fetchStyles());
+    } catch (e) {
+      console.error("Failed to fetch styles", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (signedIn) {
+      reload();
+    } else {
+      setCustomStyles([]);
+    }
+  }, [signedIn, reload]);
+
+  const styles: StyleOption[] = [...STYLES.map(fromPreset), ...customStyles.map(fromCustomStyle)];
+  return { styles, customStyles, reload };
+}
@@ -0,0 +1,94 @@
+import express from "express";
+import cookieParser from "cookie-parser";
+import path from "path";
+import { createServer as createViteServer } from "vite";
+import { sessionSecret } from "./server/auth";
+import { grantExistingFileAccess, migrateInlineImages } from "./server/images";
+import { resumeJobs } from "./server/jobs";
+import { grantTeamStyleAccess } from "./server/teams";
+import { STUB_AUTHORIZE_PATH, stubAuthorizeRouter } from "./server/identity/stub";
+import { FAKE_CHECKOUT_PATH, fakeCheckoutRouter } from "./server/payments/fake";
+import { authRouter } from "./server/routes/auth";
+import { userRouter } from "./server/routes/user";
+import { projectsRouter } from "./server/routes/projects";
+import { uploadsRouter } from "./server/routes/uploads";
+import { filesRouter } from "./server/routes/files";
+import { stylesRouter } from "./server/routes/styles";
+import { teamsRouter } from "./server/routes/teams";
+import { jobsRouter } from "./server/routes/jobs";
+import { homesRouter } from "./server/routes/homes";
+import { creditsRouter } from "./server/routes/credits";
+import { inspirationRouter } from "./server/routes/inspiration";
+import { adminRouter } from "./server/routes/admin";
+import { sharePageRouter } from "./server/routes/sharePage";
+
+// Guest limits (reports on share pages, inspiration searches) key on req.ip,
+// which behind a reverse proxy is the proxy's own address unless Express trusts
+// it. TRUST_PROXY takes Express's settings: a hop count such as 1, "loopback",
+// a comma-separated list of proxy addresses or subnets, or "true". Leave it
+// unset only when clients connect to the app directly.
+const trustProxy = (value = process.env.TRUST_PROXY?.trim()): boolean | number | string => {
+  if (!value || value === "false") return false;
+  if (value === "true") return true;
+  return /^\d+$/.test(value) ? Number(value) : value;
+};
+
+async function startServer() {
+  grantExistingFileAccess();
+  // Styles shared before teammates were given their images.
+  grantTeamStyleAccess();
+  await migrateInlineImages();
+  resumeJobs();
+
+  const app = express();
+  const PORT = Number(process.env.PORT) || 3000;
+  app.set("trust proxy", trustProxy());
+
+  // Images are uploaded as multipart files, so JSON bodies stay small.
+  app.use(express.json({ limit: "1mb" }));
+  app.use(cookieParser(sessionSecret));
+
+  // --- API ---
+  if (process.env.AUTH_PROVIDER === "stub") {
+    app.use(STUB_AUTHORIZE_PATH, stubAuthorizeRouter);
+  }
+  if ((process.env.PAYMENT_PROVIDER || "fake") === "fake" && process.env.NODE_ENV !== "production") {
+    app.use(FAKE_CHECKOUT_PATH, fakeCheckoutRouter);
+  }
+  app.use("/api/auth", authRouter);
+  app.use("/api/user", userRouter);
+  app.use("/api/projects", projectsRouter);
+  app.use("/api/uploads", uploadsRouter);
+  app.use("/api/styles", stylesRouter);
+  app.use("/api/teams", teamsRouter);
+  app.use("/api/jobs", jobsRouter);
+  app.use("/api/homes", homesRouter);
+  app.use("/api/credits", creditsRouter);
+  app.use("/api/inspiration", inspirationRouter);
+  app.use("/api/admin", adminRouter);
+  app.use("/files", filesRouter);
+
+  // --- Public share pages (server-rendered) ---
+  app.use("/s", sharePageRouter);
+
+  // --- Frontend ---
+  if (process.env.NODE_ENV !== "production") {
+    const vite = await createViteServer({
+      server: { middlewareMode: true },
+      appType: "spa",
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.join(process.cwd(), "dist");
+    app.use(express.static(distPath));
+    app.get("*", (_req, res) => {
+      res.sendFile(path.join(distPath, "index.html"));
+    });
+  }
+
+  app.listen(PORT, "0.0.0.0", () => {
+    console.log(`Server running on http://localhost:${PORT}`);
+  });
+}
+
+startServer();
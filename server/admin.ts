@@ -0,0 +1,89 @@
+import type { AdminUser, AdminUserPage, FailureStat, UsageDay, UsageMetrics } from "../types";
+import { db, likePattern } from "./db";
+
+const USER_COLUMNS = `
+  id, email, name, role, credits, created_at,
+  (SELECT COUNT(*) FROM projects p WHERE p.user_id = users.id) AS project_count,
+  (SELECT COUNT(*) FROM jobs j WHERE j.user_id = users.id) AS job_count
+`;
+
+const USER_FILTER = "(@q = '' OR name LIKE @q ESCAPE '\\' OR email LIKE @q ESCAPE '\\')";
+
+const countUsers = db.prepare<{ q: string }, { total: number }>(`SELECT COUNT(*) AS total FROM users WHERE ${USER_FILTER}`);
+
+const listUsersStatement = db.prepare<{ q: string; limit: number; offset: number }, AdminUser>(`
+  SELECT ${USER_COLUMNS} FROM users WHERE ${USER_FILTER}
+  ORDER BY created_at DESC, rowid DESC LIMIT @limit OFFSET @offset
+`);
+
+const findAdminUser = db.prepare<[string], AdminUser>(`SELECT ${USER_COLUMNS} FROM users WHERE id = ?`);
+
+/** Users whose name or email contains `query`, newest first. */
+export function listUsers(query: string, page: number, page_size: number): AdminUserPage {
+  const text = query.trim();
+  const q = text ? likePattern(text) : "";
+  const { total } = countUsers.get({ q })!;
+  const users = listUsersStatement.all({ q, limit: page_size, offset: (page - 1) * page_size });
+  return { users, total, page, page_size };
+}
+
+export function getAdminUser(id: string): AdminUser | null {
+  return findAdminUser.get(id) ?? null;
+}
+
+// Windows are whole UTC days, counting today; @since is an SQLite date modifier like "-29 days".
+const SINCE = "created_at >= date('now', @since)";
+
+const dailyUsage = db.prepare<{ since: string }, UsageDay>(`
+  SELECT date(created_at) AS date,
+    SUM(kind = 'redesign') AS redesigns,
+    SUM(kind IN ('inpaint', 'refine')) AS edits,
+    SUM(status = 'succeeded') AS succeeded,
+    SUM(status = 'failed') AS failed,
+    SUM(status = 'canceled') AS canceled
+  FROM jobs WHERE ${SINCE}
+  GROUP BY date(created_at)
+`);
+
+const countFinished = db.prepare<{ since: string }, { finished: number }>(
+  `SELECT COUNT(*) AS finished FROM jobs WHERE ${SINCE} AND status IN ('succeeded', 'failed')`
+);
+
+const failuresByKind = db.prepare<{ since: string }, { kind: string; count: number }>(`
+  SELECT COALESCE(json_extract(error, '$.kind'), 'unknown') AS kind, COUNT(*) AS count
+  FROM jobs WHERE ${SINCE} AND status = 'failed'
+  GROUP BY 1 ORDER BY count DESC
+`);
+
+const averageLatency = db.prepare<{ since: string }, UsageMetrics["latency"]>(`
+  SELECT
+    ROUND(AVG(analysis_ms)) AS analysis_ms,
+    ROUND(AVG(CASE WHEN kind = 'redesign' THEN generation_ms END)) AS redesign_ms,
+    ROUND(AVG(CASE WHEN kind IN ('inpaint', 'refine') THEN generation_ms END)) AS edit_ms
+  FROM jobs WHERE ${SINCE}
+`);
+
+const emptyDay = (date: string): UsageDay => ({ date, redesigns: 0, edits: 0, succeeded: 0, failed: 0, canceled: 0 });
+
+/** Generation counts, failures and model latency over the last `days` days, oldest day first. */
+export function getUsageMetrics(days: number): UsageMetrics {
+  const params = { since: `-${days - 1} days` };
+  const byDate = new Map(dailyUsage.all(params).map((day) => [day.date, day]));
+  // Days without jobs are filled in, so charts get an evenly spaced axis.
+  const today = new Date();
+  const daily = Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - i)))
+      .toISOString()
+      .slice(0, 10);
+    return byDate.get(date) ?? emptyDay(date);
+  });
+
+  const { finished } = countFinished.get(params)!;
+  const failures: FailureStat[] = failuresByKind.all(params).map(({ kind, count }) => ({
+    kind,
+    count,
+    rate: finished ? count / finished : 0,
+  }));
+
+  return { days: daily, finished, failures, latency: averageLatency.get(params)! };
+}
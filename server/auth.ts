@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import type { CookieOptions, NextFunction, Request, Response } from "express";
+import type { UserData } from "../types";
+import { db } from "./db";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: UserData;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "session";
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const resolveSessionSecret = () => {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET is not set; using a random secret, sessions will not survive restarts");
+  return crypto.randomBytes(32).toString("hex");
+};
+
+/** Secret used by cookie-parser to sign session and OAuth state cookies. */
+export const sessionSecret = resolveSessionSecret();
+
+export const signedCookieOptions = (maxAge: number): CookieOptions => ({
+  httpOnly: true,
+  sameSite: "lax",
+  secure: process.env.NODE_ENV === "production",
+  signed: true,
+  maxAge,
+});
+
+const findUser = db.prepare<[string], UserData>(`
+  SELECT id, email, name, credits, role,
+    MAX(credits, COALESCE((
+      SELECT balance FROM credit_transactions t
+      WHERE t.user_id = users.id AND t.kind IN ('grant', 'purchase')
+      ORDER BY t.id DESC LIMIT 1
+    ), 0)) AS credits_max
+  FROM users WHERE id = ?
+`);
+
+export function getUserById(id: string): UserData | undefined {
+  return findUser.get(id);
+}
+
+export function startSession(res: Response, userId: string) {
+  res.cookie(SESSION_COOKIE, userId, signedCookieOptions(SESSION_MAX_AGE_MS));
+}
+
+export function endSession(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, sameSite: "lax" });
+}
+
+/** The signed-in user, if any, for routes that also serve signed-out visitors. */
+export function sessionUser(req: Request): UserData | undefined {
+  // signedCookies holds `false` for a cookie whose signature does not match.
+  const userId = req.signedCookies?.[SESSION_COOKIE];
+  return typeof userId === "string" ? getUserById(userId) : undefined;
+}
+
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  const user = sessionUser(req);
+  if (!user) {
+    res.status(401).json({ error: "Not signed in" });
+    return;
+  }
+  req.user = user;
+  next();
+}
+
+/** Use after requireUser; turns away anyone whose user record lacks the admin role. */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.role !== "admin") {
+    res.status(403).json({ error: "Admins only" });
+    return;
+  }
+  next();
+}
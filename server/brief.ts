@@ -0,0 +1,256 @@
+import { existsSync } from "fs";
+import path from "path";
+import PDFDocument from "pdfkit";
+import sharp from "sharp";
+import { LANGUAGE_INFO, translate, type Language, type MessageKey } from "../services/i18n";
+import { SHOPPING_CATEGORIES, type RoomAnalysis, type ShoppingItem } from "../services/providers/types";
+import type { Project } from "../types";
+import { keyFromUrl } from "./images";
+import { parseAnalysis, projectTitle } from "./projects";
+import { storage } from "./storage";
+import { styleNameFor } from "./styles";
+
+// A4 in points, with the brand colours used across the app.
+const PAGE_MARGIN = 50;
+const BRAND = "#10b981";
+const INK = "#111827";
+const MUTED = "#6b7280";
+const RULE = "#e5e7eb";
+const IMAGE_WIDTH_PX = 1200;
+
+// The standard PDF fonts have no ₹ glyph, so amounts are written as "INR 1,25,000".
+const inr = new Intl.NumberFormat("en-IN", { maximumFractionDigits: 0 });
+const formatInr = (amount: number) => `INR ${inr.format(amount)}`;
+const formatRange = (min: number, max: number) => (min === max ? formatInr(min) : `${formatInr(min)} – ${formatInr(max)}`);
+
+// The standard PDF fonts only cover Latin, so Hindi and Telugu (the brief's own
+// labels, analyses written in those languages, titles, custom style names) need
+// embedded Noto fonts. They are not bundled: download NotoSansDevanagari and
+// NotoSansTelugu from https://fonts.google.com/noto and put their -Regular.ttf
+// and -Bold.ttf files in FONT_DIR.
+const FONT_DIR = process.env.FONT_DIR || "fonts";
+
+type Weight = "Regular" | "Bold";
+
+const SCRIPT_FONTS = [
+  { family: "NotoSansDevanagari", script: "Devanagari", pattern: /[\u0900-\u097F]/ },
+  { family: "NotoSansTelugu", script: "Telugu", pattern: /[\u0C00-\u0C7F]/ },
+].map((font) => {
+  const file = (weight: Weight) => path.join(FONT_DIR, `${font.family}-${weight}.ttf`);
+  const installed = existsSync(file("Regular")) && existsSync(file("Bold"));
+  if (!installed) console.warn(`${font.family} fonts not found in ${FONT_DIR}; PDF briefs with ${font.script} text will fail`);
+  return { ...font, file, installed };
+});
+
+/** A brief needs a script font that isn't in FONT_DIR; Helvetica would render its text as blanks. */
+export class MissingFontError extends Error {
+  constructor(family: string) {
+    super(`PDF briefs need ${family}-Regular.ttf and ${family}-Bold.ttf in ${FONT_DIR}`);
+    this.name = "MissingFontError";
+  }
+}
+
+const scriptFontFor = (text: string) => {
+  const font = SCRIPT_FONTS.find((f) => f.pattern.test(text));
+  if (font && !font.installed) throw new MissingFontError(font.family);
+  return font;
+};
+
+/** Picks the font for one run of text: a Noto font when it's in an Indic script, Helvetica otherwise. */
+const useFont = (doc: Doc, text: string, weight: Weight = "Regular") => {
+  const font = scriptFontFor(text);
+  if (font) return doc.font(font.file(weight));
+  return doc.font(weight === "Bold" ? "Helvetica-Bold" : "Helvetica");
+};
+
+// Letter-spacing breaks the joined glyphs of Indic scripts, so only Latin labels are spaced out.
+const spacingFor = (text: string, spacing: number) => (scriptFontFor(text) ? 0 : spacing);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const categoryLabel = (language: Language, category: string) =>
+  (SHOPPING_CATEGORIES as readonly string[]).includes(category)
+    ? translate(language, `shopping.category.${category}` as MessageKey)
+    : capitalize(category);
+
+/** PDFKit only embeds JPEG and PNG, so stored images (WebP, SVG…) are re-encoded. */
+const loadImage = async (url: string): Promise<Buffer | null> => {
+  const key = keyFromUrl(url);
+  const data = key ? await storage.get(key) : null;
+  if (!data) return null;
+  return sharp(data)
+    .rotate()
+    .resize({ width: IMAGE_WIDTH_PX, withoutEnlargement: true })
+    .flatten({ background: "#ffffff" })
+    .jpeg({ quality: 85 })
+    .toBuffer();
+};
+
+type Doc = PDFKit.PDFDocument;
+
+const contentWidth = (doc: Doc) => doc.page.width - PAGE_MARGIN * 2;
+
+const ensureSpace = (doc: Doc, height: number) => {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) doc.addPage();
+};
+
+const sectionHeading = (doc: Doc, title: string) => {
+  ensureSpace(doc, 60);
+  doc.moveDown(1.2);
+  const label = title.toUpperCase();
+  useFont(doc, label, "Bold").fontSize(10).fillColor(BRAND).text(label, PAGE_MARGIN, doc.y, { characterSpacing: spacingFor(label, 1.5) });
+  doc.moveDown(0.5);
+};
+
+const drawHeader = (doc: Doc, project: Project, language: Language) => {
+  doc.rect(0, 0, doc.page.width, 110).fill(INK);
+  doc.font("Helvetica-Bold").fontSize(12).fillColor(BRAND).text("GRUHABUDDY", PAGE_MARGIN, 32, { characterSpacing: 2 });
+  const label = translate(language, "brief.title");
+  useFont(doc, label).fontSize(10).fillColor("#d1d5db").text(label, PAGE_MARGIN, 32, { width: contentWidth(doc), align: "right" });
+  const title = projectTitle(project, language);
+  useFont(doc, title, "Bold").fontSize(24).fillColor("#ffffff").text(title, PAGE_MARGIN, 56);
+  const date = new Date(project.created_at).toLocaleDateString(LANGUAGE_INFO[language].locale, { dateStyle: "long" });
+  const subtitle = `${styleNameFor(project.style, language)}  ·  ${date}`;
+  useFont(doc, subtitle).fontSize(10).fillColor("#d1d5db").text(subtitle, PAGE_MARGIN, 86);
+  doc.y = 110 + 24;
+};
+
+const drawImages = async (doc: Doc, project: Project, language: Language) => {
+  const [before, after] = await Promise.all([loadImage(project.original_image), loadImage(project.redesigned_image)]);
+  const gap = 16;
+  const width = (contentWidth(doc) - gap) / 2;
+  const height = width * 0.75;
+  const top = doc.y;
+
+  const panels: [string, Buffer | null][] = [
+    [translate(language, "design.before"), before],
+    [translate(language, "design.after"), after],
+  ];
+  panels.forEach(([label, image], i) => {
+    const x = PAGE_MARGIN + i * (width + gap);
+    doc.rect(x, top, width, height).fill("#f3f4f6");
+    if (image) {
+      doc.image(image, x, top, { fit: [width, height], align: "center", valign: "center" });
+    }
+    const caption = label.toUpperCase();
+    useFont(doc, caption, "Bold").fontSize(9).fillColor(MUTED).text(caption, x, top + height + 6, { characterSpacing: spacingFor(caption, 1) });
+  });
+  doc.y = top + height + 24;
+};
+
+const drawAnalysis = (doc: Doc, analysis: RoomAnalysis, language: Language) => {
+  sectionHeading(doc, translate(language, "brief.roomAnalysis"));
+  const labelWidth = 90;
+  const facts = [
+    [translate(language, "design.roomType"), capitalize(analysis.roomType ?? "")],
+    [translate(language, "design.lighting"), analysis.lighting ?? ""],
+  ];
+  for (const [label, value] of facts) {
+    const y = doc.y;
+    useFont(doc, label, "Bold").fontSize(10).fillColor(MUTED).text(label, PAGE_MARGIN, y, { width: labelWidth });
+    useFont(doc, value).fontSize(10).fillColor(INK).text(value, PAGE_MARGIN + labelWidth, y, { width: contentWidth(doc) - labelWidth });
+    doc.moveDown(0.4);
+  }
+
+  if (analysis.potentialImprovements?.length) {
+    sectionHeading(doc, translate(language, "design.improvements"));
+    useFont(doc, analysis.potentialImprovements.join(" ")).fontSize(10).fillColor(INK).list(analysis.potentialImprovements, PAGE_MARGIN, doc.y, {
+      width: contentWidth(doc),
+      bulletRadius: 2,
+      textIndent: 12,
+      paragraphGap: 4,
+    });
+  }
+};
+
+const drawCostBreakdown = (doc: Doc, items: ShoppingItem[], language: Language) => {
+  sectionHeading(doc, translate(language, "brief.costEstimate"));
+  const width = contentWidth(doc);
+  // Item, category, quantity, unit price, line total.
+  const columns = [width * 0.34, width * 0.14, width * 0.08, width * 0.22, width * 0.22];
+  const row = (cells: string[], options: { bold?: boolean; color?: string } = {}) => {
+    ensureSpace(doc, 24);
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    doc.fontSize(9).fillColor(options.color ?? INK);
+    const heights = cells.map((cell, i) => {
+      const align = i >= 2 ? "right" : "left";
+      useFont(doc, cell, options.bold ? "Bold" : "Regular").text(cell, x, y, { width: columns[i] - 6, align });
+      x += columns[i];
+      return doc.y - y;
+    });
+    doc.y = y + Math.max(...heights) + 5;
+    doc.moveTo(PAGE_MARGIN, doc.y - 2).lineTo(PAGE_MARGIN + width, doc.y - 2).strokeColor(RULE).lineWidth(0.5).stroke();
+  };
+
+  const headings: MessageKey[] = ["shopping.item", "shopping.category", "shopping.quantity", "brief.unitPrice", "shopping.total"];
+  row(headings.map((key) => translate(language, key)), { bold: true, color: MUTED });
+  let totalMin = 0;
+  let totalMax = 0;
+  for (const item of items) {
+    totalMin += item.quantity * item.priceMin;
+    totalMax += item.quantity * item.priceMax;
+    row([
+      item.description,
+      categoryLabel(language, item.category),
+      String(item.quantity),
+      formatRange(item.priceMin, item.priceMax),
+      formatRange(item.quantity * item.priceMin, item.quantity * item.priceMax),
+    ]);
+  }
+  row([translate(language, "shopping.estimatedTotal"), "", "", "", formatRange(totalMin, totalMax)], { bold: true });
+  const disclaimer = translate(language, "brief.disclaimer");
+  useFont(doc, disclaimer).fontSize(8).fillColor(MUTED).text(disclaimer, PAGE_MARGIN, doc.y + 4, { width });
+};
+
+const drawFooters = (doc: Doc, language: Language) => {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start; i < start + count; i++) {
+    doc.switchToPage(i);
+    const y = doc.page.height - PAGE_MARGIN + 16;
+    // Writing below the bottom margin would otherwise start a new page.
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    const credit = translate(language, "brief.preparedWith");
+    const pageLabel = translate(language, "brief.page", { page: i + 1, count });
+    useFont(doc, credit).fontSize(8).fillColor(MUTED).text(credit, PAGE_MARGIN, y, { lineBreak: false });
+    useFont(doc, pageLabel).text(pageLabel, PAGE_MARGIN, y, { width: contentWidth(doc), align: "right", lineBreak: false });
+    doc.page.margins.bottom = bottomMargin;
+  }
+};
+
+/**
+ * Renders a printable A4 brief for a project in `language`: before/after
+ * images, style, analysis and, when the project has one, the shopping list
+ * with totals. Throws MissingFontError when the brief needs a script font
+ * that isn't installed.
+ */
+export async function renderProjectBrief(project: Project, language: Language): Promise<Buffer> {
+  // Fail before any images are loaded when the labels themselves can't be rendered.
+  scriptFontFor(translate(language, "brief.title"));
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true,
+    info: { Title: `${projectTitle(project, language)} – ${translate(language, "brief.title")}`, Author: "GruhaBuddy" },
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  drawHeader(doc, project, language);
+  await drawImages(doc, project, language);
+  const analysis = parseAnalysis(project);
+  if (analysis) {
+    drawAnalysis(doc, analysis, language);
+    if (analysis.shoppingList?.length) {
+      drawCostBreakdown(doc, analysis.shoppingList, language);
+    }
+  }
+  drawFooters(doc, language);
+  doc.end();
+  return done;
+}
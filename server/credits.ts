@@ -0,0 +1,94 @@
+import type { CreditTransaction, CreditTransactionKind, CreditTransactionPage } from "../types";
+import { db } from "./db";
+
+/** What a credit change was for; stored on its ledger entry. */
+export interface CreditReason {
+  description: string;
+  job_id?: string | null;
+  project_id?: string | null;
+  order_id?: string | null;
+}
+
+const findBalance = db.prepare<[string], { credits: number }>("SELECT credits FROM users WHERE id = ?");
+
+const spendCreditsStatement = db.prepare<{ user_id: string; count: number }, { credits: number }>(
+  "UPDATE users SET credits = credits - @count WHERE id = @user_id AND credits >= @count RETURNING credits"
+);
+
+const addCreditsStatement = db.prepare<{ user_id: string; count: number }, { credits: number }>(
+  "UPDATE users SET credits = credits + @count WHERE id = @user_id RETURNING credits"
+);
+
+const insertTransaction = db.prepare(`
+  INSERT INTO credit_transactions (user_id, kind, amount, balance, description, job_id, project_id, order_id)
+  VALUES (@user_id, @kind, @amount, @balance, @description, @job_id, @project_id, @order_id)
+`);
+
+const record = (user_id: string, kind: CreditTransactionKind, amount: number, balance: number, reason: CreditReason) => {
+  insertTransaction.run({
+    user_id,
+    kind,
+    amount,
+    balance,
+    description: reason.description,
+    job_id: reason.job_id ?? null,
+    project_id: reason.project_id ?? null,
+    order_id: reason.order_id ?? null,
+  });
+};
+
+export function getBalance(user_id: string): number {
+  return findBalance.get(user_id)?.credits ?? 0;
+}
+
+/**
+ * Deducts `count` credits if the user can afford all of them. Call inside a
+ * transaction together with the write the credits pay for.
+ */
+export function spendCredits(user_id: string, count: number, reason: CreditReason): boolean {
+  const row = spendCreditsStatement.get({ user_id, count });
+  if (!row) return false;
+  record(user_id, "debit", -count, row.credits, reason);
+  return true;
+}
+
+/** Returns credits taken for work that did not complete. */
+export function refundCredits(user_id: string, count: number, reason: CreditReason) {
+  const row = addCreditsStatement.get({ user_id, count });
+  if (row) record(user_id, "refund", count, row.credits, reason);
+}
+
+/** Adds credits the user was given ("grant") or paid for ("purchase"). */
+export function grantCredits(user_id: string, count: number, kind: "grant" | "purchase", reason: CreditReason) {
+  const row = addCreditsStatement.get({ user_id, count });
+  if (row) record(user_id, kind, count, row.credits, reason);
+}
+
+/**
+ * An admin's correction to a balance: a positive amount is added as a grant,
+ * a negative one taken as a debit. Returns false if the balance is too low.
+ */
+export function adjustCredits(user_id: string, amount: number, reason: CreditReason): boolean {
+  if (amount > 0) {
+    grantCredits(user_id, amount, "grant", reason);
+    return true;
+  }
+  return spendCredits(user_id, -amount, reason);
+}
+
+const countTransactions = db.prepare<[string], { total: number }>(
+  "SELECT COUNT(*) AS total FROM credit_transactions WHERE user_id = ?"
+);
+
+const listTransactions = db.prepare<{ user_id: string; limit: number; offset: number }, CreditTransaction>(`
+  SELECT id, kind, amount, balance, description, job_id, project_id, order_id, created_at
+  FROM credit_transactions WHERE user_id = @user_id
+  ORDER BY id DESC LIMIT @limit OFFSET @offset
+`);
+
+/** The user's ledger, newest first. */
+export function listCreditTransactions(user_id: string, page: number, page_size: number): CreditTransactionPage {
+  const { total } = countTransactions.get(user_id)!;
+  const transactions = listTransactions.all({ user_id, limit: page_size, offset: (page - 1) * page_size });
+  return { transactions, total, page, page_size };
+}
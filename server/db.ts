@@ -0,0 +1,259 @@
+import Database from "better-sqlite3";
+
+export const STARTING_CREDITS = 5;
+
+export const db = new Database(process.env.DATABASE_PATH || "gruhabuddy.db");
+db.pragma("journal_mode = WAL");
+db.pragma("foreign_keys = ON");
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    email TEXT NOT NULL,
+    name TEXT NOT NULL,
+    credits INTEGER NOT NULL DEFAULT ${STARTING_CREDITS} CHECK (credits >= 0),
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS projects (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    original_image TEXT NOT NULL,
+    original_thumbnail TEXT NOT NULL DEFAULT '',
+    redesigned_image TEXT NOT NULL,
+    redesigned_thumbnail TEXT NOT NULL DEFAULT '',
+    current_version INTEGER NOT NULL DEFAULT 1,
+    style TEXT NOT NULL,
+    room_type TEXT NOT NULL,
+    analysis TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_projects_user ON projects(user_id, created_at);
+
+  -- A property (flat, villa…) whose rooms are redesigned in one style and palette.
+  CREATE TABLE IF NOT EXISTS homes (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    style TEXT NOT NULL,
+    palette TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_homes_user ON homes(user_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS project_versions (
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    image TEXT NOT NULL,
+    thumbnail TEXT NOT NULL,
+    instruction TEXT,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (project_id, version)
+  );
+
+  CREATE TABLE IF NOT EXISTS project_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    version INTEGER,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_project_messages_project ON project_messages(project_id, id);
+
+  CREATE TABLE IF NOT EXISTS teams (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    invite_code TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE TABLE IF NOT EXISTS team_members (
+    team_id TEXT NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+    PRIMARY KEY (team_id, user_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS styles (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    team_id TEXT REFERENCES teams(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    description TEXT NOT NULL,
+    palette TEXT NOT NULL DEFAULT '[]',
+    reference_images TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_styles_owner ON styles(owner_id);
+  CREATE INDEX IF NOT EXISTS idx_styles_team ON styles(team_id);
+
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('redesign', 'inpaint', 'refine')),
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'canceled')),
+    stage TEXT NOT NULL DEFAULT 'queued',
+    input TEXT NOT NULL,
+    result TEXT,
+    error TEXT,
+    -- Credits taken when the job was created; refunded if it fails or is canceled.
+    reserved_credits INTEGER NOT NULL DEFAULT 0,
+    dismissed INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_jobs_user ON jobs(user_id, created_at);
+  CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);
+
+  CREATE TABLE IF NOT EXISTS share_links (
+    token TEXT PRIMARY KEY,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    expires_at TEXT,
+    revoked_at TEXT,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_share_links_project ON share_links(project_id);
+
+  -- Every change to users.credits, with the balance it left behind.
+  CREATE TABLE IF NOT EXISTS credit_transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('grant', 'debit', 'refund', 'purchase')),
+    amount INTEGER NOT NULL,
+    balance INTEGER NOT NULL,
+    description TEXT NOT NULL,
+    job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+    project_id TEXT REFERENCES projects(id) ON DELETE SET NULL,
+    order_id TEXT REFERENCES orders(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_credit_transactions_user ON credit_transactions(user_id, id);
+
+  CREATE TABLE IF NOT EXISTS orders (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    plan_id TEXT NOT NULL,
+    credits INTEGER NOT NULL,
+    amount_inr INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'canceled')),
+    provider TEXT NOT NULL,
+    provider_ref TEXT,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completed_at TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_orders_user ON orders(user_id, created_at);
+
+  -- Inspiration images a user saved, copied so the list shows without calling the provider.
+  CREATE TABLE IF NOT EXISTS inspiration_favorites (
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    provider TEXT NOT NULL,
+    image_id TEXT NOT NULL,
+    image TEXT NOT NULL,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (user_id, provider, image_id)
+  );
+
+  -- Reports of inappropriate shared designs, reviewed in the admin console.
+  CREATE TABLE IF NOT EXISTS project_flags (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    reason TEXT NOT NULL,
+    -- Null for reports from signed-out visitors of a share link.
+    reporter_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+    resolution TEXT CHECK (resolution IN ('dismissed', 'hidden')),
+    resolved_at TEXT,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_project_flags_project ON project_flags(project_id, resolved_at);
+
+  -- Who may read each stored file (see grantFileAccess); keys are content hashes shared across users.
+  CREATE TABLE IF NOT EXISTS file_owners (
+    key TEXT NOT NULL,
+    user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    PRIMARY KEY (key, user_id)
+  ) WITHOUT ROWID;
+
+  -- Model results keyed by a hash of everything that went into the call; see generationCache.ts.
+  CREATE TABLE IF NOT EXISTS generation_cache (
+    key TEXT PRIMARY KEY,
+    kind TEXT NOT NULL CHECK (kind IN ('analysis', 'redesign')),
+    value TEXT NOT NULL,
+    hits INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_hit_at TEXT
+  );
+`);
+
+/** A LIKE pattern matching `text` anywhere, with its wildcards escaped; use with ESCAPE '\'. */
+export const likePattern = (text: string) => `%${text.replace(/[\\%_]/g, (c) => `\\${c}`)}%`;
+
+/** Adds a column to a table created by an older version of the schema; returns whether it did. */
+export function addColumnIfMissing(table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some((c) => c.name === column)) return false;
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+addColumnIfMissing("projects", "original_thumbnail", "TEXT NOT NULL DEFAULT ''");
+addColumnIfMissing("projects", "redesigned_thumbnail", "TEXT NOT NULL DEFAULT ''");
+addColumnIfMissing("projects", "current_version", "INTEGER NOT NULL DEFAULT 1");
+addColumnIfMissing("projects", "title", "TEXT");
+addColumnIfMissing("projects", "archived_at", "TEXT");
+addColumnIfMissing("projects", "home_id", "TEXT REFERENCES homes(id) ON DELETE SET NULL");
+// Set by a moderator; hidden projects can't be viewed through share links.
+addColumnIfMissing("projects", "hidden_at", "TEXT");
+addColumnIfMissing("users", "role", "TEXT NOT NULL DEFAULT 'user' CHECK (role IN ('user', 'admin'))");
+// How long the model calls took, for the admin console; null when the stage was skipped or cached.
+addColumnIfMissing("jobs", "analysis_ms", "INTEGER");
+addColumnIfMissing("jobs", "generation_ms", "INTEGER");
+// Chat entries the app writes itself, shown in the reader's language; null for chat.
+if (addColumnIfMissing("project_messages", "event", "TEXT CHECK (event IN ('revert'))")) {
+  db.exec(`
+    UPDATE project_messages SET event = 'revert', content = ''
+    WHERE role = 'assistant' AND content = 'Reverted to version ' || version || '.'
+  `);
+}
+
+// Jobs tables from before refinements ran on the server only allow redesigns and
+// edits. SQLite can't alter a CHECK constraint, so the table is copied into one that does.
+const jobsSchema = db.prepare<[], { sql: string }>("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'jobs'").get()!.sql;
+if (!jobsSchema.includes("'refine'")) {
+  db.pragma("foreign_keys = OFF");
+  db.transaction(() => {
+    db.exec(
+      jobsSchema
+        .replace(/^CREATE TABLE "?jobs"?/, "CREATE TABLE jobs_new")
+        .replace("kind IN ('redesign', 'inpaint')", "kind IN ('redesign', 'inpaint', 'refine')")
+    );
+    db.exec(`
+      INSERT INTO jobs_new SELECT * FROM jobs;
+      DROP TABLE jobs;
+      ALTER TABLE jobs_new RENAME TO jobs;
+      CREATE INDEX idx_jobs_user ON jobs(user_id, created_at);
+      CREATE INDEX idx_jobs_status ON jobs(status);
+    `);
+  })();
+  db.pragma("foreign_keys = ON");
+}
+
+db.exec("CREATE INDEX IF NOT EXISTS idx_projects_user_archived ON projects(user_id, archived_at, created_at)");
+db.exec("CREATE INDEX IF NOT EXISTS idx_projects_home ON projects(home_id, created_at)");
+db.exec("CREATE INDEX IF NOT EXISTS idx_jobs_created ON jobs(created_at)");
+
+// Accounts created before the ledger existed open it with their balance at the time.
+db.exec(`
+  INSERT INTO credit_transactions (user_id, kind, amount, balance, description)
+  SELECT id, 'grant', credits, credits, 'Opening balance' FROM users
+  WHERE NOT EXISTS (SELECT 1 FROM credit_transactions t WHERE t.user_id = users.id)
+`);
@@ -0,0 +1,72 @@
+import crypto from "crypto";
+import { getImageProvider } from "../services/providers";
+import { db } from "./db";
+
+export type CacheKind = "analysis" | "redesign";
+
+export interface CacheResult<T> {
+  value: T;
+  /** True when no model call was made for this request. */
+  hit: boolean;
+}
+
+const findEntry = db.prepare<[string], { value: string }>("SELECT value FROM generation_cache WHERE key = ?");
+
+const recordHit = db.prepare(
+  "UPDATE generation_cache SET hits = hits + 1, last_hit_at = CURRENT_TIMESTAMP WHERE key = ?"
+);
+
+const saveEntry = db.prepare(`
+  INSERT INTO generation_cache (key, kind, value) VALUES (?, ?, ?)
+  ON CONFLICT(key) DO UPDATE SET value = excluded.value, hits = 0, created_at = CURRENT_TIMESTAMP, last_hit_at = NULL
+`);
+
+// Calls still running, so identical requests made at the same time share one model call.
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Hashes everything a model call depends on. Images should be passed as their
+ * stored file URLs, which are already named after a hash of their bytes. The
+ * provider's version is mixed in, so changing a prompt or model starts afresh.
+ */
+export function cacheKey(kind: CacheKind, inputs: unknown): string {
+  const provider = getImageProvider();
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify([kind, provider.name, provider.version, inputs]))
+    .digest("hex");
+}
+
+/**
+ * Returns the stored result for `key`, or runs `compute` and stores what it
+ * returns. `force` skips the stored result, and the fresh one replaces it.
+ * Failures are not stored.
+ */
+export async function cached<T>(
+  kind: CacheKind,
+  key: string,
+  compute: () => Promise<T>,
+  { force = false } = {}
+): Promise<CacheResult<T>> {
+  if (!force) {
+    const entry = findEntry.get(key);
+    if (entry) {
+      recordHit.run(key);
+      return { value: JSON.parse(entry.value) as T, hit: true };
+    }
+  }
+
+  const pending = inFlight.get(key);
+  if (pending) {
+    return { value: (await pending) as T, hit: true };
+  }
+
+  const call = compute()
+    .then((value) => {
+      saveEntry.run(key, kind, JSON.stringify(value));
+      return value;
+    })
+    .finally(() => inFlight.delete(key));
+  inFlight.set(key, call);
+  return { value: await call, hit: false };
+}
@@ -0,0 +1,59 @@
+import type { HomeContext } from "../services/providers/types";
+import type { Home, Project } from "../types";
+import { db } from "./db";
+import { PROJECT_COLUMNS, parseAnalysis } from "./projects";
+
+/** How many of the newest rooms are shown to the model as visual references. */
+const CONTEXT_IMAGES = 2;
+
+type HomeRow = Omit<Home, "palette"> & { palette: string };
+
+const fromRow = (row: HomeRow): Home => ({ ...row, palette: JSON.parse(row.palette) });
+
+const HOME_COLUMNS = `
+  h.id, h.name, h.style, h.palette, h.created_at,
+  (SELECT COUNT(*) FROM projects p WHERE p.home_id = h.id) AS room_count,
+  (SELECT p.redesigned_thumbnail FROM projects p WHERE p.home_id = h.id ORDER BY p.created_at DESC LIMIT 1) AS cover_image
+`;
+
+const listHomesStatement = db.prepare<[string], HomeRow>(`
+  SELECT ${HOME_COLUMNS} FROM homes h WHERE h.user_id = ? ORDER BY h.created_at DESC
+`);
+
+const findHome = db.prepare<[string, string], HomeRow>(`
+  SELECT ${HOME_COLUMNS} FROM homes h WHERE h.id = ? AND h.user_id = ?
+`);
+
+const listRooms = db.prepare<[string], Project>(`
+  SELECT ${PROJECT_COLUMNS} FROM projects WHERE home_id = ? ORDER BY created_at, rowid
+`);
+
+export function listHomes(user_id: string): Home[] {
+  return listHomesStatement.all(user_id).map(fromRow);
+}
+
+export function getHome(id: string, user_id: string): Home | null {
+  const row = findHome.get(id, user_id);
+  return row ? fromRow(row) : null;
+}
+
+/** The home's rooms, oldest first. */
+export function getHomeRooms(home_id: string): Project[] {
+  return listRooms.all(home_id);
+}
+
+/**
+ * Describes a home's existing rooms for the AI, so a new room is analysed and
+ * rendered to match them. `images` are stored file URLs of the newest redesigns.
+ */
+export function homeContextFor(home: Home): HomeContext {
+  const rooms = getHomeRooms(home.id);
+  return {
+    name: home.name,
+    rooms: rooms.map((room) => ({
+      roomType: room.room_type,
+      improvements: parseAnalysis(room)?.potentialImprovements ?? [],
+    })),
+    images: rooms.slice(-CONTEXT_IMAGES).map((room) => room.redesigned_image),
+  };
+}
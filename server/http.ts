@@ -0,0 +1,18 @@
+/** Escapes text for use in HTML content and quoted attribute values. */
+export const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+/**
+ * The 1-based page and page size asked for in a list request's query string,
+ * clamped to `maxSize`. Providers with their own naming can pass `sizeParam`.
+ */
+export function pageParams(
+  query: Record<string, unknown>,
+  defaultSize: number,
+  maxSize: number,
+  sizeParam = "page_size"
+): { page: number; pageSize: number } {
+  const pageSize = Math.min(Math.max(Math.floor(Number(query[sizeParam])) || defaultSize, 1), maxSize);
+  const page = Math.max(Math.floor(Number(query.page)) || 1, 1);
+  return { page, pageSize };
+}
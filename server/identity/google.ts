@@ -0,0 +1,62 @@
+import type { Identity, IdentityProvider } from "./types";
+
+const AUTHORIZE_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+const TOKEN_URL = "https://oauth2.googleapis.com/token";
+const USERINFO_URL = "https://openidconnect.googleapis.com/v1/userinfo";
+
+export function createGoogleIdentityProvider(): IdentityProvider {
+  const clientId = process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId || !clientSecret) {
+    throw new Error("GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set to sign in with Google");
+  }
+
+  return {
+    name: "google",
+
+    getAuthorizationUrl({ redirectUri, state }) {
+      const params = new URLSearchParams({
+        client_id: clientId,
+        redirect_uri: redirectUri,
+        response_type: "code",
+        scope: "openid email profile",
+        prompt: "select_account",
+        state,
+      });
+      return `${AUTHORIZE_URL}?${params}`;
+    },
+
+    async exchangeCode({ code, redirectUri }): Promise<Identity> {
+      const tokenRes = await fetch(TOKEN_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+          code,
+          client_id: clientId,
+          client_secret: clientSecret,
+          redirect_uri: redirectUri,
+          grant_type: "authorization_code",
+        }),
+      });
+      if (!tokenRes.ok) {
+        throw new Error(`Google token exchange failed (${tokenRes.status})`);
+      }
+      const { access_token } = await tokenRes.json();
+
+      const profileRes = await fetch(USERINFO_URL, {
+        headers: { Authorization: `Bearer ${access_token}` },
+      });
+      if (!profileRes.ok) {
+        throw new Error(`Google userinfo request failed (${profileRes.status})`);
+      }
+      const profile = await profileRes.json();
+      return {
+        subject: profile.sub,
+        email: profile.email,
+        // Google accounts can be created with an address their owner never confirmed.
+        emailVerified: profile.email_verified === true,
+        name: profile.name || profile.email,
+      };
+    },
+  };
+}
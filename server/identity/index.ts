@@ -0,0 +1,30 @@
+import { createGoogleIdentityProvider } from "./google";
+import { createStubIdentityProvider } from "./stub";
+import type { IdentityProvider } from "./types";
+
+export type { Identity, IdentityProvider } from "./types";
+
+let provider: IdentityProvider | undefined;
+
+/**
+ * Returns the provider named by `AUTH_PROVIDER` ("google" or "stub").
+ */
+export function getIdentityProvider(): IdentityProvider {
+  if (!provider) {
+    const name = process.env.AUTH_PROVIDER || "google";
+    switch (name) {
+      case "google":
+        provider = createGoogleIdentityProvider();
+        break;
+      case "stub":
+        if (process.env.NODE_ENV === "production") {
+          throw new Error("The stub auth provider cannot be used in production");
+        }
+        provider = createStubIdentityProvider();
+        break;
+      default:
+        throw new Error(`Unknown auth provider "${name}". Expected "google" or "stub"`);
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,55 @@
+import { Router } from "express";
+import { escapeHtml } from "../http";
+import type { Identity, IdentityProvider } from "./types";
+
+export const STUB_AUTHORIZE_PATH = "/api/auth/stub/authorize";
+
+const encodeCode = (identity: Identity) => Buffer.from(JSON.stringify(identity)).toString("base64url");
+
+/**
+ * Offline stand-in for Google. The "authorization code" is just the chosen
+ * identity encoded in base64url, so it must never be enabled in production.
+ */
+export function createStubIdentityProvider(): IdentityProvider {
+  return {
+    name: "stub",
+
+    getAuthorizationUrl({ redirectUri, state }) {
+      return `${STUB_AUTHORIZE_PATH}?${new URLSearchParams({ redirect_uri: redirectUri, state })}`;
+    },
+
+    async exchangeCode({ code }) {
+      const identity = JSON.parse(Buffer.from(code, "base64url").toString("utf8")) as Identity;
+      if (!identity.subject || !identity.email) {
+        throw new Error("Invalid stub authorization code");
+      }
+      return identity;
+    },
+  };
+}
+
+// Consent screen for the stub provider: pick an email and get sent back with a code.
+export const stubAuthorizeRouter = Router();
+
+stubAuthorizeRouter.get("/", (req, res) => {
+  const redirectUri = String(req.query.redirect_uri ?? "");
+  const state = String(req.query.state ?? "");
+  const email = typeof req.query.email === "string" ? req.query.email : undefined;
+
+  if (email) {
+    const code = encodeCode({ subject: email.toLowerCase(), email, emailVerified: true, name: email.split("@")[0] });
+    res.redirect(`${redirectUri}?${new URLSearchParams({ code, state })}`);
+    return;
+  }
+
+  res.type("html").send(`<!doctype html>
+<html><body style="font-family: sans-serif; padding: 40px">
+  <h1>Stub sign-in</h1>
+  <form method="get">
+    <input type="hidden" name="redirect_uri" value="${escapeHtml(redirectUri)}" />
+    <input type="hidden" name="state" value="${escapeHtml(state)}" />
+    <input type="email" name="email" value="demo@example.com" required />
+    <button type="submit">Continue</button>
+  </form>
+</body></html>`);
+});
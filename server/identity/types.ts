@@ -0,0 +1,17 @@
+export interface Identity {
+  /** Stable id for the user at this provider. */
+  subject: string;
+  email: string;
+  /** Whether the provider has confirmed the user owns `email`. */
+  emailVerified: boolean;
+  name: string;
+}
+
+/**
+ * An OAuth 2.0 authorization-code identity provider.
+ */
+export interface IdentityProvider {
+  readonly name: string;
+  getAuthorizationUrl(params: { redirectUri: string; state: string }): string;
+  exchangeCode(params: { code: string; redirectUri: string }): Promise<Identity>;
+}
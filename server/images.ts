@@ -0,0 +1,166 @@
+import crypto from "crypto";
+import sharp from "sharp";
+import type { StoredImage } from "../types";
+import { db } from "./db";
+import { storage } from "./storage";
+
+export const FILES_PREFIX = "/files/";
+const THUMBNAIL_SIZE = 480;
+
+const FORMATS: Record<string, { ext: string; contentType: string }> = {
+  jpeg: { ext: "jpg", contentType: "image/jpeg" },
+  png: { ext: "png", contentType: "image/png" },
+  webp: { ext: "webp", contentType: "image/webp" },
+  gif: { ext: "gif", contentType: "image/gif" },
+  svg: { ext: "svg", contentType: "image/svg+xml" },
+};
+
+const KEY_PATTERN = /^(thumbs\/)?[a-f0-9]{64}\.(jpg|png|webp|gif|svg)$/;
+
+export class UnsupportedImageError extends Error {
+  constructor() {
+    super("Unsupported image. Please upload a JPG, PNG or WebP photo.");
+    this.name = "UnsupportedImageError";
+  }
+}
+
+const thumbnailKey = (key: string) => `thumbs/${key.replace(/\.[a-z]+$/, ".webp")}`;
+
+export function isStorageKey(key: string) {
+  return KEY_PATTERN.test(key);
+}
+
+export function keyFromUrl(url: string): string | null {
+  if (!url.startsWith(FILES_PREFIX)) return null;
+  const key = url.slice(FILES_PREFIX.length);
+  return isStorageKey(key) ? key : null;
+}
+
+export async function isStoredImageUrl(url: string): Promise<boolean> {
+  const key = keyFromUrl(url);
+  return key !== null && await storage.exists(key);
+}
+
+const insertFileOwner = db.prepare("INSERT OR IGNORE INTO file_owners (key, user_id) VALUES (?, ?)");
+const findFileOwner = db.prepare<[string, string], { key: string }>("SELECT key FROM file_owners WHERE key = ? AND user_id = ?");
+
+/** Lets the user read the stored images at these URLs, and their thumbnails. */
+export const grantFileAccess = db.transaction((user_id: string, urls: string[]) => {
+  for (const url of urls) {
+    const key = keyFromUrl(url);
+    if (!key) continue;
+    insertFileOwner.run(key, user_id);
+    if (!key.startsWith("thumbs/")) insertFileOwner.run(thumbnailKey(key), user_id);
+  }
+});
+
+export function ownsFile(user_id: string, key: string): boolean {
+  return findFileOwner.get(key, user_id) !== undefined;
+}
+
+/** Like isStoredImageUrl, but only for images the user stored or was given. */
+export async function isOwnImageUrl(url: string, user_id: string): Promise<boolean> {
+  const key = keyFromUrl(url);
+  return key !== null && ownsFile(user_id, key) && await storage.exists(key);
+}
+
+export function thumbnailUrlFor(url: string): string {
+  const key = keyFromUrl(url);
+  return key ? FILES_PREFIX + thumbnailKey(key) : url;
+}
+
+export function contentTypeForKey(key: string): string {
+  const ext = key.slice(key.lastIndexOf(".") + 1);
+  return Object.values(FORMATS).find((f) => f.ext === ext)?.contentType ?? "application/octet-stream";
+}
+
+/**
+ * Stores an image under the SHA-256 of its bytes, so uploading the same photo
+ * twice costs nothing, and renders a WebP thumbnail next to it.
+ */
+export async function storeImage(data: Buffer): Promise<StoredImage> {
+  // Trust the decoded bytes, not the client's declared content type.
+  const metadata = await sharp(data).metadata().catch(() => null);
+  const format = metadata?.format ? FORMATS[metadata.format] : undefined;
+  if (!format) {
+    throw new UnsupportedImageError();
+  }
+
+  const hash = crypto.createHash("sha256").update(data).digest("hex");
+  const key = `${hash}.${format.ext}`;
+  const thumbKey = thumbnailKey(key);
+
+  if (!(await storage.exists(key))) {
+    await storage.put(key, data);
+  }
+  if (!(await storage.exists(thumbKey))) {
+    const thumbnail = await sharp(data)
+      .rotate()
+      .resize({ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 75 })
+      .toBuffer();
+    await storage.put(thumbKey, thumbnail);
+  }
+
+  return { url: FILES_PREFIX + key, thumbnail_url: FILES_PREFIX + thumbKey };
+}
+
+export async function storeDataUrl(dataUrl: string): Promise<StoredImage> {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  return storeImage(Buffer.from(base64, "base64"));
+}
+
+/** Reads a stored image (by its `/files/` URL) as a data URL for the AI providers. */
+export async function readStoredImageAsDataUrl(url: string): Promise<string> {
+  const key = keyFromUrl(url);
+  const data = key ? await storage.get(key) : null;
+  if (!key || !data) {
+    throw new Error(`Image ${url} is not in storage`);
+  }
+  return `data:${contentTypeForKey(key)};base64,${data.toString("base64")}`;
+}
+
+const migrateImage = (image: string): Promise<StoredImage> | StoredImage =>
+  image.startsWith("data:") ? storeDataUrl(image) : { url: image, thumbnail_url: thumbnailUrlFor(image) };
+
+/** Moves images saved inline as data URLs (before file storage existed) into storage. */
+export async function migrateInlineImages() {
+  const rows = db.prepare<[], { id: string; user_id: string; original_image: string; redesigned_image: string }>(`
+    SELECT id, user_id, original_image, redesigned_image FROM projects
+    WHERE original_image LIKE 'data:%' OR redesigned_image LIKE 'data:%'
+  `).all();
+  if (rows.length === 0) return;
+
+  const update = db.prepare(`
+    UPDATE projects SET original_image = ?, original_thumbnail = ?, redesigned_image = ?, redesigned_thumbnail = ?
+    WHERE id = ?
+  `);
+  for (const row of rows) {
+    try {
+      const original = await migrateImage(row.original_image);
+      const redesigned = await migrateImage(row.redesigned_image);
+      update.run(original.url, original.thumbnail_url, redesigned.url, redesigned.thumbnail_url, row.id);
+      grantFileAccess(row.user_id, [original.url, redesigned.url]);
+    } catch (e) {
+      console.error(`Could not migrate images for project ${row.id}`, e);
+    }
+  }
+  console.log(`Moved images for ${rows.length} project(s) into file storage`);
+}
+
+/**
+ * Gives users access to the files their projects, versions, styles and jobs
+ * already use. Runs once, when file access is first tracked.
+ */
+export function grantExistingFileAccess() {
+  if (db.prepare("SELECT key FROM file_owners LIMIT 1").get()) return;
+  const rows = db.prepare<[], { user_id: string; url: string }>(`
+    SELECT user_id, original_image AS url FROM projects
+    UNION SELECT user_id, redesigned_image FROM projects
+    UNION SELECT p.user_id, v.image FROM project_versions v JOIN projects p ON p.id = v.project_id
+    UNION SELECT s.owner_id, r.value FROM styles s, json_each(s.reference_images) r
+    UNION SELECT user_id, json_extract(input, '$.image') FROM jobs
+    UNION SELECT j.user_id, r.value FROM jobs j, json_each(j.result, '$.images') r WHERE j.result IS NOT NULL
+  `).all();
+  db.transaction(() => rows.forEach((row) => grantFileAccess(row.user_id, [row.url])))();
+}
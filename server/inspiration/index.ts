@@ -0,0 +1,29 @@
+import { createLocalInspirationProvider } from "./local";
+import { createUnsplashInspirationProvider } from "./unsplash";
+import type { InspirationProvider } from "./types";
+
+export type { InspirationProvider, InspirationSearch } from "./types";
+
+let provider: InspirationProvider | undefined;
+
+/**
+ * Returns the provider named by `INSPIRATION_PROVIDER` ("unsplash" or
+ * "local"). Defaults to Unsplash when `UNSPLASH_ACCESS_KEY` is set and to the
+ * offline sample library otherwise.
+ */
+export function getInspirationProvider(): InspirationProvider {
+  if (!provider) {
+    const name = process.env.INSPIRATION_PROVIDER || (process.env.UNSPLASH_ACCESS_KEY ? "unsplash" : "local");
+    switch (name) {
+      case "unsplash":
+        provider = createUnsplashInspirationProvider();
+        break;
+      case "local":
+        provider = createLocalInspirationProvider();
+        break;
+      default:
+        throw new Error(`Unknown inspiration provider "${name}". Expected "unsplash" or "local"`);
+    }
+  }
+  return provider;
+}
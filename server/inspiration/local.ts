@@ -0,0 +1,89 @@
+import sharp from "sharp";
+import type { InspirationImage } from "../../types";
+import { svgToDataUrl } from "../../services/imageData";
+import type { InspirationProvider } from "./types";
+
+interface Fixture {
+  id: string;
+  description: string;
+  tags: string[];
+  /** Wall, floor and furniture colours for the drawing. */
+  palette: [string, string, string];
+}
+
+const FIXTURES: Fixture[] = [
+  { id: "fx-scandi-living", description: "Bright Scandinavian living room with oak floors", tags: ["living room", "scandinavian", "minimal", "light"], palette: ["#f5f5f4", "#d6b98c", "#9ca3af"] },
+  { id: "fx-boho-living", description: "Bohemian living room with layered rugs and plants", tags: ["living room", "bohemian", "boho", "plants", "warm"], palette: ["#fde8d7", "#b45309", "#65a30d"] },
+  { id: "fx-indian-living", description: "Traditional Indian living room with carved teak and brass", tags: ["living room", "indian", "traditional", "teak", "warm"], palette: ["#fef3c7", "#78350f", "#b91c1c"] },
+  { id: "fx-modern-bedroom", description: "Modern bedroom with a low platform bed", tags: ["bedroom", "modern", "minimal", "grey"], palette: ["#e5e7eb", "#6b7280", "#1f2937"] },
+  { id: "fx-coastal-bedroom", description: "Coastal bedroom in white and sea blue", tags: ["bedroom", "coastal", "blue", "light"], palette: ["#f0f9ff", "#e7d9c4", "#0369a1"] },
+  { id: "fx-kids-bedroom", description: "Playful kids' bedroom with a reading corner", tags: ["bedroom", "kids", "colourful", "colorful"], palette: ["#fef9c3", "#fca5a5", "#38bdf8"] },
+  { id: "fx-industrial-kitchen", description: "Industrial kitchen with concrete and black steel", tags: ["kitchen", "industrial", "dark", "concrete"], palette: ["#d4d4d4", "#525252", "#171717"] },
+  { id: "fx-modular-kitchen", description: "Compact modular kitchen with glossy cabinets", tags: ["kitchen", "modular", "modern", "compact"], palette: ["#fafafa", "#a3a3a3", "#dc2626"] },
+  { id: "fx-japandi-dining", description: "Japandi dining room with a round ash table", tags: ["dining room", "japandi", "japanese", "minimal"], palette: ["#f5f0e6", "#a8a29e", "#57534e"] },
+  { id: "fx-art-deco-dining", description: "Art deco dining room in emerald and gold", tags: ["dining room", "art deco", "luxury", "green"], palette: ["#064e3b", "#d4af37", "#1c1917"] },
+  { id: "fx-home-office", description: "Calm home office with built-in shelves", tags: ["home office", "study", "shelves", "modern"], palette: ["#ecfdf5", "#c4a484", "#065f46"] },
+  { id: "fx-balcony-garden", description: "Balcony garden with cane seating", tags: ["balcony", "garden", "plants", "outdoor"], palette: ["#ecfccb", "#a16207", "#15803d"] },
+];
+
+// A simple room drawing: wall, floor, window and a piece of furniture in the fixture's colours.
+const drawing = ({ description, palette: [wall, floor, accent] }: Fixture) =>
+  [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="1080" height="720" viewBox="0 0 1080 720">`,
+    `<rect width="1080" height="720" fill="${wall}"/>`,
+    `<polygon points="0,520 1080,520 1080,720 0,720" fill="${floor}"/>`,
+    `<rect x="140" y="120" width="240" height="260" fill="#ffffff" fill-opacity="0.7" stroke="${accent}" stroke-width="8"/>`,
+    `<rect x="520" y="380" width="420" height="140" rx="24" fill="${accent}"/>`,
+    `<rect x="540" y="320" width="380" height="80" rx="24" fill="${accent}" fill-opacity="0.8"/>`,
+    `<text x="40" y="680" font-family="sans-serif" font-size="28" fill="#000000" fill-opacity="0.55">`,
+    `${description.replace(/[<>&"]/g, (c) => `&#${c.charCodeAt(0)};`)}</text>`,
+    `</svg>`,
+  ].join("");
+
+const toImage = (fixture: Fixture): InspirationImage => {
+  const url = svgToDataUrl(drawing(fixture));
+  return {
+    id: fixture.id,
+    provider: "local",
+    description: fixture.description,
+    image_url: url,
+    thumbnail_url: url,
+    author: "GruhaBuddy sample library",
+    author_url: null,
+    source_url: null,
+  };
+};
+
+const matches = (fixture: Fixture, query: string) => {
+  const text = [fixture.description, ...fixture.tags].join(" ").toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+};
+
+/**
+ * Offline provider over a fixed set of drawn sample rooms, for development
+ * and tests without an Unsplash key.
+ */
+export function createLocalInspirationProvider(): InspirationProvider {
+  const find = (id: string) => FIXTURES.find((f) => f.id === id);
+
+  return {
+    name: "local",
+
+    async search({ query, page, per_page }) {
+      const found = FIXTURES.filter((f) => matches(f, query));
+      const start = (page - 1) * per_page;
+      return { images: found.slice(start, start + per_page).map(toImage), total: found.length };
+    },
+
+    async get(id) {
+      const fixture = find(id);
+      return fixture ? toImage(fixture) : null;
+    },
+
+    async download(id) {
+      const fixture = find(id);
+      // Rendered to PNG, since image models take photos rather than SVG.
+      return fixture ? sharp(Buffer.from(drawing(fixture))).png().toBuffer() : null;
+    },
+  };
+}
@@ -0,0 +1,17 @@
+import type { InspirationImage } from "../../types";
+
+export interface InspirationSearch {
+  query: string;
+  page: number;
+  per_page: number;
+}
+
+/** A searchable library of interior photos. */
+export interface InspirationProvider {
+  readonly name: string;
+  search(params: InspirationSearch): Promise<{ images: InspirationImage[]; total: number }>;
+  /** Looks an image up again by id; null if the provider no longer has it. */
+  get(id: string): Promise<InspirationImage | null>;
+  /** The image's bytes, for use as a style reference. */
+  download(id: string): Promise<Buffer | null>;
+}
@@ -0,0 +1,81 @@
+import type { InspirationImage } from "../../types";
+import type { InspirationProvider } from "./types";
+
+const API_URL = "https://api.unsplash.com";
+// Unsplash asks for links back to the photo and photographer to carry these.
+const REFERRAL = "utm_source=gruhabuddy&utm_medium=referral";
+
+interface UnsplashPhoto {
+  id: string;
+  description: string | null;
+  alt_description: string | null;
+  urls: { regular: string; small: string };
+  links: { html: string; download_location: string };
+  user: { name: string; links: { html: string } };
+}
+
+const withReferral = (url: string) => `${url}${url.includes("?") ? "&" : "?"}${REFERRAL}`;
+
+const toImage = (photo: UnsplashPhoto): InspirationImage => ({
+  id: photo.id,
+  provider: "unsplash",
+  description: photo.alt_description || photo.description || "Interior photo",
+  image_url: photo.urls.regular,
+  thumbnail_url: photo.urls.small,
+  author: photo.user.name,
+  author_url: withReferral(photo.user.links.html),
+  source_url: withReferral(photo.links.html),
+});
+
+export function createUnsplashInspirationProvider(): InspirationProvider {
+  const accessKey = process.env.UNSPLASH_ACCESS_KEY;
+  if (!accessKey) {
+    throw new Error("UNSPLASH_ACCESS_KEY must be set to search Unsplash");
+  }
+
+  const api = async <T>(path: string): Promise<T | null> => {
+    const res = await fetch(`${API_URL}${path}`, {
+      headers: { Authorization: `Client-ID ${accessKey}`, "Accept-Version": "v1" },
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new Error(`Unsplash request failed (${res.status})`);
+    }
+    return res.json();
+  };
+
+  const getPhoto = (id: string) => api<UnsplashPhoto>(`/photos/${encodeURIComponent(id)}`);
+
+  return {
+    name: "unsplash",
+
+    async search({ query, page, per_page }) {
+      const params = new URLSearchParams({
+        query: `${query} interior design`,
+        page: String(page),
+        per_page: String(per_page),
+        orientation: "landscape",
+      });
+      const body = await api<{ total: number; results: UnsplashPhoto[] }>(`/search/photos?${params}`);
+      return { images: (body?.results ?? []).map(toImage), total: body?.total ?? 0 };
+    },
+
+    async get(id) {
+      const photo = await getPhoto(id);
+      return photo && toImage(photo);
+    },
+
+    async download(id) {
+      const photo = await getPhoto(id);
+      if (!photo) return null;
+      // Using a photo counts as a download, which Unsplash requires us to report.
+      const tracking = new URL(photo.links.download_location);
+      await api(tracking.pathname + tracking.search);
+      const res = await fetch(photo.urls.regular);
+      if (!res.ok) {
+        throw new Error(`Unsplash image download failed (${res.status})`);
+      }
+      return Buffer.from(await res.arrayBuffer());
+    },
+  };
+}
@@ -0,0 +1,514 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import type { GenerationJob, GenerationJobKind, GenerationJobResult, GenerationJobStage, LayoutCheck } from "../types";
+import {
+  AIServiceError,
+  inpaintRoom,
+  planRedesign,
+  redesignRoom,
+  redesignRoomKeepingLayout,
+  redesignRoomVariations,
+  refineRoom,
+  surveyRoom,
+  type HomeContext,
+  type RoomAnalysis,
+  type StyleSpec,
+} from "../services/geminiService";
+import type { Language } from "../services/i18n/languages";
+import { getBalance, refundCredits, spendCredits } from "./credits";
+import { db } from "./db";
+import { cacheKey, cached } from "./generationCache";
+import { getHome, homeContextFor } from "./homes";
+import { grantFileAccess, readStoredImageAsDataUrl, storeDataUrl, thumbnailUrlFor } from "./images";
+import { createLayoutGuard } from "./layout";
+import { insertProject, type ProjectRow } from "./projects";
+import { addVersion, previousInstructions, type Refinement } from "./projectVersions";
+
+/** What the client asked for; images are stored file URLs. */
+export interface JobInput {
+  image: string;
+  style: string;
+  styleSpec: StyleSpec;
+  /** 1 renders and saves a single design; more renders variations to pick from. */
+  variations: number;
+  /** Inpaint only: the image being edited (the latest result) and the region mask. */
+  base?: string;
+  mask?: string;
+  /** Inpaint and refine: what to change. */
+  instruction?: string;
+  /** Refine only: the project whose current version is refined; `image` is that version. */
+  project_id?: string;
+  analysis?: RoomAnalysis;
+  /** Designs the room as part of this home, in its style and palette. */
+  home_id?: string;
+  /** Redesign only: conditions on the original's line map and re-renders results whose structure moved. */
+  preserveLayout?: boolean;
+  /** Redesign only: skips cached analyses and renders, and replaces them with fresh ones. */
+  force?: boolean;
+  /** Language of the analysis text; English when unset. */
+  language?: Language;
+}
+
+interface JobRow {
+  id: string;
+  user_id: string;
+  kind: GenerationJobKind;
+  status: GenerationJob["status"];
+  stage: GenerationJobStage;
+  input: string;
+  result: string | null;
+  error: string | null;
+  reserved_credits: number;
+  created_at: string;
+}
+
+export class JobCanceledError extends Error {
+  constructor() {
+    super("The job was canceled");
+    this.name = "JobCanceledError";
+  }
+}
+
+const MAX_CONCURRENT_JOBS = 2;
+
+const JOB_COLUMNS = "id, user_id, kind, status, stage, input, result, error, reserved_credits, created_at";
+
+const findJob = db.prepare<[string], JobRow>(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`);
+
+// Refinements belong to a project's page, not the design view.
+const findCurrentJob = db.prepare<[string], JobRow>(`
+  SELECT ${JOB_COLUMNS} FROM jobs WHERE user_id = ? AND dismissed = 0 AND kind != 'refine'
+  ORDER BY created_at DESC, rowid DESC LIMIT 1
+`);
+
+const insertJob = db.prepare(`
+  INSERT INTO jobs (id, user_id, kind, input, reserved_credits)
+  VALUES (@id, @user_id, @kind, @input, @reserved_credits)
+`);
+
+const updateStage = db.prepare(`
+  UPDATE jobs SET status = 'running', stage = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ? AND status IN ('queued', 'running')
+`);
+
+const finishJob = db.prepare(`
+  UPDATE jobs SET status = @status, stage = @stage, result = @result, error = @error, updated_at = CURRENT_TIMESTAMP
+  WHERE id = @id AND status IN ('queued', 'running')
+`);
+
+const recordLatency = db.prepare(`
+  UPDATE jobs SET analysis_ms = COALESCE(@analysis_ms, analysis_ms), generation_ms = COALESCE(@generation_ms, generation_ms)
+  WHERE id = @id
+`);
+
+const dismissJobStatement = db.prepare("UPDATE jobs SET dismissed = 1 WHERE id = ? AND user_id = ?");
+
+const dismissFinishedJobs = db.prepare(
+  "UPDATE jobs SET dismissed = 1 WHERE user_id = ? AND status NOT IN ('queued', 'running')"
+);
+
+const findReservedCredits = db.prepare<[string], { reserved_credits: number }>(
+  "SELECT reserved_credits FROM jobs WHERE id = ?"
+);
+
+const findHeldVariationCredits = db.prepare<[string, string], { reserved_credits: number }>(
+  "SELECT reserved_credits FROM jobs WHERE id = ? AND user_id = ? AND status = 'succeeded'"
+);
+
+const findUnsavedVariationJobs = db.prepare<[string], { id: string }>(
+  "SELECT id FROM jobs WHERE user_id = ? AND dismissed = 0 AND status = 'succeeded' AND reserved_credits > 0"
+);
+
+const clearReservedCredits = db.prepare("UPDATE jobs SET reserved_credits = 0 WHERE id = ?");
+
+/** Emits the job's public shape under its id whenever it changes. */
+export const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const queue: string[] = [];
+const running = new Map<string, AbortController>();
+
+const parseJson = <T>(value: string | null): T | null => (value ? JSON.parse(value) : null);
+
+const toJob = (row: JobRow): GenerationJob => {
+  const input = JSON.parse(row.input) as JobInput;
+  return {
+    id: row.id,
+    kind: row.kind,
+    status: row.status,
+    stage: row.stage,
+    image: input.image,
+    style: input.style,
+    variations: input.variations,
+    home_id: input.home_id ?? null,
+    preserve_layout: input.preserveLayout ?? false,
+    result: parseJson(row.result),
+    error: parseJson(row.error),
+    created_at: row.created_at,
+  };
+};
+
+const publish = (id: string) => {
+  const row = findJob.get(id);
+  if (row) jobEvents.emit(id, toJob(row));
+};
+
+export function getJob(id: string, user_id: string): GenerationJob | null {
+  const row = findJob.get(id);
+  return row && row.user_id === user_id ? toJob(row) : null;
+}
+
+/** The newest job the user has not dismissed, so a reloaded page can pick it back up. */
+export function getCurrentJob(user_id: string): GenerationJob | null {
+  const row = findCurrentJob.get(user_id);
+  return row ? toJob(row) : null;
+}
+
+// Takes back what a job still holds, so its credits are settled exactly once.
+const takeReservedCredits = (id: string): number => {
+  const reserved = findReservedCredits.get(id)?.reserved_credits ?? 0;
+  if (reserved > 0) clearReservedCredits.run(id);
+  return reserved;
+};
+
+/** Credits a finished variation run still holds for the user; 0 once they were saved or dismissed. */
+export function heldVariationCredits(id: string, user_id: string): number {
+  return findHeldVariationCredits.get(id, user_id)?.reserved_credits ?? 0;
+}
+
+/**
+ * Ends a variation run's hold: `used` credits pay for the variations the user
+ * saved and the rest are refunded. Call inside the saving transaction.
+ */
+export const releaseVariationCredits = db.transaction((id: string, user_id: string, used: number) => {
+  if (heldVariationCredits(id, user_id) === 0) return;
+  const unused = takeReservedCredits(id) - used;
+  if (unused > 0) {
+    refundCredits(user_id, unused, { description: "Refund: unsaved variations", job_id: id });
+  }
+});
+
+export const dismissJob = db.transaction((id: string, user_id: string) => {
+  releaseVariationCredits(id, user_id, 0);
+  dismissJobStatement.run(id, user_id);
+});
+
+const JOB_DESCRIPTIONS: Record<GenerationJobKind, string> = {
+  redesign: "Room redesign",
+  inpaint: "Region edit",
+  refine: "Refinement",
+};
+
+// Every render is paid for up front, so a reload or crash can't lose the
+// credit and nobody can render without one. Variations hold a credit each
+// until the user saves the ones they like; the rest are refunded then.
+const createJobTransaction = db.transaction((user_id: string, kind: GenerationJobKind, input: JobInput) => {
+  // Starting a redesign or edit supersedes whatever the design view was showing.
+  if (kind !== "refine") {
+    for (const { id } of findUnsavedVariationJobs.all(user_id)) {
+      releaseVariationCredits(id, user_id, 0);
+    }
+  }
+  const reserved_credits = kind === "redesign" ? input.variations : 1;
+  if (getBalance(user_id) < reserved_credits) {
+    return null;
+  }
+  const id = "job_" + crypto.randomUUID();
+  if (kind !== "refine") dismissFinishedJobs.run(user_id);
+  insertJob.run({ id, user_id, kind, input: JSON.stringify(input), reserved_credits });
+  const description = reserved_credits > 1 ? `${JOB_DESCRIPTIONS[kind]}, ${reserved_credits} variations` : JOB_DESCRIPTIONS[kind];
+  spendCredits(user_id, reserved_credits, { description, job_id: id, project_id: input.project_id });
+  return id;
+});
+
+/** Queues a job; returns null if the user cannot afford it. */
+export function createJob(user_id: string, kind: GenerationJobKind, input: JobInput): GenerationJob | null {
+  const id = createJobTransaction(user_id, kind, input);
+  if (!id) return null;
+  queue.push(id);
+  setImmediate(drain);
+  return toJob(findJob.get(id)!);
+}
+
+/** Cancels a queued or running job and refunds what it reserved. Returns false if it had already finished. */
+export function cancelJob(id: string, user_id: string): boolean {
+  const row = findJob.get(id);
+  if (!row || row.user_id !== user_id || (row.status !== "queued" && row.status !== "running")) {
+    return false;
+  }
+  const index = queue.indexOf(id);
+  if (index !== -1) queue.splice(index, 1);
+  running.get(id)?.abort();
+  settle(row, { status: "canceled", result: null, error: null });
+  return true;
+}
+
+interface JobOutcome {
+  status: "succeeded" | "failed" | "canceled";
+  result: GenerationJobResult | null;
+  error: GenerationJob["error"];
+  /** Saved together with the status change, so a cancel can't race the save. */
+  project?: ProjectRow;
+  refinement?: Refinement;
+}
+
+// A saved design or refinement keeps its credit and fresh variations keep
+// theirs until the user picks (see releaseVariationCredits). Failed and
+// canceled runs are refunded, and so are results reused from the cache, which
+// cost no model calls.
+const settleCredits = (row: JobRow, outcome: JobOutcome) => {
+  if (outcome.status === "succeeded" && !outcome.result?.cached) {
+    if (outcome.project || outcome.refinement) takeReservedCredits(row.id);
+    return;
+  }
+  const reserved = takeReservedCredits(row.id);
+  if (reserved === 0) return;
+  const reason = outcome.status === "succeeded" ? "reused an earlier result" : outcome.status;
+  refundCredits(row.user_id, reserved, {
+    description: `Refund: ${JOB_DESCRIPTIONS[row.kind].toLowerCase()} ${reason}`,
+    job_id: row.id,
+  });
+};
+
+const settle = (row: JobRow, outcome: JobOutcome) => {
+  const finished = db.transaction(() => {
+    const changed = finishJob.run({
+      id: row.id,
+      status: outcome.status,
+      stage: "done",
+      result: outcome.result && JSON.stringify(outcome.result),
+      error: outcome.error && JSON.stringify(outcome.error),
+    }).changes > 0;
+    if (changed && outcome.project) {
+      insertProject.run(outcome.project);
+    }
+    // Rolls the status change back too; the job then fails and is refunded.
+    if (changed && outcome.refinement && addVersion(outcome.refinement) === null) {
+      throw new Error("The project was deleted");
+    }
+    if (changed) settleCredits(row, outcome);
+    return changed;
+  })();
+  if (finished) publish(row.id);
+};
+
+const describeFailure = (e: unknown): NonNullable<GenerationJob["error"]> =>
+  e instanceof AIServiceError
+    ? { kind: e.kind, message: e.message }
+    : { kind: "unknown", message: "The redesign could not be completed." };
+
+const drain = () => {
+  while (running.size < MAX_CONCURRENT_JOBS && queue.length > 0) {
+    const id = queue.shift()!;
+    const row = findJob.get(id);
+    if (!row || row.status !== "queued") continue;
+
+    const controller = new AbortController();
+    running.set(id, controller);
+    runJob(row, controller.signal)
+      .then(({ result, project, refinement }) => settle(row, { status: "succeeded", result, error: null, project, refinement }))
+      .catch((e) => {
+        if (e instanceof JobCanceledError) return;
+        console.error(`Job ${id} failed`, e);
+        settle(row, { status: "failed", result: null, error: describeFailure(e) });
+      })
+      .finally(() => {
+        running.delete(id);
+        drain();
+      });
+  }
+};
+
+interface RenderedImages {
+  /** Stored file URLs. */
+  images: string[];
+  layout?: LayoutCheck[];
+  /** Came from the generation cache rather than the model. */
+  cached?: boolean;
+}
+
+// Renders and stores a redesign; what it returns is what the generation cache keeps.
+const renderRedesign = async (
+  input: JobInput,
+  image: string,
+  style: StyleSpec,
+  analysis: RoomAnalysis,
+  home?: HomeContext
+): Promise<RenderedImages> => {
+  let generated: string[];
+  let layout: LayoutCheck[] | undefined;
+  if (input.preserveLayout) {
+    const checked = await redesignRoomKeepingLayout(image, style, analysis, input.variations, await createLayoutGuard(image), home);
+    generated = checked.map((c) => c.image);
+    layout = checked.map((c) => ({ score: Math.round(c.layoutScore * 100) / 100, drifted: c.drifted }));
+  } else if (input.variations > 1) {
+    generated = await redesignRoomVariations(image, style, analysis, input.variations, home);
+  } else {
+    generated = [await redesignRoom(image, style, analysis, home)];
+  }
+  const stored = await Promise.all(generated.map(storeDataUrl));
+  return { images: stored.map((s) => s.url), ...(layout && { layout }) };
+};
+
+interface JobProduct {
+  result: GenerationJobResult;
+  project?: ProjectRow;
+  refinement?: Refinement;
+}
+
+const runJob = async (row: JobRow, signal: AbortSignal): Promise<JobProduct> => {
+  const input = JSON.parse(row.input) as JobInput;
+
+  // Providers don't take an abort signal, so a canceled job stops at the next stage boundary.
+  const stage = <T>(name: GenerationJobStage, work: () => Promise<T>): Promise<T> => {
+    if (signal.aborted) throw new JobCanceledError();
+    updateStage.run(name, row.id);
+    publish(row.id);
+    return work().then((value) => {
+      if (signal.aborted) throw new JobCanceledError();
+      return value;
+    });
+  };
+
+  const image = await readStoredImageAsDataUrl(input.image);
+  // A room in a home takes the home's palette and is shown the rooms designed so far.
+  const home = input.home_id ? getHome(input.home_id, row.user_id) : null;
+  const style: StyleSpec = {
+    ...input.styleSpec,
+    palette: home?.palette.length ? home.palette : input.styleSpec.palette,
+    referenceImages: await Promise.all((input.styleSpec.referenceImages ?? []).map(readStoredImageAsDataUrl)),
+  };
+  const context = home ? homeContextFor(home) : undefined;
+  const homeContext: HomeContext | undefined = context && {
+    ...context,
+    images: await Promise.all(context.images.map(readStoredImageAsDataUrl)),
+  };
+
+  if (row.kind === "refine") {
+    return runRefinement(row, input, image, style, stage);
+  }
+
+  // Cache keys use the stored URLs, which name each image by a hash of its bytes.
+  // The survey of the photo is keyed without the style, so trying another style
+  // on the same photo reuses it; only the plan for the new style is made afresh.
+  const styleKey = { ...input.styleSpec, palette: style.palette };
+  let analysis = input.analysis;
+  if (!analysis) {
+    const language = input.language ?? "en";
+    const started = Date.now();
+    const planned = await stage("analyzing", async () => {
+      const survey = await cached(
+        "analysis",
+        cacheKey("analysis", { image: input.image, language }),
+        () => surveyRoom(image, input.language),
+        { force: input.force }
+      );
+      const plan = await cached(
+        "analysis",
+        cacheKey("analysis", { image: input.image, survey: survey.value, style: styleKey, home: context, language }),
+        () => planRedesign(image, style, survey.value, homeContext, input.language),
+        { force: input.force }
+      );
+      return { value: { ...survey.value, ...plan.value }, hit: survey.hit && plan.hit };
+    });
+    // Latency is kept for the admin console; a cache hit says nothing about the model.
+    if (!planned.hit) recordLatency.run({ id: row.id, analysis_ms: Date.now() - started, generation_ms: null });
+    analysis = planned.value;
+  }
+
+  let rendered: RenderedImages;
+  const started = Date.now();
+  if (row.kind === "inpaint") {
+    const base = await readStoredImageAsDataUrl(input.base ?? input.image);
+    const mask = await readStoredImageAsDataUrl(input.mask!);
+    const edited = await stage("generating", () => inpaintRoom(base, mask, input.instruction!, style));
+    rendered = { images: [(await storeDataUrl(edited)).url] };
+  } else {
+    const key = cacheKey("redesign", {
+      image: input.image,
+      style: styleKey,
+      analysis,
+      variations: input.variations,
+      preserveLayout: input.preserveLayout ?? false,
+      home: context,
+    });
+    const redesigned = await stage("generating", () =>
+      cached("redesign", key, () => renderRedesign(input, image, style, analysis, homeContext), { force: input.force })
+    );
+    rendered = { ...redesigned.value, cached: redesigned.hit };
+  }
+  if (!rendered.cached) recordLatency.run({ id: row.id, analysis_ms: null, generation_ms: Date.now() - started });
+  const { images, layout, cached: fromCache } = rendered;
+  // Cached designs may have been rendered for someone else's copy of the photo.
+  grantFileAccess(row.user_id, images);
+
+  return stage("saving", async () => {
+    const result = { analysis, images, layout, ...(fromCache && { cached: true }) };
+    // Variations are saved once the user has picked the ones to keep.
+    if (row.kind === "redesign" && input.variations > 1) {
+      return { result: { ...result, project_id: null } };
+    }
+
+    // The credit was taken when the job was created.
+    const project: ProjectRow = {
+      id: "proj_" + crypto.randomUUID(),
+      user_id: row.user_id,
+      original_image: input.image,
+      original_thumbnail: thumbnailUrlFor(input.image),
+      redesigned_image: images[0],
+      redesigned_thumbnail: thumbnailUrlFor(images[0]),
+      style: input.style,
+      room_type: analysis.roomType,
+      analysis: JSON.stringify(analysis),
+      home_id: home?.id ?? null,
+    };
+    return { result: { ...result, project_id: project.id }, project };
+  });
+};
+
+const findRefinedProject = db.prepare<[string, string], { id: string; analysis: string }>(
+  "SELECT id, analysis FROM projects WHERE id = ? AND user_id = ?"
+);
+
+// Refinements aren't cached: each one builds on the chat so far.
+const runRefinement = async (
+  row: JobRow,
+  input: JobInput,
+  image: string,
+  style: StyleSpec,
+  stage: <T>(name: GenerationJobStage, work: () => Promise<T>) => Promise<T>
+): Promise<JobProduct> => {
+  const project = findRefinedProject.get(input.project_id!, row.user_id);
+  if (!project) throw new Error("The project was deleted");
+
+  const started = Date.now();
+  const refined = await stage("generating", () =>
+    refineRoom(image, input.instruction!, style, previousInstructions(project.id))
+  );
+  recordLatency.run({ id: row.id, analysis_ms: null, generation_ms: Date.now() - started });
+
+  return stage("saving", async () => {
+    const stored = await storeDataUrl(refined.image);
+    grantFileAccess(row.user_id, [stored.url]);
+    // The credit was taken when the job was created; the version is written when the job settles.
+    return {
+      result: { analysis: JSON.parse(project.analysis), images: [stored.url], project_id: project.id, reply: refined.reply },
+      refinement: { project_id: project.id, image: stored.url, instruction: input.instruction!, reply: refined.reply },
+    };
+  });
+};
+
+/**
+ * Re-queues jobs that were queued or mid-run when the server last stopped.
+ * Interrupted jobs start over from the beginning.
+ */
+export function resumeJobs() {
+  const ids = db.prepare<[], { id: string }>(`
+    SELECT id FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at, rowid
+  `).all().map((r) => r.id);
+  if (ids.length === 0) return;
+
+  db.prepare("UPDATE jobs SET status = 'queued', stage = 'queued' WHERE status = 'running'").run();
+  queue.push(...ids);
+  drain();
+  console.log(`Resumed ${ids.length} generation job(s)`);
+}
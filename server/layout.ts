@@ -0,0 +1,124 @@
+import sharp from "sharp";
+import type { LayoutGuard } from "../services/geminiService";
+import { parseDataUrl, toDataUrl } from "../services/imageData";
+
+// Structure is judged from edge maps: walls, windows and doors are the long,
+// strong edges of a room photo, and they should land in the same place in a
+// redesign even though furniture and finishes change.
+
+/** Width of the line map sent to the model; its height follows the photo. */
+const GUIDANCE_WIDTH = 768;
+/** Both images are squashed to this size before they are compared. */
+const COMPARE_WIDTH = 160;
+const COMPARE_HEIGHT = 120;
+/** The strongest gradients are kept as edges, so overall contrast and lighting matter less. */
+const EDGE_FRACTION = 0.1;
+/** Flat images have no real edges; gradients below this are ignored. */
+const MIN_GRADIENT = 24;
+/** An edge counts as kept if the other image has one within this many pixels. */
+const TOLERANCE_PX = 2;
+
+/** Renders below this score (0-1) are treated as having moved the room's structure. */
+const MIN_LAYOUT_SCORE = 0.45;
+/** Extra renders tried for a drifted result; the closest attempt is kept. */
+const LAYOUT_RETRIES = 2;
+
+interface EdgeMap {
+  edges: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const edgeMap = async (image: string, width: number, height?: number): Promise<EdgeMap> => {
+  // Blurring first keeps fabric and wood grain from registering as structure.
+  const { data, info } = await sharp(Buffer.from(parseDataUrl(image).data, "base64"))
+    .rotate()
+    .resize({ width, height, fit: "fill" })
+    .greyscale()
+    .blur(1.2)
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width: w, height: h, channels } = info;
+  const at = (x: number, y: number) => data[(y * w + x) * channels];
+
+  // Sobel gradient magnitude.
+  const magnitude = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1) - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      magnitude[y * w + x] = Math.hypot(gx, gy);
+    }
+  }
+
+  const sorted = Float32Array.from(magnitude).sort();
+  const threshold = Math.max(sorted[Math.floor(sorted.length * (1 - EDGE_FRACTION))], MIN_GRADIENT);
+  const edges = new Uint8Array(w * h);
+  for (let i = 0; i < edges.length; i++) {
+    edges[i] = magnitude[i] > threshold ? 1 : 0;
+  }
+  return { edges, width: w, height: h };
+};
+
+const dilate = ({ edges, width, height }: EdgeMap, radius: number): Uint8Array => {
+  const out = new Uint8Array(edges.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!edges[y * width + x]) continue;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) out[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+// Share of `map`'s edges that have a counterpart in `near`.
+const coverage = (map: Uint8Array, near: Uint8Array) => {
+  let total = 0;
+  let matched = 0;
+  for (let i = 0; i < map.length; i++) {
+    if (!map[i]) continue;
+    total++;
+    if (near[i]) matched++;
+  }
+  return total === 0 ? 1 : matched / total;
+};
+
+/** White-on-black line map of a photo's structure, as a PNG data URL. */
+const layoutGuidance = async (image: string): Promise<string> => {
+  const { edges, width, height } = await edgeMap(image, GUIDANCE_WIDTH);
+  const png = await sharp(Buffer.from(edges.map((e) => e * 255)), { raw: { width, height, channels: 1 } })
+    .png()
+    .toBuffer();
+  return toDataUrl("image/png", png.toString("base64"));
+};
+
+/**
+ * How closely `render` keeps the structure of `original`, from 0 to 1: the F1
+ * score of their edges matched within a small tolerance.
+ */
+const layoutScore = async (original: EdgeMap, render: string): Promise<number> => {
+  const result = await edgeMap(render, COMPARE_WIDTH, COMPARE_HEIGHT);
+  const precision = coverage(result.edges, dilate(original, TOLERANCE_PX));
+  const recall = coverage(original.edges, dilate(result, TOLERANCE_PX));
+  return precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall);
+};
+
+/** Everything the redesign needs to keep `image`'s layout: conditioning plus a drift check. */
+export async function createLayoutGuard(image: string): Promise<LayoutGuard> {
+  const [guidance, original] = await Promise.all([
+    layoutGuidance(image),
+    edgeMap(image, COMPARE_WIDTH, COMPARE_HEIGHT),
+  ]);
+  return {
+    guidance,
+    score: (render) => layoutScore(original, render),
+    minScore: MIN_LAYOUT_SCORE,
+    retries: LAYOUT_RETRIES,
+  };
+}
@@ -0,0 +1,119 @@
+import type { FlaggedProject, ModerationPage, Project, ProjectFlag } from "../types";
+import { db } from "./db";
+import { PROJECT_COLUMNS } from "./projects";
+
+/** What a visitor can report a shared design for. */
+export const FLAG_REASONS = [
+  "Nudity or sexual content",
+  "Violent or hateful content",
+  "Someone else's photo or design",
+  "Spam or advertising",
+  "Something else",
+] as const;
+
+export type FlagReason = (typeof FLAG_REASONS)[number];
+
+const insertFlag = db.prepare(
+  "INSERT INTO project_flags (project_id, reason, reporter_id) VALUES (?, ?, ?)"
+);
+
+const findOpenFlagByReporter = db.prepare<[string, string], { id: number }>(
+  "SELECT id FROM project_flags WHERE project_id = ? AND reporter_id = ? AND resolved_at IS NULL"
+);
+
+const resolveFlags = db.prepare(`
+  UPDATE project_flags SET resolution = ?, resolved_at = CURRENT_TIMESTAMP
+  WHERE project_id = ? AND resolved_at IS NULL
+`);
+
+const setHidden = db.prepare(
+  "UPDATE projects SET hidden_at = CASE WHEN @hidden THEN COALESCE(hidden_at, CURRENT_TIMESTAMP) END WHERE id = @id"
+);
+
+const deleteProjectStatement = db.prepare("DELETE FROM projects WHERE id = ?");
+
+type ModerationRow = Project & { owner_id: string; owner_email: string; owner_name: string };
+
+const OWNED_PROJECT_COLUMNS = `${PROJECT_COLUMNS.split(", ").map((c) => `p.${c}`).join(", ")},
+  u.id AS owner_id, u.email AS owner_email, u.name AS owner_name`;
+
+type PageParams = { limit: number; offset: number };
+
+// Projects with open reports, most reported first.
+const countReported = db.prepare<[], { total: number }>(
+  "SELECT COUNT(DISTINCT project_id) AS total FROM project_flags WHERE resolved_at IS NULL"
+);
+
+const listReported = db.prepare<PageParams, ModerationRow>(`
+  SELECT ${OWNED_PROJECT_COLUMNS}
+  FROM projects p JOIN users u ON u.id = p.user_id
+  JOIN (
+    SELECT project_id, COUNT(*) AS open_flags FROM project_flags WHERE resolved_at IS NULL GROUP BY project_id
+  ) f ON f.project_id = p.id
+  ORDER BY f.open_flags DESC, p.created_at DESC, p.rowid DESC
+  LIMIT @limit OFFSET @offset
+`);
+
+const countHidden = db.prepare<[], { total: number }>("SELECT COUNT(*) AS total FROM projects WHERE hidden_at IS NOT NULL");
+
+const listHidden = db.prepare<PageParams, ModerationRow>(`
+  SELECT ${OWNED_PROJECT_COLUMNS} FROM projects p JOIN users u ON u.id = p.user_id
+  WHERE p.hidden_at IS NOT NULL
+  ORDER BY p.hidden_at DESC, p.rowid DESC
+  LIMIT @limit OFFSET @offset
+`);
+
+// The open reports of a whole page of projects, whose ids are passed as a JSON array.
+const listOpenFlags = db.prepare<[string], ProjectFlag & { project_id: string }>(`
+  SELECT f.project_id, f.id, f.reason, u.email AS reporter_email, f.created_at
+  FROM project_flags f LEFT JOIN users u ON u.id = f.reporter_id
+  WHERE f.project_id IN (SELECT value FROM json_each(?)) AND f.resolved_at IS NULL
+  ORDER BY f.id DESC
+`);
+
+const toFlaggedProjects = (rows: ModerationRow[]): FlaggedProject[] => {
+  const flags = new Map<string, ProjectFlag[]>();
+  for (const { project_id, ...flag } of listOpenFlags.all(JSON.stringify(rows.map((row) => row.id)))) {
+    flags.set(project_id, [...(flags.get(project_id) ?? []), flag]);
+  }
+  return rows.map(({ owner_id, owner_email, owner_name, ...project }) => ({
+    project,
+    owner: { id: owner_id, email: owner_email, name: owner_name },
+    flags: flags.get(project.id) ?? [],
+  }));
+};
+
+/** Records a report. A signed-in reporter's repeat reports of the same project count once. */
+export function flagProject(project_id: string, reason: string, reporter_id: string | null) {
+  if (reporter_id && findOpenFlagByReporter.get(project_id, reporter_id)) return;
+  insertFlag.run(project_id, reason, reporter_id);
+}
+
+/** One page of the review queue ("reported") or of the projects already hidden ("hidden"). */
+export function listModerationQueue(status: "reported" | "hidden", page: number, page_size: number): ModerationPage {
+  const [count, list] = status === "hidden" ? [countHidden, listHidden] : [countReported, listReported];
+  const { total } = count.get()!;
+  const rows = list.all({ limit: page_size, offset: (page - 1) * page_size });
+  return { projects: toFlaggedProjects(rows), total, page, page_size };
+}
+
+/** Hides the project from its share links and closes its open reports. */
+export const hideProject = db.transaction((project_id: string): boolean => {
+  if (setHidden.run({ id: project_id, hidden: 1 }).changes === 0) return false;
+  resolveFlags.run("hidden", project_id);
+  return true;
+});
+
+export function unhideProject(project_id: string): boolean {
+  return setHidden.run({ id: project_id, hidden: 0 }).changes > 0;
+}
+
+/** Closes the open reports and leaves the project as it is. */
+export function dismissFlags(project_id: string) {
+  resolveFlags.run("dismissed", project_id);
+}
+
+/** Versions, share links and reports are removed with the project. */
+export function deleteProjectAsModerator(project_id: string): boolean {
+  return deleteProjectStatement.run(project_id).changes > 0;
+}
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import type { CreditPlan } from "../types";
+import { grantCredits } from "./credits";
+import { db } from "./db";
+import { getPaymentProvider, type PaymentOutcome } from "./payments";
+
+/** Credit packs on sale, priced in whole rupees. */
+export const CREDIT_PLANS: CreditPlan[] = [
+  { id: "top-up-10", kind: "top-up", name: "Top-up 10", description: "A few more rooms", credits: 10, price_inr: 149 },
+  { id: "top-up-25", kind: "top-up", name: "Top-up 25", description: "Try every style on a room", credits: 25, price_inr: 299 },
+  { id: "home", kind: "plan", name: "Home", description: "Redesign a whole home, with refinements", credits: 60, price_inr: 599 },
+  { id: "studio", kind: "plan", name: "Studio", description: "For designers working across client projects", credits: 200, price_inr: 1499 },
+];
+
+export const findPlan = (id: unknown) => CREDIT_PLANS.find((plan) => plan.id === id);
+
+interface OrderRow {
+  id: string;
+  user_id: string;
+  plan_id: string;
+  credits: number;
+  amount_inr: number;
+  status: "pending" | PaymentOutcome;
+  provider: string;
+  provider_ref: string | null;
+}
+
+const insertOrder = db.prepare(`
+  INSERT INTO orders (id, user_id, plan_id, credits, amount_inr, provider)
+  VALUES (@id, @user_id, @plan_id, @credits, @amount_inr, @provider)
+`);
+
+const setProviderRef = db.prepare("UPDATE orders SET provider_ref = ? WHERE id = ?");
+
+const findOrder = db.prepare<[string, string], OrderRow>("SELECT * FROM orders WHERE id = ? AND user_id = ?");
+
+const finishOrder = db.prepare(`
+  UPDATE orders SET status = @status, completed_at = CURRENT_TIMESTAMP
+  WHERE id = @id AND status = 'pending'
+`);
+
+const returnUrlFor = (orderId: string) =>
+  new URL(`/api/credits/orders/${orderId}/return`, process.env.APP_URL || "http://localhost:3000").toString();
+
+/** Opens a pending order for a plan and returns the provider's checkout page for it. */
+export async function startCheckout(user_id: string, plan: CreditPlan): Promise<{ order_id: string; checkout_url: string }> {
+  const provider = getPaymentProvider();
+  const id = "ord_" + crypto.randomUUID();
+  insertOrder.run({ id, user_id, plan_id: plan.id, credits: plan.credits, amount_inr: plan.price_inr, provider: provider.name });
+  const checkout = await provider.createCheckout({
+    order: { id, description: `${plan.name}: ${plan.credits} GruhaBuddy credits`, amount_inr: plan.price_inr },
+    returnUrl: returnUrlFor(id),
+  });
+  setProviderRef.run(checkout.reference, id);
+  return { order_id: id, checkout_url: checkout.url };
+}
+
+// The status change and the credits go together, so a repeated return visit
+// can never add the credits twice.
+const settleOrder = db.transaction((order: OrderRow, outcome: PaymentOutcome) => {
+  if (finishOrder.run({ id: order.id, status: outcome }).changes === 0) return;
+  if (outcome === "paid") {
+    const plan = findPlan(order.plan_id);
+    grantCredits(order.user_id, order.credits, "purchase", {
+      description: `Bought ${plan?.name ?? order.plan_id}`,
+      order_id: order.id,
+    });
+  }
+});
+
+/**
+ * Handles the user coming back from checkout: asks the provider how the
+ * payment ended and credits the account if it was paid. Returns the order's
+ * final status, or null for an unknown order.
+ */
+export async function completeCheckout(user_id: string, order_id: string, query: Record<string, unknown>) {
+  const order = findOrder.get(order_id, user_id);
+  if (!order) return null;
+  if (order.status === "pending" && order.provider_ref) {
+    const outcome = await getPaymentProvider().verifyReturn({ reference: order.provider_ref, query });
+    settleOrder(order, outcome);
+  }
+  return findOrder.get(order_id, user_id)!.status;
+}
@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { escapeHtml } from "../http";
+import type { PaymentOutcome, PaymentProvider } from "./types";
+
+export const FAKE_CHECKOUT_PATH = "/api/payments/fake/checkout";
+
+const OUTCOMES: PaymentOutcome[] = ["paid", "failed", "canceled"];
+
+/**
+ * Offline stand-in for a real payment gateway. The checkout page lets you
+ * choose the outcome and nothing is charged, so it must never be enabled in
+ * production.
+ */
+export function createFakePaymentProvider(): PaymentProvider {
+  return {
+    name: "fake",
+
+    async createCheckout({ order, returnUrl }) {
+      const reference = "fake_" + crypto.randomBytes(12).toString("hex");
+      const query = new URLSearchParams({
+        reference,
+        description: order.description,
+        amount: String(order.amount_inr),
+        return_url: returnUrl,
+      });
+      return { url: `${FAKE_CHECKOUT_PATH}?${query}`, reference };
+    },
+
+    async verifyReturn({ reference, query }) {
+      if (query.reference !== reference || !OUTCOMES.includes(query.status as PaymentOutcome)) {
+        return "failed";
+      }
+      return query.status as PaymentOutcome;
+    },
+  };
+}
+
+// Checkout page for the fake provider: pick an outcome and get sent back.
+export const fakeCheckoutRouter = Router();
+
+fakeCheckoutRouter.get("/", (req, res) => {
+  const reference = String(req.query.reference ?? "");
+  const description = String(req.query.description ?? "");
+  const amount = Number(req.query.amount) || 0;
+  const returnUrl = String(req.query.return_url ?? "");
+
+  const button = (status: PaymentOutcome, label: string) =>
+    `<button type="submit" name="status" value="${status}">${label}</button>`;
+
+  res.type("html").send(`<!doctype html>
+<html><body style="font-family: sans-serif; padding: 40px">
+  <h1>Fake checkout</h1>
+  <p>${escapeHtml(description)}: <strong>&#8377;${amount.toLocaleString("en-IN")}</strong></p>
+  <p>No money is charged. Choose how the payment should end.</p>
+  <form method="get" action="${escapeHtml(returnUrl)}">
+    <input type="hidden" name="reference" value="${escapeHtml(reference)}" />
+    ${button("paid", "Pay")}
+    ${button("failed", "Decline card")}
+    ${button("canceled", "Cancel")}
+  </form>
+</body></html>`);
+});
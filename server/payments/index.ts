@@ -0,0 +1,27 @@
+import { createFakePaymentProvider } from "./fake";
+import type { PaymentProvider } from "./types";
+
+export type { PaymentOrder, PaymentOutcome, PaymentProvider } from "./types";
+
+let provider: PaymentProvider | undefined;
+
+/**
+ * Returns the provider named by `PAYMENT_PROVIDER`. Only "fake" exists so far;
+ * a real gateway plugs in here behind the same interface.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    const name = process.env.PAYMENT_PROVIDER || "fake";
+    switch (name) {
+      case "fake":
+        if (process.env.NODE_ENV === "production") {
+          throw new Error("The fake payment provider cannot be used in production");
+        }
+        provider = createFakePaymentProvider();
+        break;
+      default:
+        throw new Error(`Unknown payment provider "${name}". Expected "fake"`);
+    }
+  }
+  return provider;
+}
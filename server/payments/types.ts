@@ -0,0 +1,20 @@
+/** What the user is paying for, as shown on the provider's checkout page. */
+export interface PaymentOrder {
+  id: string;
+  description: string;
+  amount_inr: number;
+}
+
+export type PaymentOutcome = "paid" | "failed" | "canceled";
+
+/**
+ * A hosted-checkout payment provider: the user is sent to the provider's page
+ * and comes back to `returnUrl` once they have paid or given up.
+ */
+export interface PaymentProvider {
+  readonly name: string;
+  /** Starts a payment; `reference` is the provider's id for it. */
+  createCheckout(params: { order: PaymentOrder; returnUrl: string }): Promise<{ url: string; reference: string }>;
+  /** Confirms with the provider how the payment behind a return visit ended. */
+  verifyReturn(params: { reference: string; query: Record<string, unknown> }): Promise<PaymentOutcome>;
+}
@@ -0,0 +1,68 @@
+import { db } from "./db";
+import { thumbnailUrlFor } from "./images";
+
+/** A refinement a job rendered, saved as the project's next version when the job settles. */
+export interface Refinement {
+  project_id: string;
+  image: string;
+  instruction: string;
+  reply: string;
+}
+
+// Version 1 is the project's original render. It is recorded on first use so
+// projects saved before version history existed get one too.
+export const ensureInitialVersion = db.prepare<{ id: string; redesigned_image: string; redesigned_thumbnail: string }>(`
+  INSERT INTO project_versions (project_id, version, image, thumbnail)
+  SELECT @id, 1, @redesigned_image, @redesigned_thumbnail
+  WHERE NOT EXISTS (SELECT 1 FROM project_versions WHERE project_id = @id)
+`);
+
+const findProjectImages = db.prepare<[string], { id: string; redesigned_image: string; redesigned_thumbnail: string }>(
+  "SELECT id, redesigned_image, redesigned_thumbnail FROM projects WHERE id = ?"
+);
+
+const nextVersionNumber = db.prepare<[string], { next: number }>(
+  "SELECT COALESCE(MAX(version), 0) + 1 AS next FROM project_versions WHERE project_id = ?"
+);
+
+const insertVersion = db.prepare(`
+  INSERT INTO project_versions (project_id, version, image, thumbnail, instruction)
+  VALUES (@project_id, @version, @image, @thumbnail, @instruction)
+`);
+
+export const insertMessage = db.prepare(`
+  INSERT INTO project_messages (project_id, role, content, version, event)
+  VALUES (@project_id, @role, @content, @version, @event)
+`);
+
+export const setCurrentVersion = db.prepare(`
+  UPDATE projects SET redesigned_image = @image, redesigned_thumbnail = @thumbnail, current_version = @version
+  WHERE id = @project_id
+`);
+
+const listInstructions = db.prepare<[string], { content: string }>(
+  "SELECT content FROM project_messages WHERE project_id = ? AND role = 'user' ORDER BY id"
+);
+
+/** The refinement requests made so far, oldest first, so the model keeps earlier changes. */
+export function previousInstructions(project_id: string): string[] {
+  return listInstructions.all(project_id).map((m) => m.content);
+}
+
+/**
+ * Saves a refinement as the project's current version, with the request and
+ * the model's reply in its chat. Returns null if the project was deleted.
+ * Callers charge for it in the same transaction.
+ */
+export const addVersion = db.transaction(({ project_id, image, instruction, reply }: Refinement): number | null => {
+  const project = findProjectImages.get(project_id);
+  if (!project) return null;
+  ensureInitialVersion.run(project);
+  const { next: version } = nextVersionNumber.get(project_id)!;
+  const thumbnail = thumbnailUrlFor(image);
+  insertVersion.run({ project_id, version, image, thumbnail, instruction });
+  insertMessage.run({ project_id, role: "user", content: instruction, version: null, event: null });
+  insertMessage.run({ project_id, role: "assistant", content: reply, version, event: null });
+  setCurrentVersion.run({ project_id, image, thumbnail, version });
+  return version;
+});
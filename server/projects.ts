@@ -0,0 +1,28 @@
+import { translate, type Language } from "../services/i18n";
+import type { RoomAnalysis } from "../services/providers/types";
+import { parseRoomAnalysis } from "../services/roomAnalysis";
+import type { Project } from "../types";
+import { db } from "./db";
+
+export type ProjectRow = Omit<Project, "created_at" | "current_version" | "title" | "archived_at" | "hidden_at"> & { user_id: string };
+
+/** Columns that make up a `Project`, for SELECTs against `projects`. */
+export const PROJECT_COLUMNS =
+  "id, original_image, original_thumbnail, redesigned_image, redesigned_thumbnail, current_version, style, room_type, analysis, title, archived_at, home_id, hidden_at, created_at";
+
+/** Inserts a project row; callers charge for it in the same transaction. */
+export const insertProject = db.prepare<ProjectRow>(`
+  INSERT INTO projects (id, user_id, original_image, original_thumbnail, redesigned_image, redesigned_thumbnail, style, room_type, analysis, home_id)
+  VALUES (@id, @user_id, @original_image, @original_thumbnail, @redesigned_image, @redesigned_thumbnail, @style, @room_type, @analysis, @home_id)
+`);
+
+/** `Project.analysis` is stored as a JSON string; returns null if it is unreadable or incomplete. */
+export function parseAnalysis(project: Project): RoomAnalysis | null {
+  return parseRoomAnalysis(project.analysis);
+}
+
+/** The project's title, or the app's default title for its room type in `language`. */
+export function projectTitle(project: Project, language: Language): string {
+  const room = `${project.room_type.charAt(0).toUpperCase()}${project.room_type.slice(1)}`;
+  return project.title || translate(language, "project.defaultTitle", { room });
+}
@@ -0,0 +1,89 @@
+import { Router } from "express";
+import { getAdminUser, getUsageMetrics, listUsers } from "../admin";
+import { requireAdmin, requireUser } from "../auth";
+import { adjustCredits } from "../credits";
+import { db } from "../db";
+import { pageParams } from "../http";
+import { deleteProjectAsModerator, dismissFlags, hideProject, listModerationQueue, unhideProject } from "../moderation";
+
+export const adminRouter = Router();
+
+adminRouter.use(requireUser, requireAdmin);
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+const DEFAULT_DAYS = 30;
+const MAX_DAYS = 90;
+const MAX_ADJUSTMENT = 1000;
+const MAX_NOTE_LENGTH = 200;
+
+adminRouter.get("/users", (req, res) => {
+  const { page, pageSize } = pageParams(req.query, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const q = typeof req.query.q === "string" ? req.query.q : "";
+  res.json(listUsers(q, page, pageSize));
+});
+
+// Adds or removes credits through the ledger; `note` is shown in the user's credit history.
+adminRouter.post("/users/:id/credits", (req, res) => {
+  const { amount, note } = req.body ?? {};
+  if (!Number.isInteger(amount) || amount === 0 || Math.abs(amount) > MAX_ADJUSTMENT) {
+    res.status(400).json({ error: `amount must be a non-zero whole number up to ${MAX_ADJUSTMENT} either way` });
+    return;
+  }
+  if (typeof note !== "string" || !note.trim() || note.trim().length > MAX_NOTE_LENGTH) {
+    res.status(400).json({ error: `note is required, up to ${MAX_NOTE_LENGTH} characters` });
+    return;
+  }
+  if (!getAdminUser(req.params.id)) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  const adjusted = db.transaction(() =>
+    adjustCredits(req.params.id, amount, { description: `Adjusted by support: ${note.trim()}` })
+  )();
+  if (!adjusted) {
+    res.status(409).json({ error: "The user doesn't have that many credits to remove" });
+    return;
+  }
+  res.json(getAdminUser(req.params.id));
+});
+
+adminRouter.get("/metrics", (req, res) => {
+  const days = Math.min(Math.max(Math.floor(Number(req.query.days)) || DEFAULT_DAYS, 1), MAX_DAYS);
+  res.json(getUsageMetrics(days));
+});
+
+adminRouter.get("/moderation", (req, res) => {
+  const { page, pageSize } = pageParams(req.query, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  res.json(listModerationQueue(req.query.status === "hidden" ? "hidden" : "reported", page, pageSize));
+});
+
+adminRouter.post("/moderation/:projectId/hide", (req, res) => {
+  if (!hideProject(req.params.projectId)) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+adminRouter.post("/moderation/:projectId/unhide", (req, res) => {
+  if (!unhideProject(req.params.projectId)) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Keeps the project as it is and clears its reports.
+adminRouter.post("/moderation/:projectId/dismiss", (req, res) => {
+  dismissFlags(req.params.projectId);
+  res.status(204).end();
+});
+
+adminRouter.delete("/moderation/:projectId", (req, res) => {
+  if (!deleteProjectAsModerator(req.params.projectId)) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  res.status(204).end();
+});
@@ -0,0 +1,86 @@
+import crypto from "crypto";
+import { Router } from "express";
+import { grantCredits } from "../credits";
+import { STARTING_CREDITS, db } from "../db";
+import { endSession, signedCookieOptions, startSession } from "../auth";
+import { getIdentityProvider } from "../identity";
+
+export const authRouter = Router();
+
+const STATE_COOKIE = "oauth_state";
+const RETURN_COOKIE = "oauth_return_to";
+const STATE_MAX_AGE_MS = 10 * 60 * 1000;
+
+const findUserId = db.prepare<[string], { id: string }>("SELECT id FROM users WHERE id = ?");
+const insertUser = db.prepare("INSERT INTO users (id, email, name, credits) VALUES (@id, @email, @name, 0)");
+const updateUser = db.prepare("UPDATE users SET email = @email, name = @name WHERE id = @id");
+const makeAdmin = db.prepare("UPDATE users SET role = 'admin' WHERE id = ?");
+
+// Comma-separated; these accounts are made admins when they sign in with a
+// verified address (unverified ones are turned away). Roles are never removed here.
+const ADMIN_EMAILS = new Set(
+  (process.env.ADMIN_EMAILS ?? "").split(",").map((email) => email.trim().toLowerCase()).filter(Boolean)
+);
+
+// New accounts start empty and receive their free credits through the ledger.
+const upsertUser = db.transaction((user: { id: string; email: string; name: string }) => {
+  if (findUserId.get(user.id)) {
+    updateUser.run(user);
+  } else {
+    insertUser.run(user);
+    grantCredits(user.id, STARTING_CREDITS, "grant", { description: "Welcome credits" });
+  }
+  if (ADMIN_EMAILS.has(user.email.toLowerCase())) {
+    makeAdmin.run(user.id);
+  }
+});
+
+// Only paths on this site, so sign-in can't be used to redirect elsewhere.
+const returnPath = (value: unknown) =>
+  typeof value === "string" && value.startsWith("/") && !value.startsWith("//") && !value.startsWith("/\\") ? value : "/";
+
+const callbackUrl = () => new URL("/api/auth/callback", process.env.APP_URL || "http://localhost:3000").toString();
+
+// `next` is the page to come back to, e.g. a deep link opened while signed out.
+authRouter.get("/login", (req, res) => {
+  const state = crypto.randomBytes(16).toString("hex");
+  res.cookie(STATE_COOKIE, state, signedCookieOptions(STATE_MAX_AGE_MS));
+  res.cookie(RETURN_COOKIE, returnPath(req.query.next), signedCookieOptions(STATE_MAX_AGE_MS));
+  res.redirect(getIdentityProvider().getAuthorizationUrl({ redirectUri: callbackUrl(), state }));
+});
+
+authRouter.get("/callback", async (req, res) => {
+  const { code, state } = req.query;
+  const expectedState = req.signedCookies?.[STATE_COOKIE];
+  const returnTo = returnPath(req.signedCookies?.[RETURN_COOKIE]);
+  res.clearCookie(STATE_COOKIE);
+  res.clearCookie(RETURN_COOKIE);
+
+  if (typeof code !== "string" || typeof state !== "string" || !expectedState || state !== expectedState) {
+    res.status(400).send("Sign-in failed: invalid or expired login attempt. Please try again.");
+    return;
+  }
+
+  try {
+    const provider = getIdentityProvider();
+    const identity = await provider.exchangeCode({ code, redirectUri: callbackUrl() });
+    // The email names the account in the app and decides admin rights, so it must be the user's own.
+    if (!identity.emailVerified) {
+      res.status(403).send("Sign-in failed: your account's email address is not verified. Verify it with your provider and try again.");
+      return;
+    }
+    // Keyed by provider + subject so the same person always maps to the same account.
+    const userId = `${provider.name}:${identity.subject}`;
+    upsertUser({ id: userId, email: identity.email, name: identity.name });
+    startSession(res, userId);
+    res.redirect(returnTo);
+  } catch (e) {
+    console.error("OAuth callback failed", e);
+    res.status(502).send("Sign-in failed: could not verify your account. Please try again.");
+  }
+});
+
+authRouter.post("/logout", (_req, res) => {
+  endSession(res);
+  res.status(204).end();
+});
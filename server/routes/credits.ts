@@ -0,0 +1,53 @@
+import { Router } from "express";
+import type { Checkout } from "../../types";
+import { requireUser } from "../auth";
+import { listCreditTransactions } from "../credits";
+import { pageParams } from "../http";
+import { CREDIT_PLANS, completeCheckout, findPlan, startCheckout } from "../orders";
+
+export const creditsRouter = Router();
+
+creditsRouter.use(requireUser);
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+creditsRouter.get("/plans", (_req, res) => {
+  res.json(CREDIT_PLANS);
+});
+
+// The user's credit history, newest first.
+creditsRouter.get("/transactions", (req, res) => {
+  const { page, pageSize } = pageParams(req.query, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  res.json(listCreditTransactions(req.user!.id, page, pageSize));
+});
+
+// Starts a purchase; the client sends the user on to `checkout_url`.
+creditsRouter.post("/checkout", async (req, res, next) => {
+  try {
+    const plan = findPlan(req.body?.plan_id);
+    if (!plan) {
+      res.status(400).json({ error: "Unknown plan" });
+      return;
+    }
+    const checkout: Checkout = await startCheckout(req.user!.id, plan);
+    res.status(201).json(checkout);
+  } catch (e) {
+    next(e);
+  }
+});
+
+// The payment provider sends the user back here; the app picks up `purchase`
+// from the query string to show the outcome.
+creditsRouter.get("/orders/:id/return", async (req, res, next) => {
+  try {
+    const status = await completeCheckout(req.user!.id, req.params.id, req.query);
+    if (!status) {
+      res.status(404).json({ error: "Order not found" });
+      return;
+    }
+    res.redirect(`/credits?${new URLSearchParams({ purchase: status })}`);
+  } catch (e) {
+    next(e);
+  }
+});
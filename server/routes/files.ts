@@ -0,0 +1,45 @@
+import { Router, type Request } from "express";
+import { sessionUser } from "../auth";
+import { FILES_PREFIX, contentTypeForKey, isStorageKey, ownsFile } from "../images";
+import { isSharedImage } from "../shareLinks";
+import { storage } from "../storage";
+
+export const filesRouter = Router();
+
+// Files are readable by the users who stored or were given them, by admins for
+// moderation, and by anyone while a project showing them is shared. Hiding,
+// deleting or unsharing a project therefore takes its images offline too.
+const canRead = (req: Request, key: string) => {
+  const user = sessionUser(req);
+  if (user && (user.role === "admin" || ownsFile(user.id, key))) return true;
+  return isSharedImage(FILES_PREFIX + key);
+};
+
+filesRouter.get(/^\/(.+)$/, async (req, res, next) => {
+  const key = req.params[0];
+  // Unreadable files look missing, so their URLs reveal nothing.
+  if (!isStorageKey(key) || !canRead(req, key)) {
+    res.status(404).end();
+    return;
+  }
+
+  try {
+    const data = await storage.get(key);
+    if (!data) {
+      res.status(404).end();
+      return;
+    }
+    res.set({
+      "Content-Type": contentTypeForKey(key),
+      // Keys are content hashes, so a URL's bytes never change; access can,
+      // so shared caches must not keep a copy.
+      "Cache-Control": "private, max-age=86400, immutable",
+      "X-Content-Type-Options": "nosniff",
+      // Stored SVGs must not be able to run script on our origin.
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    });
+    res.send(data);
+  } catch (e) {
+    next(e);
+  }
+});
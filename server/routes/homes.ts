@@ -0,0 +1,98 @@
+import crypto from "crypto";
+import { Router } from "express";
+import type { HomeDetail } from "../../types";
+import { requireUser } from "../auth";
+import { db } from "../db";
+import { getHome, getHomeRooms, listHomes } from "../homes";
+
+export const homesRouter = Router();
+
+homesRouter.use(requireUser);
+
+const MAX_NAME_LENGTH = 80;
+const MAX_PALETTE_COLORS = 6;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const insertHome = db.prepare(`
+  INSERT INTO homes (id, user_id, name, style, palette) VALUES (@id, @user_id, @name, @style, @palette)
+`);
+
+const updateHome = db.prepare(`
+  UPDATE homes SET name = @name, style = @style, palette = @palette WHERE id = @id AND user_id = @user_id
+`);
+
+const deleteHome = db.prepare("DELETE FROM homes WHERE id = ? AND user_id = ?");
+
+interface HomeFields {
+  name: string;
+  style: string;
+  palette: string[];
+}
+
+// Validates a full set of fields; PATCH merges the body over the stored home first.
+const parseHome = (body: any): HomeFields | string => {
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const style = typeof body?.style === "string" ? body.style : "";
+  const palette: unknown[] = Array.isArray(body?.palette) ? body.palette : [];
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return `Home name must be 1-${MAX_NAME_LENGTH} characters`;
+  }
+  if (!style) {
+    return "style is required";
+  }
+  if (palette.length > MAX_PALETTE_COLORS || !palette.every((c) => typeof c === "string" && HEX_COLOR.test(c))) {
+    return `Palette must be up to ${MAX_PALETTE_COLORS} hex colours like #a1b2c3`;
+  }
+  return { name, style, palette: palette as string[] };
+};
+
+homesRouter.get("/", (req, res) => {
+  res.json(listHomes(req.user!.id));
+});
+
+homesRouter.post("/", (req, res) => {
+  const fields = parseHome(req.body);
+  if (typeof fields === "string") {
+    res.status(400).json({ error: fields });
+    return;
+  }
+  const id = "home_" + crypto.randomUUID();
+  insertHome.run({ id, user_id: req.user!.id, ...fields, palette: JSON.stringify(fields.palette) });
+  res.status(201).json(getHome(id, req.user!.id));
+});
+
+// The overview page: the home plus every room in it, oldest first.
+homesRouter.get("/:id", (req, res) => {
+  const home = getHome(req.params.id, req.user!.id);
+  if (!home) {
+    res.status(404).json({ error: "Home not found" });
+    return;
+  }
+  const detail: HomeDetail = { ...home, rooms: getHomeRooms(home.id) };
+  res.json(detail);
+});
+
+// A new style or palette applies to rooms designed from now on; existing rooms keep their renders.
+homesRouter.patch("/:id", (req, res) => {
+  const home = getHome(req.params.id, req.user!.id);
+  if (!home) {
+    res.status(404).json({ error: "Home not found" });
+    return;
+  }
+  const fields = parseHome({ name: home.name, style: home.style, palette: home.palette, ...req.body });
+  if (typeof fields === "string") {
+    res.status(400).json({ error: fields });
+    return;
+  }
+  updateHome.run({ id: home.id, user_id: req.user!.id, ...fields, palette: JSON.stringify(fields.palette) });
+  res.json(getHome(home.id, req.user!.id));
+});
+
+// The rooms themselves are kept as standalone projects.
+homesRouter.delete("/:id", (req, res) => {
+  if (deleteHome.run(req.params.id, req.user!.id).changes === 0) {
+    res.status(404).json({ error: "Home not found" });
+    return;
+  }
+  res.status(204).end();
+});
@@ -0,0 +1,145 @@
+import { Router } from "express";
+import type { InspirationImage, InspirationPage } from "../../types";
+import { requireUser, sessionUser } from "../auth";
+import { db } from "../db";
+import { pageParams } from "../http";
+import { UnsupportedImageError, grantFileAccess, storeImage } from "../images";
+import { getInspirationProvider } from "../inspiration";
+
+export const inspirationRouter = Router();
+
+const DEFAULT_PAGE_SIZE = 12;
+const MAX_PAGE_SIZE = 30;
+const MAX_QUERY_LENGTH = 100;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHED_SEARCHES = 500;
+// Provider searches a signed-out visitor may cause per window; cached pages are free.
+// Visitors are told apart by req.ip, so behind a proxy TRUST_PROXY must be set (see server.ts).
+const GUEST_SEARCH_LIMIT = 20;
+const GUEST_WINDOW_MS = 10 * 60 * 1000;
+
+// Searches cost calls against the provider's API key, and the landing page's
+// suggestions repeat the same few queries, so pages are kept for a while.
+const searchCache = new Map<string, { page: InspirationPage; expires: number }>();
+const guestSearches = new Map<string, { count: number; resets: number }>();
+
+const cachedSearch = (key: string) => {
+  const hit = searchCache.get(key);
+  if (hit && hit.expires > Date.now()) return hit.page;
+  searchCache.delete(key);
+  return undefined;
+};
+
+const cacheSearch = (key: string, page: InspirationPage) => {
+  // Maps iterate in insertion order, so the first key is the oldest.
+  if (searchCache.size >= MAX_CACHED_SEARCHES) searchCache.delete(searchCache.keys().next().value!);
+  searchCache.set(key, { page, expires: Date.now() + CACHE_TTL_MS });
+};
+
+const takeGuestSearch = (ip: string) => {
+  const now = Date.now();
+  const entry = guestSearches.get(ip);
+  if (!entry || entry.resets <= now) {
+    for (const [key, old] of guestSearches) if (old.resets <= now) guestSearches.delete(key);
+    guestSearches.set(ip, { count: 1, resets: now + GUEST_WINDOW_MS });
+    return true;
+  }
+  if (entry.count >= GUEST_SEARCH_LIMIT) return false;
+  entry.count++;
+  return true;
+};
+
+const listFavorites = db.prepare<{ user_id: string; provider: string }, { image: string }>(`
+  SELECT image FROM inspiration_favorites WHERE user_id = @user_id AND provider = @provider
+  ORDER BY created_at DESC, rowid DESC
+`);
+
+const saveFavorite = db.prepare(`
+  INSERT INTO inspiration_favorites (user_id, provider, image_id, image) VALUES (@user_id, @provider, @image_id, @image)
+  ON CONFLICT (user_id, provider, image_id) DO UPDATE SET image = excluded.image
+`);
+
+const deleteFavorite = db.prepare(
+  "DELETE FROM inspiration_favorites WHERE user_id = @user_id AND provider = @provider AND image_id = @image_id"
+);
+
+// Browsing is open to signed-out visitors, so the landing page can show the
+// gallery, but they may only reach the provider a limited number of times.
+inspirationRouter.get("/search", async (req, res, next) => {
+  const query = typeof req.query.q === "string" ? req.query.q.trim().slice(0, MAX_QUERY_LENGTH) : "";
+  const { page, pageSize: per_page } = pageParams(req.query, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, "per_page");
+  if (!query) {
+    const empty: InspirationPage = { images: [], total: 0, page, per_page };
+    res.json(empty);
+    return;
+  }
+  try {
+    const provider = getInspirationProvider();
+    const key = JSON.stringify([provider.name, query.toLowerCase(), page, per_page]);
+    const cached = cachedSearch(key);
+    if (cached) {
+      res.json(cached);
+      return;
+    }
+    if (!sessionUser(req) && !takeGuestSearch(req.ip ?? "")) {
+      res.status(429).json({ error: "Too many searches. Sign in to keep browsing" });
+      return;
+    }
+    const found = await provider.search({ query, page, per_page });
+    const result: InspirationPage = { ...found, page, per_page };
+    cacheSearch(key, result);
+    res.json(result);
+  } catch (e) {
+    next(e);
+  }
+});
+
+inspirationRouter.use(requireUser);
+
+// Favourites saved under a different provider stay in the table but are not listed.
+inspirationRouter.get("/favorites", (req, res) => {
+  const rows = listFavorites.all({ user_id: req.user!.id, provider: getInspirationProvider().name });
+  const favorites: InspirationImage[] = rows.map((r) => JSON.parse(r.image));
+  res.json(favorites);
+});
+
+// The image is looked up at the provider rather than taken from the body.
+inspirationRouter.put("/favorites/:id", async (req, res, next) => {
+  try {
+    const provider = getInspirationProvider();
+    const image = await provider.get(req.params.id);
+    if (!image) {
+      res.status(404).json({ error: "Image not found" });
+      return;
+    }
+    saveFavorite.run({ user_id: req.user!.id, provider: provider.name, image_id: image.id, image: JSON.stringify(image) });
+    res.json(image);
+  } catch (e) {
+    next(e);
+  }
+});
+
+inspirationRouter.delete("/favorites/:id", (req, res) => {
+  deleteFavorite.run({ user_id: req.user!.id, provider: getInspirationProvider().name, image_id: req.params.id });
+  res.status(204).end();
+});
+
+// Copies the image into our storage so it can be sent with a redesign as a style reference.
+inspirationRouter.post("/:id/reference", async (req, res, next) => {
+  try {
+    const data = await getInspirationProvider().download(req.params.id);
+    if (!data) {
+      res.status(404).json({ error: "Image not found" });
+      return;
+    }
+    const stored = await storeImage(data);
+    grantFileAccess(req.user!.id, [stored.url]);
+    res.status(201).json(stored);
+  } catch (e) {
+    if (e instanceof UnsupportedImageError) {
+      res.status(415).json({ error: e.message });
+      return;
+    }
+    next(e);
+  }
+});
@@ -0,0 +1,185 @@
+import { Router } from "express";
+import type { GenerationJob, GenerationJobKind } from "../../types";
+import { MAX_VARIATIONS } from "../../services/geminiService";
+import { LANGUAGES, isLanguage } from "../../services/i18n/languages";
+import { roomAnalysisError } from "../../services/roomAnalysis";
+import { requireUser } from "../auth";
+import { db } from "../db";
+import { getHome } from "../homes";
+import { isOwnImageUrl } from "../images";
+import { cancelJob, createJob, dismissJob, getCurrentJob, getJob, jobEvents, type JobInput } from "../jobs";
+
+export const jobsRouter = Router();
+
+jobsRouter.use(requireUser);
+
+const KINDS: GenerationJobKind[] = ["redesign", "inpaint", "refine"];
+const HEARTBEAT_MS = 15_000;
+
+const findOwnedProject = db.prepare<[string, string], { id: string; redesigned_image: string }>(
+  "SELECT id, redesigned_image FROM projects WHERE id = ? AND user_id = ?"
+);
+
+const isFinished = (job: GenerationJob) => job.status !== "queued" && job.status !== "running";
+
+const parseJobInput = async (kind: GenerationJobKind, body: any, user_id: string): Promise<JobInput | string> => {
+  const spec = body?.styleSpec;
+  if (typeof body?.style !== "string" || !body.style || typeof spec?.name !== "string") {
+    return "style and styleSpec are required";
+  }
+  const variations = kind === "redesign" ? Number(body.variations ?? 1) : 1;
+  if (!Number.isInteger(variations) || variations < 1 || variations > MAX_VARIATIONS) {
+    return `variations must be between 1 and ${MAX_VARIATIONS}`;
+  }
+
+  // A refinement edits the project's current version, whatever the client sent.
+  const project = kind === "refine" && typeof body.project_id === "string" ? findOwnedProject.get(body.project_id, user_id) : null;
+  if (kind === "refine" && !project) {
+    return "Unknown project";
+  }
+  const image = project ? project.redesigned_image : body.image;
+
+  // Images must already be uploaded (see POST /api/uploads) by the user. A
+  // teammate's shared style counts: sharing it gives the team its images.
+  const referenceImages: unknown[] = Array.isArray(spec.referenceImages) ? spec.referenceImages : [];
+  const images = [image, ...(kind === "inpaint" ? [body.base, body.mask] : []), ...referenceImages];
+  for (const url of images) {
+    if (typeof url !== "string" || !(await isOwnImageUrl(url, user_id))) {
+      return "Images must be uploaded file URLs";
+    }
+  }
+  if (kind !== "redesign" && (typeof body.instruction !== "string" || !body.instruction.trim())) {
+    return "instruction is required";
+  }
+  const home = typeof body.home_id === "string" ? getHome(body.home_id, user_id) : null;
+  if (body.home_id && !home) {
+    return "Unknown home";
+  }
+  if (home && body.style !== home.style) {
+    return "Rooms in a home use the home's style";
+  }
+  if (body.preserveLayout !== undefined && typeof body.preserveLayout !== "boolean") {
+    return "preserveLayout must be a boolean";
+  }
+  if (body.force !== undefined && typeof body.force !== "boolean") {
+    return "force must be a boolean";
+  }
+  if (body.language !== undefined && !isLanguage(body.language)) {
+    return `language must be one of ${LANGUAGES.join(", ")}`;
+  }
+  // An edit saves the analysis it was given with the project, so it is held to
+  // the same rules as a saved project's. Other kinds make their own.
+  if (body.analysis !== undefined) {
+    if (kind !== "inpaint") return "analysis is only accepted for inpaint jobs";
+    const invalidAnalysis = roomAnalysisError(body.analysis);
+    if (invalidAnalysis) return invalidAnalysis;
+  }
+
+  return {
+    image,
+    style: body.style,
+    styleSpec: {
+      name: spec.name,
+      description: typeof spec.description === "string" ? spec.description : undefined,
+      palette: Array.isArray(spec.palette) ? spec.palette.filter((c: unknown) => typeof c === "string") : undefined,
+      referenceImages: referenceImages as string[],
+    },
+    variations,
+    ...(kind === "inpaint" && { base: body.base, mask: body.mask, instruction: body.instruction.trim() }),
+    ...(project && { project_id: project.id, instruction: body.instruction.trim() }),
+    ...(kind === "inpaint" && body.analysis && { analysis: body.analysis }),
+    ...(home && { home_id: home.id }),
+    ...(kind === "redesign" && body.preserveLayout && { preserveLayout: true }),
+    ...(kind === "redesign" && body.force && { force: true }),
+    ...(body.language && body.language !== "en" && { language: body.language }),
+  };
+};
+
+jobsRouter.post("/", async (req, res, next) => {
+  try {
+    const kind = req.body?.kind;
+    if (!KINDS.includes(kind)) {
+      res.status(400).json({ error: `kind must be one of ${KINDS.join(", ")}` });
+      return;
+    }
+    const input = await parseJobInput(kind, req.body, req.user!.id);
+    if (typeof input === "string") {
+      res.status(400).json({ error: input });
+      return;
+    }
+
+    const job = createJob(req.user!.id, kind, input);
+    if (!job) {
+      res.status(402).json({ error: "No credits left" });
+      return;
+    }
+    res.status(201).json(job);
+  } catch (e) {
+    next(e);
+  }
+});
+
+// Registered before "/:id" so "current" is not taken for a job id.
+jobsRouter.get("/current", (req, res) => {
+  res.json(getCurrentJob(req.user!.id));
+});
+
+jobsRouter.get("/:id", (req, res) => {
+  const job = getJob(req.params.id, req.user!.id);
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+  res.json(job);
+});
+
+/** Server-sent events: the job's current state, then every change until it finishes. */
+jobsRouter.get("/:id/events", (req, res) => {
+  const job = getJob(req.params.id, req.user!.id);
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  const send = (update: GenerationJob) => {
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+    if (isFinished(update)) {
+      cleanup();
+      res.end();
+    }
+  };
+  // Comments keep proxies from closing an idle stream during long renders.
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_MS);
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    jobEvents.off(job.id, send);
+  };
+
+  jobEvents.on(job.id, send);
+  req.on("close", cleanup);
+  send(job);
+});
+
+jobsRouter.post("/:id/cancel", (req, res) => {
+  if (!getJob(req.params.id, req.user!.id)) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+  if (!cancelJob(req.params.id, req.user!.id)) {
+    res.status(409).json({ error: "Job has already finished" });
+    return;
+  }
+  res.json(getJob(req.params.id, req.user!.id));
+});
+
+jobsRouter.post("/:id/dismiss", (req, res) => {
+  dismissJob(req.params.id, req.user!.id);
+  res.status(204).end();
+});
@@ -0,0 +1,69 @@
+import { Router, type Request } from "express";
+import type { ChatMessage, ProjectVersion } from "../../types";
+import { db } from "../db";
+import { ensureInitialVersion, insertMessage, setCurrentVersion } from "../projectVersions";
+
+// Mounted at /api/projects/:projectId behind requireUser.
+export const projectVersionsRouter = Router({ mergeParams: true });
+
+// mergeParams exposes :projectId, but Express's types only see this router's own paths.
+const projectIdOf = (req: Request) => (req.params as { projectId: string }).projectId;
+
+interface OwnedProject {
+  id: string;
+  redesigned_image: string;
+  redesigned_thumbnail: string;
+}
+
+const findOwnedProject = db.prepare<[string, string], OwnedProject>(
+  "SELECT id, redesigned_image, redesigned_thumbnail FROM projects WHERE id = ? AND user_id = ?"
+);
+
+const listVersions = db.prepare<[string], ProjectVersion>(`
+  SELECT version, image, thumbnail, instruction, created_at
+  FROM project_versions WHERE project_id = ? ORDER BY version
+`);
+
+const findVersion = db.prepare<[string, number], ProjectVersion>(`
+  SELECT version, image, thumbnail, instruction, created_at
+  FROM project_versions WHERE project_id = ? AND version = ?
+`);
+
+const listMessages = db.prepare<[string], ChatMessage>(`
+  SELECT id, role, content, version, event, created_at
+  FROM project_messages WHERE project_id = ? ORDER BY id
+`);
+
+const revertToVersion = db.transaction((project_id: string, target: ProjectVersion) => {
+  setCurrentVersion.run({ project_id, image: target.image, thumbnail: target.thumbnail, version: target.version });
+  // Recorded as an event, not text, so each reader sees it in their own language.
+  insertMessage.run({ project_id, role: "assistant", content: "", version: target.version, event: "revert" });
+});
+
+// Scoped to this router's own paths: it is mounted at "/:projectId", which also
+// matches sibling routes such as /batch and /facets.
+projectVersionsRouter.use(["/history", "/revert"], (req, res, next) => {
+  const project = findOwnedProject.get(projectIdOf(req), req.user!.id);
+  if (!project) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  ensureInitialVersion.run(project);
+  next();
+});
+
+projectVersionsRouter.get("/history", (req, res) => {
+  const projectId = projectIdOf(req);
+  res.json({ versions: listVersions.all(projectId), messages: listMessages.all(projectId) });
+});
+
+projectVersionsRouter.post("/revert", (req, res) => {
+  const projectId = projectIdOf(req);
+  const target = findVersion.get(projectId, Number(req.body?.version));
+  if (!target) {
+    res.status(404).json({ error: "Version not found" });
+    return;
+  }
+  revertToVersion(projectId, target);
+  res.json({ version: target.version });
+});
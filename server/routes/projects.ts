@@ -0,0 +1,341 @@
+import { Router, type NextFunction, type Request, type Response } from "express";
+import type { Project, ProjectFacets, ProjectPage } from "../../types";
+import { isLanguage } from "../../services/i18n/languages";
+import { roomAnalysisError } from "../../services/roomAnalysis";
+import { isShoppingList, parseShoppingItem, shoppingListError } from "../../services/shoppingList";
+import { requireUser } from "../auth";
+import { MissingFontError, renderProjectBrief } from "../brief";
+import { getBalance, spendCredits } from "../credits";
+import { db, likePattern } from "../db";
+import { pageParams } from "../http";
+import { isOwnImageUrl, thumbnailUrlFor } from "../images";
+import { getHome } from "../homes";
+import { getJob, heldVariationCredits, releaseVariationCredits } from "../jobs";
+import { PROJECT_COLUMNS, insertProject, type ProjectRow } from "../projects";
+import { projectVersionsRouter } from "./projectVersions";
+import { shareLinksRouter } from "./shareLinks";
+
+export const projectsRouter = Router();
+
+projectsRouter.use(requireUser);
+projectsRouter.use("/:projectId", projectVersionsRouter);
+projectsRouter.use("/:projectId/share", shareLinksRouter);
+
+const findProject = db.prepare<[string, string], Project>(`
+  SELECT ${PROJECT_COLUMNS} FROM projects WHERE id = ? AND user_id = ?
+`);
+
+const listFacet = (column: "style" | "room_type") =>
+  db.prepare<[string], { value: string }>(
+    `SELECT DISTINCT ${column} AS value FROM projects WHERE user_id = ? ORDER BY ${column} COLLATE NOCASE`
+  );
+const listStyleFacet = listFacet("style");
+const listRoomTypeFacet = listFacet("room_type");
+
+const renameProject = db.prepare("UPDATE projects SET title = ? WHERE id = ? AND user_id = ?");
+const setArchived = db.prepare(`
+  UPDATE projects SET archived_at = CASE WHEN @archived THEN COALESCE(archived_at, CURRENT_TIMESTAMP) END
+  WHERE id = @id AND user_id = @user_id
+`);
+const setHome = db.prepare("UPDATE projects SET home_id = ? WHERE id = ? AND user_id = ?");
+const deleteProject = db.prepare("DELETE FROM projects WHERE id = ? AND user_id = ?");
+
+export const DEFAULT_PAGE_SIZE = 24;
+export const MAX_PAGE_SIZE = 100;
+const MAX_TITLE_LENGTH = 80;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const SORTS: Record<string, string> = {
+  newest: "created_at DESC, rowid DESC",
+  oldest: "created_at ASC, rowid ASC",
+  title: "COALESCE(title, room_type) COLLATE NOCASE ASC, created_at DESC",
+  room_type: "room_type COLLATE NOCASE ASC, created_at DESC",
+  style: "style ASC, created_at DESC",
+};
+
+const stringParam = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+// Rows saved before analyses were checked may not hold valid JSON, and one such
+// row would make the JSON functions fail the whole search.
+const ANALYSIS_JSON = "CASE WHEN json_valid(analysis) THEN analysis ELSE '{}' END";
+
+// Matches the text of the analysis rather than its JSON, so searching for a
+// key such as "lighting" doesn't match every project.
+const SEARCH_CLAUSE = `(
+  COALESCE(title, '') LIKE @q ESCAPE '\\'
+  OR room_type LIKE @q ESCAPE '\\'
+  OR json_extract(${ANALYSIS_JSON}, '$.lighting') LIKE @q ESCAPE '\\'
+  OR EXISTS (SELECT 1 FROM json_each(${ANALYSIS_JSON}, '$.potentialImprovements') WHERE value LIKE @q ESCAPE '\\')
+  OR EXISTS (SELECT 1 FROM json_each(${ANALYSIS_JSON}, '$.shoppingList') WHERE json_extract(value, '$.description') LIKE @q ESCAPE '\\')
+)`;
+
+/**
+ * Builds the WHERE clause for the dashboard filters. `from` and `to` are
+ * inclusive calendar dates (YYYY-MM-DD); `q` searches the title, room type,
+ * lighting notes, suggested improvements and shopping list items.
+ */
+const projectFilters = (user_id: string, query: Request["query"]) => {
+  const clauses = ["user_id = @user_id"];
+  const params: Record<string, string> = { user_id };
+
+  clauses.push(query.archived === "1" ? "archived_at IS NOT NULL" : "archived_at IS NULL");
+
+  const q = stringParam(query.q);
+  if (q) {
+    clauses.push(SEARCH_CLAUSE);
+    params.q = likePattern(q);
+  }
+  for (const column of ["style", "room_type"] as const) {
+    const value = stringParam(query[column]);
+    if (value) {
+      clauses.push(`${column} = @${column}`);
+      params[column] = value;
+    }
+  }
+  const from = stringParam(query.from);
+  if (ISO_DATE.test(from)) {
+    clauses.push("date(created_at) >= @from");
+    params.from = from;
+  }
+  const to = stringParam(query.to);
+  if (ISO_DATE.test(to)) {
+    clauses.push("date(created_at) <= @to");
+    params.to = to;
+  }
+  return { where: clauses.join(" AND "), params };
+};
+
+// Each saved project costs one credit; variations from a job are paid for by
+// the credits it held, and the unsaved ones are refunded. The credit check and
+// the inserts share one transaction, so concurrent saves can never spend the
+// same credit and a batch is saved either completely or not at all.
+const saveProjects = db.transaction((user_id: string, projects: ProjectRow[], job_id: string | null) => {
+  const covered = job_id ? Math.min(heldVariationCredits(job_id, user_id), projects.length) : 0;
+  if (getBalance(user_id) < projects.length - covered) {
+    return false;
+  }
+  projects.forEach((project, i) => {
+    insertProject.run(project);
+    if (i >= covered) {
+      spendCredits(user_id, 1, { description: job_id ? "Saved variation" : "Saved design", project_id: project.id, job_id });
+    }
+  });
+  if (job_id) releaseVariationCredits(job_id, user_id, covered);
+  return true;
+});
+
+export const MAX_BATCH_SIZE = 4;
+
+const REQUIRED_FIELDS = ["id", "original_image", "redesigned_image", "style", "room_type", "analysis"] as const;
+
+// Paged, filtered list for the dashboard; see projectFilters for the query parameters.
+projectsRouter.get("/", (req, res) => {
+  const { where, params } = projectFilters(req.user!.id, req.query);
+  const sort = SORTS[stringParam(req.query.sort)] ?? SORTS.newest;
+  const { page, pageSize } = pageParams(req.query, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+  const { total } = db.prepare<Record<string, string>, { total: number }>(
+    `SELECT COUNT(*) AS total FROM projects WHERE ${where}`
+  ).get(params)!;
+  const projects = db.prepare<Record<string, string | number>, Project>(
+    `SELECT ${PROJECT_COLUMNS} FROM projects WHERE ${where} ORDER BY ${sort} LIMIT @limit OFFSET @offset`
+  ).all({ ...params, limit: pageSize, offset: (page - 1) * pageSize });
+
+  const result: ProjectPage = { projects, total, page, page_size: pageSize };
+  res.json(result);
+});
+
+// Values for the dashboard's style and room type filters.
+projectsRouter.get("/facets", (req, res) => {
+  const facets: ProjectFacets = {
+    styles: listStyleFacet.all(req.user!.id).map((r) => r.value),
+    room_types: listRoomTypeFacet.all(req.user!.id).map((r) => r.value),
+  };
+  res.json(facets);
+});
+
+projectsRouter.get("/:id", (req, res) => {
+  const project = findProject.get(req.params.id, req.user!.id);
+  if (!project) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  res.json(project);
+});
+
+// A printable PDF brief, rendered from the stored project on each request
+// in the `lang` the app is shown in (English by default).
+projectsRouter.get("/:id/brief", async (req, res, next) => {
+  try {
+    const project = findProject.get(req.params.id, req.user!.id);
+    if (!project) {
+      res.status(404).json({ error: "Project not found" });
+      return;
+    }
+    const language = isLanguage(req.query.lang) ? req.query.lang : "en";
+    const pdf = await renderProjectBrief(project, language);
+    const filename = `${project.room_type.replace(/[^a-z0-9]+/gi, "-").toLowerCase() || "room"}-design-brief.pdf`;
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+      "Cache-Control": "private, no-store",
+    });
+    res.send(pdf);
+  } catch (e) {
+    if (e instanceof MissingFontError) {
+      console.error(e.message);
+      res.status(503).json({ error: "PDF briefs in this language aren't available right now" });
+      return;
+    }
+    next(e);
+  }
+});
+
+// Renames, archives/unarchives and moves a project into or out of a home.
+// An empty title restores the default.
+projectsRouter.patch("/:id", (req, res) => {
+  const { title, archived, home_id } = req.body ?? {};
+  if (title !== undefined && title !== null && (typeof title !== "string" || title.trim().length > MAX_TITLE_LENGTH)) {
+    res.status(400).json({ error: `title must be at most ${MAX_TITLE_LENGTH} characters` });
+    return;
+  }
+  if (archived !== undefined && typeof archived !== "boolean") {
+    res.status(400).json({ error: "archived must be true or false" });
+    return;
+  }
+  if (home_id !== undefined && home_id !== null && (typeof home_id !== "string" || !getHome(home_id, req.user!.id))) {
+    res.status(400).json({ error: "Unknown home" });
+    return;
+  }
+  if (!findProject.get(req.params.id, req.user!.id)) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+
+  db.transaction(() => {
+    if (title !== undefined) {
+      renameProject.run(title?.trim() || null, req.params.id, req.user!.id);
+    }
+    if (archived !== undefined) {
+      setArchived.run({ archived: archived ? 1 : 0, id: req.params.id, user_id: req.user!.id });
+    }
+    if (home_id !== undefined) {
+      setHome.run(home_id, req.params.id, req.user!.id);
+    }
+  })();
+  res.json(findProject.get(req.params.id, req.user!.id));
+});
+
+// Versions, chat history and share links are removed with the project.
+projectsRouter.delete("/:id", (req, res) => {
+  if (deleteProject.run(req.params.id, req.user!.id).changes === 0) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Search and the shopping list read the analysis with SQLite's JSON functions,
+// and the model's shopping list is held to the same rules as the user's edits.
+const analysisError = (analysis: string): string | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(analysis);
+  } catch {
+    return "analysis must be a JSON object";
+  }
+  return roomAnalysisError(parsed);
+};
+
+const parseProject = async (body: any, user_id: string): Promise<ProjectRow | string> => {
+  const missing = REQUIRED_FIELDS.filter((field) => typeof body?.[field] !== "string" || !body[field]);
+  if (missing.length > 0) {
+    return `Missing fields: ${missing.join(", ")}`;
+  }
+  // Images must already be in storage (see POST /api/uploads); projects only hold their URLs.
+  if (!(await isOwnImageUrl(body.original_image, user_id)) || !(await isOwnImageUrl(body.redesigned_image, user_id))) {
+    return "original_image and redesigned_image must be uploaded file URLs";
+  }
+  const invalidAnalysis = analysisError(body.analysis);
+  if (invalidAnalysis) {
+    return invalidAnalysis;
+  }
+  const home_id = typeof body.home_id === "string" ? body.home_id : null;
+  if (home_id && !getHome(home_id, user_id)) {
+    return "Unknown home";
+  }
+  return {
+    id: body.id,
+    user_id,
+    original_image: body.original_image,
+    original_thumbnail: thumbnailUrlFor(body.original_image),
+    redesigned_image: body.redesigned_image,
+    redesigned_thumbnail: thumbnailUrlFor(body.redesigned_image),
+    style: body.style,
+    room_type: body.room_type,
+    analysis: body.analysis,
+    home_id,
+  };
+};
+
+const handleSave = async (req: Request, res: Response, next: NextFunction, bodies: unknown[], job_id: string | null = null) => {
+  const projects: ProjectRow[] = [];
+  for (const body of bodies) {
+    const project = await parseProject(body, req.user!.id);
+    if (typeof project === "string") {
+      res.status(400).json({ error: project });
+      return;
+    }
+    projects.push(project);
+  }
+
+  try {
+    if (!saveProjects(req.user!.id, projects, job_id)) {
+      res.status(402).json({ error: "No credits left" });
+      return;
+    }
+  } catch (e: any) {
+    if (e.code === "SQLITE_CONSTRAINT_PRIMARYKEY") {
+      res.status(409).json({ error: "Project already exists" });
+      return;
+    }
+    return next(e);
+  }
+
+  res.status(201).json({ ids: projects.map((p) => p.id) });
+};
+
+// Saves several variations from one run, charging one credit each. The run's
+// job id, when given, is recorded against the charges in the credit ledger.
+projectsRouter.post("/batch", (req, res, next) => {
+  const bodies = req.body?.projects;
+  if (!Array.isArray(bodies) || bodies.length === 0 || bodies.length > MAX_BATCH_SIZE) {
+    res.status(400).json({ error: `projects must be a list of 1 to ${MAX_BATCH_SIZE} projects` });
+    return;
+  }
+  const jobId = req.body.job_id;
+  const job = typeof jobId === "string" ? getJob(jobId, req.user!.id) : null;
+  handleSave(req, res, next, bodies, job?.id ?? null).catch(next);
+});
+
+// An unreadable analysis is replaced rather than failing json_set; nothing in it could be shown anyway.
+const updateShoppingList = db.prepare(`
+  UPDATE projects SET analysis = json_set(${ANALYSIS_JSON}, '$.shoppingList', json(?)) WHERE id = ? AND user_id = ?
+`);
+
+// Saves the user's edits to the bill of materials inside the stored analysis.
+// Every item is checked before anything is written.
+projectsRouter.put("/:id/shopping-list", (req, res) => {
+  const items: unknown = req.body?.items;
+  if (!isShoppingList(items)) {
+    res.status(400).json({ error: shoppingListError("items") });
+    return;
+  }
+  const parsed = items.map(parseShoppingItem);
+
+  if (updateShoppingList.run(JSON.stringify(parsed), req.params.id, req.user!.id).changes === 0) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  res.json(parsed);
+});
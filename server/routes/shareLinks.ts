@@ -0,0 +1,47 @@
+import { Router, type Request } from "express";
+import { db } from "../db";
+import { getShareLink, revokeShareLinks, shareProject } from "../shareLinks";
+
+// Mounted at /api/projects/:projectId/share behind requireUser.
+export const shareLinksRouter = Router({ mergeParams: true });
+
+const MAX_EXPIRY_DAYS = 365;
+
+const projectIdOf = (req: Request) => (req.params as { projectId: string }).projectId;
+
+const findOwnedProject = db.prepare<[string, string], { id: string; hidden_at: string | null }>(
+  "SELECT id, hidden_at FROM projects WHERE id = ? AND user_id = ?"
+);
+
+const isOwnProject = (req: Request) => !!findOwnedProject.get(projectIdOf(req), req.user!.id);
+
+shareLinksRouter.use((req, res, next) => {
+  if (!isOwnProject(req)) {
+    res.status(404).json({ error: "Project not found" });
+    return;
+  }
+  next();
+});
+
+shareLinksRouter.get("/", (req, res) => {
+  res.json(getShareLink(projectIdOf(req)));
+});
+
+// Creates the project's public link, or changes the expiry of the existing one.
+shareLinksRouter.post("/", (req, res) => {
+  if (findOwnedProject.get(projectIdOf(req), req.user!.id)?.hidden_at) {
+    res.status(409).json({ error: "A moderator hid this design, so it can't be shared" });
+    return;
+  }
+  const days = req.body?.expires_in_days ?? null;
+  if (days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRY_DAYS)) {
+    res.status(400).json({ error: `expires_in_days must be null or 1-${MAX_EXPIRY_DAYS}` });
+    return;
+  }
+  res.json(shareProject(projectIdOf(req), days));
+});
+
+shareLinksRouter.delete("/", (req, res) => {
+  revokeShareLinks(projectIdOf(req));
+  res.status(204).end();
+});
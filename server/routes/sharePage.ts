@@ -0,0 +1,209 @@
+import express, { Router, type Request } from "express";
+import { LANGUAGES, LANGUAGE_INFO, isLanguage, translate, type Language, type MessageKey } from "../../services/i18n";
+import type { Project } from "../../types";
+import { sessionUser } from "../auth";
+import { escapeHtml } from "../http";
+import { FLAG_REASONS, flagProject, type FlagReason } from "../moderation";
+import { parseAnalysis } from "../projects";
+import { findSharedProjectByToken, publicUrl } from "../shareLinks";
+import { styleNameFor } from "../styles";
+
+// Public, unauthenticated pages for shared projects, rendered on the server so
+// link previews (WhatsApp, Slack, social networks) can read the Open Graph tags.
+export const sharePageRouter = Router();
+
+// Projects a signed-out visitor may report per window, so one visitor can't
+// flood the moderation queue; signed-in reporters get one open report per project.
+// Visitors are told apart by req.ip, so behind a proxy TRUST_PROXY must be set.
+const GUEST_REPORT_LIMIT = 5;
+const GUEST_WINDOW_MS = 60 * 60 * 1000;
+
+const guestReports = new Map<string, { projects: Set<string>; resets: number }>();
+
+/** "new" for a report to record, "repeat" for one this visitor already sent, "limited" past the limit. */
+const takeGuestReport = (ip: string, project_id: string): "new" | "repeat" | "limited" => {
+  const now = Date.now();
+  const entry = guestReports.get(ip);
+  if (!entry || entry.resets <= now) {
+    for (const [key, old] of guestReports) if (old.resets <= now) guestReports.delete(key);
+    guestReports.set(ip, { projects: new Set([project_id]), resets: now + GUEST_WINDOW_MS });
+    return "new";
+  }
+  if (entry.projects.has(project_id)) return "repeat";
+  if (entry.projects.size >= GUEST_REPORT_LIMIT) return "limited";
+  entry.projects.add(project_id);
+  return "new";
+};
+
+const REASON_LABELS: Record<FlagReason, MessageKey> = {
+  "Nudity or sexual content": "sharePage.reason.nudity",
+  "Violent or hateful content": "sharePage.reason.violence",
+  "Someone else's photo or design": "sharePage.reason.someoneElse",
+  "Spam or advertising": "sharePage.reason.spam",
+  "Something else": "sharePage.reason.other",
+};
+
+// An explicit ?lang= wins, and the page's own links and form keep it; otherwise
+// the visitor's browser languages decide.
+const languageFor = (req: Request): Language => {
+  if (isLanguage(req.query.lang)) return req.query.lang;
+  const accepted = req.acceptsLanguages(...LANGUAGES);
+  return isLanguage(accepted) ? accepted : "en";
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const PAGE_CSS = `
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, -apple-system, sans-serif; background: #030712; color: #f9fafb; }
+  main { max-width: 960px; margin: 0 auto; padding: 32px 20px 48px; }
+  .brand { color: #34d399; font-weight: 700; letter-spacing: .15em; font-size: 13px; text-decoration: none; }
+  h1 { font-family: Georgia, serif; font-size: 36px; margin: 16px 0 4px; }
+  .meta { color: #9ca3af; margin: 0 0 24px; }
+  .compare { position: relative; aspect-ratio: 4 / 3; border-radius: 24px; overflow: hidden; border: 1px solid #ffffff1a; background: #111827; }
+  .compare img { position: absolute; inset: 0; width: 100%; height: 100%; object-fit: cover; }
+  .compare .after { clip-path: inset(0 0 0 50%); }
+  .compare input { position: absolute; inset: 0; width: 100%; height: 100%; opacity: 0; cursor: ew-resize; margin: 0; }
+  .divider { position: absolute; top: 0; bottom: 0; left: 50%; width: 2px; background: #fff; pointer-events: none; }
+  .label { position: absolute; top: 16px; padding: 4px 12px; border-radius: 999px; background: #000000a0; font-size: 12px; font-weight: 700; letter-spacing: .1em; text-transform: uppercase; }
+  .label.before { left: 16px; } .label.after-label { right: 16px; }
+  ul { padding-left: 20px; color: #d1d5db; line-height: 1.6; }
+  h2 { font-size: 13px; color: #34d399; letter-spacing: .15em; text-transform: uppercase; margin-top: 32px; }
+  .report { margin-top: 40px; color: #9ca3af; font-size: 13px; }
+  .report summary { cursor: pointer; }
+  .report form { display: flex; flex-wrap: wrap; gap: 8px; margin-top: 12px; }
+  .report select, .report button { padding: 8px 12px; border-radius: 12px; border: 1px solid #ffffff1a; background: #111827; color: #f9fafb; font: inherit; }
+  .cta { display: inline-block; margin-top: 32px; padding: 12px 24px; border-radius: 999px; background: linear-gradient(90deg, #34d399, #06b6d4); color: #000; font-weight: 700; text-decoration: none; }
+`;
+
+const page = (language: Language, head: string, body: string) => `<!DOCTYPE html>
+<html lang="${LANGUAGE_INFO[language].locale}">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="robots" content="noindex" />
+${head}
+<style>${PAGE_CSS}</style>
+</head>
+<body><main><a class="brand" href="/">GRUHABUDDY</a>${body}</main></body>
+</html>`;
+
+const renderProject = (project: Project, token: string, language: Language) => {
+  const text = (key: MessageKey) => escapeHtml(translate(language, key));
+  const analysis = parseAnalysis(project);
+  const title =
+    project.title ||
+    translate(language, "sharePage.defaultTitle", { room: capitalize(project.room_type), style: styleNameFor(project.style, language) });
+  const description = analysis?.potentialImprovements?.length
+    ? analysis.potentialImprovements.slice(0, 3).join(" · ")
+    : translate(language, "sharePage.description");
+  const image = publicUrl(project.redesigned_image);
+
+  const head = [
+    `<title>${escapeHtml(title)} | GruhaBuddy</title>`,
+    `<meta name="description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:type" content="website" />`,
+    `<meta property="og:site_name" content="GruhaBuddy" />`,
+    `<meta property="og:title" content="${escapeHtml(title)}" />`,
+    `<meta property="og:description" content="${escapeHtml(description)}" />`,
+    `<meta property="og:url" content="${escapeHtml(publicUrl(`/s/${token}`))}" />`,
+    `<meta property="og:locale" content="${LANGUAGE_INFO[language].locale.replace("-", "_")}" />`,
+    `<meta property="og:image" content="${escapeHtml(image)}" />`,
+    `<meta name="twitter:card" content="summary_large_image" />`,
+  ].join("\n");
+
+  const improvements = analysis?.potentialImprovements?.length
+    ? `<h2>${text("sharePage.ideas")}</h2><ul>${analysis.potentialImprovements.map((i) => `<li>${escapeHtml(i)}</li>`).join("")}</ul>`
+    : "";
+
+  // The slider works without script as a plain 50/50 split; the script only makes it draggable.
+  const body = `
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">${text("sharePage.sharedOn")}</p>
+<div class="compare">
+  <img src="${escapeHtml(project.original_image)}" alt="${text("design.before")}" />
+  <img class="after" src="${escapeHtml(project.redesigned_image)}" alt="${text("design.after")}" />
+  <div class="divider"></div>
+  <span class="label before">${text("design.before")}</span><span class="label after-label">${text("design.after")}</span>
+  <input type="range" min="0" max="100" value="50" aria-label="${text("sharePage.compare")}" />
+</div>
+${improvements}
+<a class="cta" href="/">${text("sharePage.cta")}</a>
+<details class="report">
+  <summary>${text("sharePage.report")}</summary>
+  <form method="post" action="/s/${escapeHtml(token)}/report?lang=${language}">
+    <select name="reason" aria-label="${text("sharePage.reason")}" required>
+      ${FLAG_REASONS.map((reason) => `<option value="${escapeHtml(reason)}">${text(REASON_LABELS[reason])}</option>`).join("")}
+    </select>
+    <button type="submit">${text("sharePage.sendReport")}</button>
+  </form>
+</details>
+<script>
+  const slider = document.querySelector(".compare input");
+  slider.addEventListener("input", () => {
+    document.querySelector(".compare .after").style.clipPath = "inset(0 0 0 " + slider.value + "%)";
+    document.querySelector(".compare .divider").style.left = slider.value + "%";
+  });
+</script>`;
+
+  return page(language, head, body);
+};
+
+type MessagePage = "gone" | "limited" | "reported";
+
+// A short page with a heading, a line of explanation and one link onward.
+const messagePage = (language: Language, name: MessagePage, link: { href: string; label: MessageKey }) => {
+  const text = (part: string) => escapeHtml(translate(language, `sharePage.${name}.${part}` as MessageKey));
+  return page(
+    language,
+    `<title>${text("title")} | GruhaBuddy</title>`,
+    `<h1>${text("heading")}</h1>
+<p class="meta">${text("message")}</p>
+<a class="cta" href="${escapeHtml(link.href)}">${escapeHtml(translate(language, link.label))}</a>`
+  );
+};
+
+const gonePage = (language: Language) => messagePage(language, "gone", { href: "/", label: "sharePage.gone.cta" });
+
+const backToDesign = (token: string, language: Language) => ({ href: `/s/${token}?lang=${language}`, label: "sharePage.back" as const });
+
+const tooManyReportsPage = (token: string, language: Language) => messagePage(language, "limited", backToDesign(token, language));
+
+const reportedPage = (token: string, language: Language) => messagePage(language, "reported", backToDesign(token, language));
+
+sharePageRouter.get("/:token", (req, res) => {
+  const project = findSharedProjectByToken(req.params.token);
+  const language = languageFor(req);
+  // Revoked and expired links look the same as links that never existed.
+  res.set("Cache-Control", "no-store").vary("Accept-Language");
+  if (!project) {
+    res.status(404).type("html").send(gonePage(language));
+    return;
+  }
+  res.type("html").send(renderProject(project, req.params.token, language));
+});
+
+// The report form posts here; it is a plain HTML form so it works without script.
+sharePageRouter.post("/:token/report", express.urlencoded({ extended: false, limit: "4kb" }), (req, res) => {
+  const project = findSharedProjectByToken(req.params.token);
+  const language = languageFor(req);
+  res.set("Cache-Control", "no-store").vary("Accept-Language");
+  if (!project) {
+    res.status(404).type("html").send(gonePage(language));
+    return;
+  }
+  const reason = req.body?.reason;
+  if (!FLAG_REASONS.includes(reason)) {
+    res.status(400).type("html").send(renderProject(project, req.params.token, language));
+    return;
+  }
+  // Signed-in visitors are recorded as the reporter.
+  const reporter = sessionUser(req);
+  const guest = reporter ? null : takeGuestReport(req.ip ?? "", project.id);
+  if (guest === "limited") {
+    res.status(429).type("html").send(tooManyReportsPage(req.params.token, language));
+    return;
+  }
+  if (guest !== "repeat") flagProject(project.id, reason, reporter?.id ?? null);
+  res.type("html").send(reportedPage(req.params.token, language));
+});
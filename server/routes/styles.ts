@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import { Router } from "express";
+import type { CustomStyle } from "../../types";
+import { requireUser } from "../auth";
+import { db } from "../db";
+import { isOwnImageUrl } from "../images";
+import { grantTeamStyleAccess, isTeamMember } from "../teams";
+
+export const stylesRouter = Router();
+
+stylesRouter.use(requireUser);
+
+const MAX_PALETTE_COLORS = 6;
+const MAX_REFERENCE_IMAGES = 3;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+type StyleRow = Omit<CustomStyle, "palette" | "reference_images"> & { palette: string; reference_images: string };
+
+const fromRow = (row: StyleRow): CustomStyle => ({
+  ...row,
+  palette: JSON.parse(row.palette),
+  reference_images: JSON.parse(row.reference_images),
+});
+
+// A user sees their own styles plus every style shared with a team they belong to.
+const listStyles = db.prepare<{ user_id: string }, StyleRow>(`
+  SELECT s.id, s.owner_id, s.team_id, t.name AS team_name, s.name, s.description, s.palette, s.reference_images, s.created_at
+  FROM styles s LEFT JOIN teams t ON t.id = s.team_id
+  WHERE s.owner_id = @user_id
+     OR s.team_id IN (SELECT team_id FROM team_members WHERE user_id = @user_id)
+  ORDER BY s.created_at DESC
+`);
+
+const insertStyle = db.prepare(`
+  INSERT INTO styles (id, owner_id, team_id, name, description, palette, reference_images)
+  VALUES (@id, @owner_id, @team_id, @name, @description, @palette, @reference_images)
+`);
+
+const deleteStyle = db.prepare("DELETE FROM styles WHERE id = ? AND owner_id = ?");
+const unshareStyle = db.prepare("UPDATE styles SET team_id = NULL WHERE id = ? AND owner_id = ?");
+
+stylesRouter.get("/", (req, res) => {
+  res.json(listStyles.all({ user_id: req.user!.id }).map(fromRow));
+});
+
+stylesRouter.post("/", async (req, res, next) => {
+  const body = req.body ?? {};
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  const description = typeof body.description === "string" ? body.description.trim() : "";
+  const palette: unknown[] = Array.isArray(body.palette) ? body.palette : [];
+  const referenceImages: unknown[] = Array.isArray(body.reference_images) ? body.reference_images : [];
+  const teamId = typeof body.team_id === "string" && body.team_id ? body.team_id : null;
+
+  if (!name || name.length > 60) {
+    res.status(400).json({ error: "Style name must be 1-60 characters" });
+    return;
+  }
+  if (!description || description.length > 500) {
+    res.status(400).json({ error: "Description must be 1-500 characters" });
+    return;
+  }
+  if (palette.length > MAX_PALETTE_COLORS || !palette.every((c) => typeof c === "string" && HEX_COLOR.test(c))) {
+    res.status(400).json({ error: `Palette must be up to ${MAX_PALETTE_COLORS} hex colours like #a1b2c3` });
+    return;
+  }
+  if (referenceImages.length > MAX_REFERENCE_IMAGES || !referenceImages.every((url) => typeof url === "string")) {
+    res.status(400).json({ error: `Add up to ${MAX_REFERENCE_IMAGES} reference images` });
+    return;
+  }
+  if (teamId && !isTeamMember(teamId, req.user!.id)) {
+    res.status(403).json({ error: "You can only share styles with your own teams" });
+    return;
+  }
+
+  try {
+    for (const url of referenceImages as string[]) {
+      if (!(await isOwnImageUrl(url, req.user!.id))) {
+        res.status(400).json({ error: "Reference images must be uploaded file URLs" });
+        return;
+      }
+    }
+
+    const id = "style_" + crypto.randomBytes(8).toString("hex");
+    insertStyle.run({
+      id,
+      owner_id: req.user!.id,
+      team_id: teamId,
+      name,
+      description,
+      palette: JSON.stringify(palette),
+      reference_images: JSON.stringify(referenceImages),
+    });
+    if (teamId) grantTeamStyleAccess(teamId);
+    res.status(201).json(listStyles.all({ user_id: req.user!.id }).map(fromRow).find((s) => s.id === id));
+  } catch (e) {
+    next(e);
+  }
+});
+
+stylesRouter.delete("/:id", (req, res) => {
+  if (deleteStyle.run(req.params.id, req.user!.id).changes === 0) {
+    res.status(404).json({ error: "Style not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Takes a style out of its team's library; only its owner can.
+stylesRouter.delete("/:id/share", (req, res) => {
+  if (unshareStyle.run(req.params.id, req.user!.id).changes === 0) {
+    res.status(404).json({ error: "Style not found" });
+    return;
+  }
+  res.json(listStyles.all({ user_id: req.user!.id }).map(fromRow).find((s) => s.id === req.params.id));
+});
@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import { Router } from "express";
+import type { Team } from "../../types";
+import { requireUser } from "../auth";
+import { db } from "../db";
+import { grantTeamStyleAccess } from "../teams";
+
+export const teamsRouter = Router();
+
+teamsRouter.use(requireUser);
+
+const listTeams = db.prepare<[string], Team>(`
+  SELECT t.id, t.name, t.invite_code, m.role
+  FROM teams t JOIN team_members m ON m.team_id = t.id
+  WHERE m.user_id = ? ORDER BY t.name
+`);
+
+const insertTeam = db.prepare("INSERT INTO teams (id, name, invite_code) VALUES (?, ?, ?)");
+const insertMember = db.prepare("INSERT OR IGNORE INTO team_members (team_id, user_id, role) VALUES (?, ?, ?)");
+const findTeamByCode = db.prepare<[string], { id: string }>("SELECT id FROM teams WHERE invite_code = ?");
+const deleteMember = db.prepare("DELETE FROM team_members WHERE team_id = ? AND user_id = ?");
+const unshareMemberStyles = db.prepare("UPDATE styles SET team_id = NULL WHERE team_id = ? AND owner_id = ?");
+const promoteLongestMember = db.prepare(`
+  UPDATE team_members SET role = 'owner'
+  WHERE rowid = (SELECT rowid FROM team_members WHERE team_id = @team_id ORDER BY rowid LIMIT 1)
+    AND NOT EXISTS (SELECT 1 FROM team_members WHERE team_id = @team_id AND role = 'owner')
+`);
+const deleteEmptyTeam = db.prepare(
+  "DELETE FROM teams WHERE id = @team_id AND NOT EXISTS (SELECT 1 FROM team_members WHERE team_id = @team_id)"
+);
+
+const createTeam = db.transaction((name: string, ownerId: string) => {
+  const id = "team_" + crypto.randomBytes(8).toString("hex");
+  insertTeam.run(id, name, crypto.randomBytes(6).toString("base64url"));
+  insertMember.run(id, ownerId, "owner");
+  return id;
+});
+
+// The styles the member shared go back to being private to them. A team left
+// without an owner passes to its longest-standing member; an empty one is deleted.
+const leaveTeam = db.transaction((team_id: string, userId: string) => {
+  if (deleteMember.run(team_id, userId).changes === 0) return false;
+  unshareMemberStyles.run(team_id, userId);
+  promoteLongestMember.run({ team_id });
+  deleteEmptyTeam.run({ team_id });
+  return true;
+});
+
+teamsRouter.get("/", (req, res) => {
+  res.json(listTeams.all(req.user!.id));
+});
+
+teamsRouter.post("/", (req, res) => {
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!name || name.length > 80) {
+    res.status(400).json({ error: "Team name must be 1-80 characters" });
+    return;
+  }
+  createTeam(name, req.user!.id);
+  res.status(201).json(listTeams.all(req.user!.id));
+});
+
+teamsRouter.post("/join", (req, res) => {
+  const code = typeof req.body?.invite_code === "string" ? req.body.invite_code.trim() : "";
+  const team = code ? findTeamByCode.get(code) : undefined;
+  if (!team) {
+    res.status(404).json({ error: "No team found for that invite code" });
+    return;
+  }
+  insertMember.run(team.id, req.user!.id, "member");
+  grantTeamStyleAccess(team.id);
+  res.json(listTeams.all(req.user!.id));
+});
+
+teamsRouter.post("/:id/leave", (req, res) => {
+  if (!leaveTeam(req.params.id, req.user!.id)) {
+    res.status(404).json({ error: "Team not found" });
+    return;
+  }
+  res.json(listTeams.all(req.user!.id));
+});
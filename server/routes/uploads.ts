@@ -0,0 +1,40 @@
+import { Router } from "express";
+import multer from "multer";
+import { requireUser } from "../auth";
+import { UnsupportedImageError, grantFileAccess, storeImage } from "../images";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const uploadsRouter = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+});
+
+uploadsRouter.post("/", requireUser, (req, res, next) => {
+  upload.single("image")(req, res, async (err) => {
+    if (err instanceof multer.MulterError) {
+      const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+      res.status(status).json({ error: err.code === "LIMIT_FILE_SIZE" ? "Images must be 10MB or smaller" : err.message });
+      return;
+    }
+    if (err) return next(err);
+    if (!req.file) {
+      res.status(400).json({ error: "Expected an image file in the \"image\" field" });
+      return;
+    }
+
+    try {
+      const stored = await storeImage(req.file.buffer);
+      grantFileAccess(req.user!.id, [stored.url]);
+      res.status(201).json(stored);
+    } catch (e) {
+      if (e instanceof UnsupportedImageError) {
+        res.status(415).json({ error: e.message });
+        return;
+      }
+      next(e);
+    }
+  });
+});
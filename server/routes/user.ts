@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { requireUser } from "../auth";
+
+export const userRouter = Router();
+
+userRouter.get("/", requireUser, (req, res) => {
+  res.json(req.user);
+});
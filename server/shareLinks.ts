@@ -0,0 +1,81 @@
+import crypto from "crypto";
+import type { Project, ShareLink } from "../types";
+import { db } from "./db";
+import { PROJECT_COLUMNS } from "./projects";
+
+// expires_at is stored as an ISO string (see toISOString), so it compares as text against this.
+const NOW_ISO = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')";
+const ACTIVE = `revoked_at IS NULL AND (expires_at IS NULL OR expires_at > ${NOW_ISO})`;
+
+interface ShareLinkRow {
+  token: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+const findActiveLink = db.prepare<[string], ShareLinkRow>(`
+  SELECT token, expires_at, created_at FROM share_links WHERE project_id = ? AND ${ACTIVE}
+  ORDER BY created_at DESC LIMIT 1
+`);
+
+const insertLink = db.prepare("INSERT INTO share_links (token, project_id, expires_at) VALUES (?, ?, ?)");
+const updateExpiry = db.prepare("UPDATE share_links SET expires_at = ? WHERE token = ?");
+const revokeLinks = db.prepare(`UPDATE share_links SET revoked_at = ${NOW_ISO} WHERE project_id = ? AND revoked_at IS NULL`);
+
+const findSharedProject = db.prepare<[string], Project>(`
+  SELECT ${PROJECT_COLUMNS} FROM projects
+  WHERE id = (SELECT project_id FROM share_links WHERE token = ? AND ${ACTIVE}) AND hidden_at IS NULL
+`);
+
+// Only the images the share page shows are published with the link.
+const findSharedImage = db.prepare<{ url: string }, { id: string }>(`
+  SELECT p.id FROM share_links s JOIN projects p ON p.id = s.project_id
+  WHERE ${ACTIVE} AND p.hidden_at IS NULL
+    AND @url IN (p.original_image, p.original_thumbnail, p.redesigned_image, p.redesigned_thumbnail)
+  LIMIT 1
+`);
+
+/** Absolute URL of a public page, based on APP_URL. */
+export const publicUrl = (path: string) => new URL(path, process.env.APP_URL || "http://localhost:3000").toString();
+
+const toShareLink = (row: ShareLinkRow): ShareLink => ({
+  token: row.token,
+  url: publicUrl(`/s/${row.token}`),
+  expires_at: row.expires_at,
+  created_at: row.created_at,
+});
+
+export function getShareLink(project_id: string): ShareLink | null {
+  const row = findActiveLink.get(project_id);
+  return row ? toShareLink(row) : null;
+}
+
+/**
+ * Returns the project's public link, creating one if needed. An existing link
+ * keeps its URL and only has its expiry changed.
+ */
+export const shareProject = db.transaction((project_id: string, expiresInDays: number | null): ShareLink => {
+  const expires_at = expiresInDays === null ? null : new Date(Date.now() + expiresInDays * 86_400_000).toISOString();
+  const existing = findActiveLink.get(project_id);
+  if (existing) {
+    updateExpiry.run(expires_at, existing.token);
+  } else {
+    // 128 random bits: short enough to paste, impossible to guess.
+    insertLink.run(crypto.randomBytes(16).toString("base64url"), project_id, expires_at);
+  }
+  return toShareLink(findActiveLink.get(project_id)!);
+});
+
+export function revokeShareLinks(project_id: string) {
+  revokeLinks.run(project_id);
+}
+
+/** The project behind a public link, or null if the link is unknown, revoked or expired, or the project is hidden. */
+export function findSharedProjectByToken(token: string): Project | null {
+  return findSharedProject.get(token) ?? null;
+}
+
+/** Whether a stored image is public through an active link to a project that isn't hidden. */
+export function isSharedImage(url: string): boolean {
+  return findSharedImage.get({ url }) !== undefined;
+}
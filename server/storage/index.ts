@@ -0,0 +1,6 @@
+import { createLocalDiskStorage } from "./local";
+import type { BlobStorage } from "./types";
+
+export type { BlobStorage } from "./types";
+
+export const storage: BlobStorage = createLocalDiskStorage(process.env.UPLOAD_DIR || "uploads");
@@ -0,0 +1,46 @@
+import fs from "fs/promises";
+import path from "path";
+import type { BlobStorage } from "./types";
+
+export function createLocalDiskStorage(root: string): BlobStorage {
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    async put(key, data) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Write then rename so readers never see a half-written file.
+      const tmp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tmp, data);
+      await fs.rename(tmp, file);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (e: any) {
+        if (e.code === "ENOENT") return null;
+        throw e;
+      }
+    },
+
+    async exists(key) {
+      try {
+        await fs.access(resolve(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
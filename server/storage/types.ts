@@ -0,0 +1,10 @@
+/**
+ * Flat key/value storage for binary files. Keys are relative paths such as
+ * `ab12….jpg` or `thumbs/ab12….webp`.
+ */
+export interface BlobStorage {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
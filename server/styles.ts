@@ -0,0 +1,11 @@
+import { STYLES } from "../constants";
+import { translate, type Language, type MessageKey } from "../services/i18n";
+import { db } from "./db";
+
+const findCustomStyleName = db.prepare<[string], { name: string }>("SELECT name FROM styles WHERE id = ?");
+
+/** Display name for a preset or custom style id in `language`, for server-rendered output. */
+export function styleNameFor(id: string, language: Language = "en"): string {
+  if (STYLES.some((s) => s.id === id)) return translate(language, `style.${id}.name` as MessageKey);
+  return findCustomStyleName.get(id)?.name ?? translate(language, "style.deleted");
+}
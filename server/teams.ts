@@ -0,0 +1,25 @@
+import { db } from "./db";
+import { grantFileAccess } from "./images";
+
+const membership = db.prepare<[string, string], { role: string }>(
+  "SELECT role FROM team_members WHERE team_id = ? AND user_id = ?"
+);
+
+export function isTeamMember(teamId: string, userId: string): boolean {
+  return membership.get(teamId, userId) !== undefined;
+}
+
+const teamStyleImages = db.prepare<{ team_id: string | null }, { user_id: string; url: string }>(`
+  SELECT m.user_id, r.value AS url
+  FROM styles s JOIN team_members m ON m.team_id = s.team_id, json_each(s.reference_images) r
+  WHERE @team_id IS NULL OR s.team_id = @team_id
+`);
+
+/**
+ * Lets every member of a team read the reference images of the styles shared
+ * with it, so teammates can see and design with them. Runs whenever a style is
+ * shared or someone joins; without a team, for every team (at startup).
+ */
+export const grantTeamStyleAccess = db.transaction((team_id: string | null = null) => {
+  for (const { user_id, url } of teamStyleImages.all({ team_id })) grantFileAccess(user_id, [url]);
+});
@@ -0,0 +1,53 @@
+import { readError } from "./http";
+import type { AdminUser, AdminUserPage, ModerationPage, UsageMetrics } from "../types";
+
+export type ModerationAction = "hide" | "unhide" | "dismiss" | "delete";
+
+export async function fetchAdminUsers(query: string, page: number, pageSize: number): Promise<AdminUserPage> {
+  const params = new URLSearchParams({ q: query, page: String(page), page_size: String(pageSize) });
+  const res = await fetch(`/api/admin/users?${params}`);
+  if (!res.ok) {
+    throw new Error("Failed to load users: " + await readError(res));
+  }
+  return res.json();
+}
+
+/** Adds (positive `amount`) or removes credits; `note` appears in the user's credit history. */
+export async function adjustUserCredits(userId: string, amount: number, note: string): Promise<AdminUser> {
+  const res = await fetch(`/api/admin/users/${encodeURIComponent(userId)}/credits`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ amount, note })
+  });
+  if (!res.ok) {
+    throw new Error("Failed to adjust credits: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function fetchUsageMetrics(days: number): Promise<UsageMetrics> {
+  const res = await fetch(`/api/admin/metrics?${new URLSearchParams({ days: String(days) })}`);
+  if (!res.ok) {
+    throw new Error("Failed to load usage: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function fetchModerationQueue(status: "reported" | "hidden", page: number, pageSize: number): Promise<ModerationPage> {
+  const params = new URLSearchParams({ status, page: String(page), page_size: String(pageSize) });
+  const res = await fetch(`/api/admin/moderation?${params}`);
+  if (!res.ok) {
+    throw new Error("Failed to load reports: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function moderateProject(projectId: string, action: ModerationAction): Promise<void> {
+  const path = `/api/admin/moderation/${encodeURIComponent(projectId)}`;
+  const res = action === "delete"
+    ? await fetch(path, { method: "DELETE" })
+    : await fetch(`${path}/${action}`, { method: "POST" });
+  if (!res.ok) {
+    throw new Error("Failed to update the project: " + await readError(res));
+  }
+}
@@ -0,0 +1,47 @@
+import { readError } from "./http";
+import type { Checkout, CreditPlan, CreditTransactionPage } from "../types";
+
+export type PurchaseStatus = "paid" | "failed" | "canceled" | "pending";
+
+export async function fetchCreditPlans(): Promise<CreditPlan[]> {
+  const res = await fetch("/api/credits/plans");
+  if (!res.ok) {
+    throw new Error("Failed to load plans: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function fetchCreditTransactions(page: number, pageSize: number): Promise<CreditTransactionPage> {
+  const params = new URLSearchParams({ page: String(page), page_size: String(pageSize) });
+  const res = await fetch(`/api/credits/transactions?${params}`);
+  if (!res.ok) {
+    throw new Error("Failed to load credit history: " + await readError(res));
+  }
+  return res.json();
+}
+
+/**
+ * Opens an order for a plan. Send the user to `checkout_url`; the payment
+ * provider brings them back to the app with `?purchase=<status>`.
+ */
+export async function startCheckout(planId: string): Promise<Checkout> {
+  const res = await fetch("/api/credits/checkout", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ plan_id: planId })
+  });
+  if (!res.ok) {
+    throw new Error("Failed to start checkout: " + await readError(res));
+  }
+  return res.json();
+}
+
+/** Reads and clears the purchase outcome the checkout return left in the URL. */
+export function takePurchaseStatus(): PurchaseStatus | null {
+  const url = new URL(window.location.href);
+  const status = url.searchParams.get("purchase");
+  if (!status) return null;
+  url.searchParams.delete("purchase");
+  window.history.replaceState(null, "", url);
+  return ["paid", "failed", "canceled", "pending"].includes(status) ? (status as PurchaseStatus) : null;
+}
@@ -0,0 +1,26 @@
+import { AIServiceError, type AIErrorKind } from "./errors";
+import { t } from "./i18n";
+import { InsufficientCreditsError } from "./projectsApi";
+
+export type ErrorCategory = AIErrorKind | "credits" | "unknown";
+
+export interface ErrorDescription {
+  category: ErrorCategory;
+  title: string;
+  message: string;
+}
+
+/** Turns any thrown value into copy suitable for an inline error message. */
+export function describeError(e: unknown): ErrorDescription {
+  if (e instanceof AIServiceError) {
+    return { category: e.kind, title: t(`error.${e.kind}.title`), message: t(`error.${e.kind}.message`) };
+  }
+  if (e instanceof InsufficientCreditsError) {
+    return { category: "credits", title: t("error.credits.title"), message: t("error.credits.message") };
+  }
+  return {
+    category: "unknown",
+    title: t("error.unknown.title"),
+    message: e instanceof Error && e.message ? e.message : t("error.unknown.message"),
+  };
+}
@@ -0,0 +1,70 @@
+export type AIErrorKind = "invalid-room" | "auth" | "quota" | "safety-blocked" | "transient" | "timeout";
+
+/**
+ * Base class for failures from the image AI layer. Providers translate their
+ * own errors into one of the subclasses below so callers can branch on `kind`
+ * instead of matching message text.
+ */
+export class AIServiceError extends Error {
+  readonly kind: AIErrorKind;
+  /** Whether repeating the same call may succeed. */
+  readonly retryable: boolean;
+
+  constructor(kind: AIErrorKind, message: string, options?: { cause?: unknown; retryable?: boolean }) {
+    super(message, { cause: options?.cause });
+    this.name = "AIServiceError";
+    this.kind = kind;
+    this.retryable = options?.retryable ?? false;
+  }
+}
+
+/** The photo is not of an interior room. */
+export class InvalidRoomError extends AIServiceError {
+  constructor(message = "This doesn't look like a room.", options?: { cause?: unknown }) {
+    super("invalid-room", message, options);
+    this.name = "InvalidRoomError";
+  }
+}
+
+/** The API key is missing, invalid, or lacks access to the model. */
+export class AuthError extends AIServiceError {
+  constructor(message = "The AI service rejected the API key.", options?: { cause?: unknown }) {
+    super("auth", message, options);
+    this.name = "AuthError";
+  }
+}
+
+/** Rate limit or billing quota exhausted. */
+export class QuotaError extends AIServiceError {
+  constructor(message = "The AI service quota has been used up.", options?: { cause?: unknown }) {
+    super("quota", message, options);
+    this.name = "QuotaError";
+  }
+}
+
+/** The model refused the request or its output on safety grounds. */
+export class SafetyBlockedError extends AIServiceError {
+  constructor(message = "The request was blocked by the AI safety filters.", options?: { cause?: unknown }) {
+    super("safety-blocked", message, options);
+    this.name = "SafetyBlockedError";
+  }
+}
+
+/** A temporary failure such as a network drop or a 5xx from the provider. */
+export class TransientError extends AIServiceError {
+  constructor(message = "The AI service is temporarily unavailable.", options?: { cause?: unknown }) {
+    super("transient", message, { ...options, retryable: true });
+    this.name = "TransientError";
+  }
+}
+
+export class TimeoutError extends AIServiceError {
+  constructor(message = "The AI service took too long to respond.", options?: { cause?: unknown }) {
+    super("timeout", message, { ...options, retryable: true });
+    this.name = "TimeoutError";
+  }
+}
+
+export function isRetryable(e: unknown): boolean {
+  return e instanceof AIServiceError && e.retryable;
+}
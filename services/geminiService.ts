@@ -0,0 +1,194 @@
+import { loadImageAsDataUrl } from "./imageData";
+import { withRetry, withTimeout } from "./retry";
+import type { Language } from "./i18n/languages";
+import { getImageProvider } from "./providers";
+import type { HomeContext, RedesignPlan, RefineRoomResult, RoomAnalysis, RoomSurvey, Variation } from "./providers/types";
+import { toStyleSpec, type StyleInput, type StyleSpec } from "./styles";
+
+export type { HomeContext, RedesignPlan, RefineRoomResult, RoomAnalysis, RoomSurvey } from "./providers/types";
+export type { StyleInput, StyleSpec } from "./styles";
+export * from "./errors";
+
+const ANALYSIS_TIMEOUT_MS = 60_000;
+const IMAGE_TIMEOUT_MS = 120_000;
+
+// Every model call gets a deadline, and transient failures and timeouts are retried.
+const call = <T>(fn: () => Promise<T>, timeoutMs: number) =>
+  withRetry(() => withTimeout(fn(), timeoutMs), {
+    onRetry: (e, attempt) => console.warn(`AI call failed, retrying (attempt ${attempt})`, e),
+  });
+
+// Images may be data URLs or stored file URLs (e.g. a saved project's original).
+// Styles may be a preset id or a full StyleSpec for custom styles.
+
+const resolveStyle = async (style: StyleInput): Promise<StyleSpec> => {
+  const spec = toStyleSpec(style);
+  if (!spec.referenceImages?.length) return spec;
+  return { ...spec, referenceImages: await Promise.all(spec.referenceImages.map(loadImageAsDataUrl)) };
+};
+
+const resolveHome = async (home?: HomeContext): Promise<HomeContext | undefined> =>
+  home && { ...home, images: await Promise.all(home.images.map(loadImageAsDataUrl)) };
+
+/**
+ * Describes the room in the photo, independent of any style; throws
+ * InvalidRoomError if it isn't one. `language` is the one the descriptive
+ * text is written in; English by default.
+ */
+export async function surveyRoom(image: string, language?: Language): Promise<RoomSurvey> {
+  const input = { image: await loadImageAsDataUrl(image), language };
+  return call(() => getImageProvider().surveyRoom(input), ANALYSIS_TIMEOUT_MS);
+}
+
+/**
+ * Plans the improvements and shopping list for redesigning a surveyed room in
+ * `style`. `home` describes the other rooms of a multi-room home, so the plan matches them.
+ */
+export async function planRedesign(
+  image: string,
+  style: StyleInput,
+  survey: RoomSurvey,
+  home?: HomeContext,
+  language?: Language
+): Promise<RedesignPlan> {
+  const input = { image: await loadImageAsDataUrl(image), style: await resolveStyle(style), survey, home: await resolveHome(home), language };
+  return call(() => getImageProvider().planRedesign(input), ANALYSIS_TIMEOUT_MS);
+}
+
+/** Surveys the room and plans its redesign in `style`; see surveyRoom and planRedesign. */
+export async function analyzeRoom(image: string, style: StyleInput, home?: HomeContext, language?: Language): Promise<RoomAnalysis> {
+  const source = await loadImageAsDataUrl(image);
+  const survey = await surveyRoom(source, language);
+  return { ...survey, ...(await planRedesign(source, style, survey, home, language)) };
+}
+
+export async function redesignRoom(image: string, style: StyleInput, analysis: RoomAnalysis, home?: HomeContext): Promise<string> {
+  const input = { image: await loadImageAsDataUrl(image), style: await resolveStyle(style), analysis, home: await resolveHome(home) };
+  return call(() => getImageProvider().redesignRoom(input), IMAGE_TIMEOUT_MS);
+}
+
+/** Redesigns only the white area of `mask`, following a free-text instruction. */
+export async function inpaintRoom(image: string, mask: string, instruction: string, style: StyleInput): Promise<string> {
+  const input = { image: await loadImageAsDataUrl(image), mask, instruction, style: toStyleSpec(style) };
+  return call(() => getImageProvider().inpaintRoom(input), IMAGE_TIMEOUT_MS);
+}
+
+/** Applies one conversational change (e.g. "make the rug darker") to the current design. */
+export async function refineRoom(
+  image: string,
+  instruction: string,
+  style: StyleInput,
+  history: string[]
+): Promise<RefineRoomResult> {
+  const input = { image: await loadImageAsDataUrl(image), instruction, style: toStyleSpec(style), history };
+  return call(() => getImageProvider().refineRoom(input), IMAGE_TIMEOUT_MS);
+}
+
+export const MAX_VARIATIONS = 4;
+
+// Each variation gets its own seed and a nudge in a different direction.
+const VARIATION_HINTS = [
+  "",
+  "Favour a lighter, airier colour scheme.",
+  "Favour warmer tones and richer textures.",
+  "Try a bolder furniture arrangement and a statement accent piece.",
+];
+
+const variationsFor = (count: number): Variation[] =>
+  Array.from({ length: Math.min(count, MAX_VARIATIONS) }, (_, i) => ({
+    seed: i + 1,
+    promptHint: VARIATION_HINTS[i] || undefined,
+  }));
+
+// Drops failed renders; only fails if every render failed.
+const fulfilled = <T>(results: PromiseSettledResult<T>[]): T[] => {
+  const values = results.flatMap((r) => (r.status === "fulfilled" ? [r.value] : []));
+  if (values.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  return values;
+};
+
+/**
+ * Renders `count` alternative redesigns in parallel. Individual failures are
+ * dropped; the call only fails if every variation fails.
+ */
+export async function redesignRoomVariations(
+  image: string,
+  style: StyleInput,
+  analysis: RoomAnalysis,
+  count: number,
+  home?: HomeContext
+): Promise<string[]> {
+  const source = await loadImageAsDataUrl(image);
+  const spec = await resolveStyle(style);
+  const homeContext = await resolveHome(home);
+  const provider = getImageProvider();
+
+  const results = await Promise.allSettled(
+    variationsFor(count).map((variation) =>
+      call(() => provider.redesignRoom({ image: source, style: spec, analysis, variation, home: homeContext }), IMAGE_TIMEOUT_MS)
+    )
+  );
+  return fulfilled(results);
+}
+
+/** Keeps a redesign to the original room's walls, windows and doors. */
+export interface LayoutGuard {
+  /** Line map of the original's structure, sent to the model as conditioning. */
+  guidance: string;
+  /** How closely a render keeps the original's structure, from 0 to 1. */
+  score: (image: string) => Promise<number>;
+  /** Renders scoring below this are re-rendered, then flagged. */
+  minScore: number;
+  retries: number;
+}
+
+export interface LayoutCheckedImage {
+  image: string;
+  layoutScore: number;
+  /** Still below the guard's minScore after every retry. */
+  drifted: boolean;
+}
+
+// Retries step well past the seeds used by variations.
+const RETRY_SEED_STRIDE = 100;
+
+/**
+ * Redesigns with the guard's line map as conditioning, producing one design
+ * or `count` variations. A render whose structure drifted is tried again
+ * with a new seed, and the closest attempt is kept.
+ */
+export async function redesignRoomKeepingLayout(
+  image: string,
+  style: StyleInput,
+  analysis: RoomAnalysis,
+  count: number,
+  guard: LayoutGuard,
+  home?: HomeContext
+): Promise<LayoutCheckedImage[]> {
+  const source = await loadImageAsDataUrl(image);
+  const spec = await resolveStyle(style);
+  const homeContext = await resolveHome(home);
+  const provider = getImageProvider();
+
+  const render = async (variation?: Variation): Promise<LayoutCheckedImage> => {
+    let best: LayoutCheckedImage | null = null;
+    for (let attempt = 0; attempt <= guard.retries; attempt++) {
+      const seeded = attempt === 0 ? variation : { ...variation, seed: (variation?.seed ?? 0) + attempt * RETRY_SEED_STRIDE };
+      const result = await call(
+        () => provider.redesignRoom({ image: source, style: spec, analysis, variation: seeded, home: homeContext, guidance: guard.guidance }),
+        IMAGE_TIMEOUT_MS
+      );
+      const layoutScore = await guard.score(result);
+      if (!best || layoutScore > best.layoutScore) {
+        best = { image: result, layoutScore, drifted: layoutScore < guard.minScore };
+      }
+      if (!best.drifted) break;
+    }
+    return best!;
+  };
+
+  const variations = count > 1 ? variationsFor(count) : [undefined];
+  return fulfilled(await Promise.allSettled(variations.map(render)));
+}
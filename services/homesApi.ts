@@ -0,0 +1,33 @@
+import { readError } from "./http";
+import type { Home, HomeDetail } from "../types";
+
+export interface HomeFields {
+  name: string;
+  /** Preset or custom style id. */
+  style: string;
+  palette: string[];
+}
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(url, init?.body
+    ? { ...init, headers: { "Content-Type": "application/json" } }
+    : init);
+  if (!res.ok) {
+    throw new Error(await readError(res));
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+};
+
+export const fetchHomes = () => request<Home[]>("/api/homes");
+
+export const fetchHome = (id: string) => request<HomeDetail>(`/api/homes/${encodeURIComponent(id)}`);
+
+export const createHome = (home: HomeFields) =>
+  request<Home>("/api/homes", { method: "POST", body: JSON.stringify(home) });
+
+export const updateHome = (id: string, changes: Partial<HomeFields>) =>
+  request<Home>(`/api/homes/${encodeURIComponent(id)}`, { method: "PATCH", body: JSON.stringify(changes) });
+
+/** Deletes the home; its rooms stay on as standalone projects. */
+export const deleteHome = (id: string) =>
+  request<void>(`/api/homes/${encodeURIComponent(id)}`, { method: "DELETE" });
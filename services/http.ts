@@ -0,0 +1,5 @@
+/** Extracts the `{ error }` message our API returns, falling back to the status text. */
+export const readError = async (res: Response): Promise<string> => {
+  const body = await res.json().catch(() => null);
+  return body?.error || res.statusText;
+};
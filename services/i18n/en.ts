@@ -0,0 +1,487 @@
+// The reference catalog: every key lives here, and other languages fall back to it.
+// `{name}` placeholders are filled in by t().
+const en = {
+  "language.label": "Language",
+
+  "nav.home": "Home",
+  "nav.design": "New Design",
+  "nav.projects": "My Projects",
+  "nav.homes": "Homes",
+  "nav.gallery": "Inspiration",
+  "nav.credits": "Credits",
+  "nav.settings": "Settings",
+  "nav.admin": "Admin",
+  "nav.signOut": "Sign Out",
+  "public.getStarted": "Get Started",
+
+  "landing.title": "Reimagine Your",
+  "landing.titleEmphasis": "Living Space",
+  "landing.subtitle": "Upload a photo of any room and let our advanced AI transform it into a professional interior design concept in seconds.",
+  "landing.start": "Start Designing Free",
+  "landing.gallery": "View Gallery",
+  "landing.previewAlt": "Interior",
+  "landing.previewCaption": "Modern Scandinavian",
+
+  "notFound.title": "Page not found",
+  "notFound.message": "This link doesn't lead anywhere. It may be mistyped or out of date.",
+  "notFound.home": "Go home",
+
+  "action.buyCredits": "Buy credits",
+  "action.selectApiKey": "Select API key",
+  "payment.paid.title": "Payment received",
+  "payment.paid.message": "Your credits have been added.",
+  "payment.failed.title": "Payment failed",
+  "payment.failed.message": "You were not charged. Please try again.",
+  "payment.pending.title": "Payment processing",
+  "payment.pending.message": "Your credits will appear once the payment is confirmed.",
+
+  "style.modern.name": "Modern",
+  "style.modern.description": "Clean lines, neutral palette",
+  "style.minimalist.name": "Minimalist",
+  "style.minimalist.description": "Less is more, functional",
+  "style.scandinavian.name": "Scandinavian",
+  "style.scandinavian.description": "Light, airy, wood textures",
+  "style.industrial.name": "Industrial",
+  "style.industrial.description": "Raw materials, exposed brick",
+  "style.luxury.name": "Luxury",
+  "style.luxury.description": "Opulent, rich textures, gold",
+  "style.bohemian.name": "Bohemian",
+  "style.bohemian.description": "Eclectic, colorful, natural",
+  "style.japandi.name": "Japandi",
+  "style.japandi.description": "Japanese zen meets Scandi",
+  "style.deleted": "Custom style",
+
+  "design.title": "Create New Concept",
+  "design.subtitle": "Upload a room photo and select your preferred style.",
+  "design.uploadHeading": "1. Upload Room",
+  "design.preparing": "Preparing photo...",
+  "design.uploadAlt": "Upload",
+  "design.uploadPrompt": "Click to upload photo",
+  "design.uploadHint": "JPG, PNG or WebP up to 10MB",
+  "design.styleHeading": "2. Choose Style",
+  "design.homeLabel": "Home",
+  "design.standalone": "Standalone room",
+  "design.partOfHome": "Part of {home}",
+  "design.homeNote": "Rooms in {home} share its style and are matched to its other rooms.",
+  "design.homePaletteNote": "Rooms in {home} share its style and palette and are matched to its other rooms.",
+  "design.inspiration": "Inspiration reference",
+  "design.removeInspiration": "Remove inspiration reference",
+  "design.pickAnotherReference": "Pick Another Reference",
+  "design.addReference": "Add a Reference from the Gallery",
+  "design.createStyle": "Create Custom Style",
+  "design.variationsHeading": "3. Variations",
+  "design.variationCost": "Each variation takes 1 credit; the ones you don't save are refunded.",
+  "design.preserveLayout": "Preserve layout",
+  "design.preserveLayoutHint": "Keeps walls, windows and doors where they are. Slower, as designs that move them are redone.",
+  "design.forceRegenerate": "Force regenerate",
+  "design.forceRegenerateHint": "Designs made before from the same photo and style are reused for free. Tick this to render new ones.",
+  "design.processing": "Processing...",
+  "design.generate": "Generate Design",
+  "design.editRegionOnly": "Edit a Region Only",
+  "design.emptyTitle": "Your redesign will appear here",
+  "design.emptyMessage": "Upload a photo and click generate to see the magic happen.",
+  "design.waitMessage": "Our AI is reimagining your space. This usually takes 15-30 seconds.",
+  "design.resumeHint": "You can leave or reload this page; we'll pick up where it left off.",
+  "design.cancel": "Cancel",
+  "design.resultTitle": "Redesign Result",
+  "design.editRegion": "Edit Region",
+  "design.download": "Download",
+  "design.share": "Share",
+  "design.layoutShifted": "The layout may have shifted in this design: some walls, windows or doors don't line up with your photo. Compare it with the original before you use it.",
+  "design.before": "Before",
+  "design.after": "After",
+  "design.compare": "Compare before and after",
+  "design.analysisTitle": "AI Analysis & Concepts",
+  "design.roomType": "Room Type",
+  "design.lighting": "Lighting",
+  "design.improvements": "Key Improvements",
+
+  "variations.saved": "Saved to My Projects",
+  "variations.pick": "Pick the variations to keep",
+  "variations.saveOne": "Save 1 (1 credit)",
+  "variations.save": "Save {count} ({count} credits)",
+  "variations.alt": "Variation {number}",
+  "variations.select": "Select variation {number}",
+  "variations.deselect": "Deselect variation {number}",
+  "variations.layoutShiftedHint": "Layout may have shifted",
+  "variations.layoutShifted": "Layout shifted",
+
+  "stage.uploading": "Uploading photo...",
+  "stage.queued": "Waiting to start...",
+  "stage.analyzing": "Analyzing room structure...",
+  "stage.generating": "Generating redesigned concept...",
+  "stage.generatingVariations": "Generating {count} design variations...",
+  "stage.checkingLayout": "Generating and checking the layout...",
+  "stage.checkingLayoutVariations": "Generating {count} variations and checking the layout...",
+  "stage.editing": "Editing selected area...",
+  "stage.saving": "Saving project...",
+  "stage.done": "Done",
+
+  "notice.cached.title": "Reused an earlier design",
+  "notice.cached.variations": "These variations were made before from the same photo and style. Tick Force regenerate for new ones.",
+  "notice.cached.single": "This design was made before from the same photo and style, so your credit was returned. Tick Force regenerate for a new one.",
+  "notice.canceled.title": "Generation canceled",
+  "notice.canceled.message": "Your credit has been returned.",
+  "notice.notEnoughCredits.title": "Not enough credits",
+  "notice.notEnoughCredits.message": "Saving {count} variations needs {count} credits, but you have {credits}.",
+  "notice.linkCopied.title": "Link copied to clipboard!",
+  "notice.linkCopied.message": "Manage or turn off the link from the project page.",
+  "share.title": "My Room Redesign",
+  "share.text": "Check out my {style} room redesign!",
+  "sharePage.defaultTitle": "{room} redesign in {style} style",
+  "sharePage.description": "A room reimagined with GruhaBuddy.",
+  "sharePage.sharedOn": "Shared on GruhaBuddy",
+  "sharePage.compare": "Compare before and after",
+  "sharePage.ideas": "Design ideas",
+  "sharePage.cta": "Redesign your own room",
+  "sharePage.report": "Report this design",
+  "sharePage.reason": "Reason",
+  "sharePage.reason.nudity": "Nudity or sexual content",
+  "sharePage.reason.violence": "Violent or hateful content",
+  "sharePage.reason.someoneElse": "Someone else's photo or design",
+  "sharePage.reason.spam": "Spam or advertising",
+  "sharePage.reason.other": "Something else",
+  "sharePage.sendReport": "Send report",
+  "sharePage.back": "Back to the design",
+  "sharePage.gone.title": "Link unavailable",
+  "sharePage.gone.heading": "This link is no longer available",
+  "sharePage.gone.message": "The owner may have turned sharing off, or the link has expired.",
+  "sharePage.gone.cta": "Visit GruhaBuddy",
+  "sharePage.limited.title": "Too many reports",
+  "sharePage.limited.heading": "Too many reports",
+  "sharePage.limited.message": "Please try again later, or sign in to report this design.",
+  "sharePage.reported.title": "Report sent",
+  "sharePage.reported.heading": "Thanks for letting us know",
+  "sharePage.reported.message": "Our team will review this design.",
+
+  "upload.unreadable": "We couldn't read this photo. Please try another one.",
+  "upload.unsupported": "Unsupported file type. Please upload a JPG, PNG or WebP photo.",
+  "upload.tooLarge": "This photo is {size}MB. Please upload an image up to 10MB.",
+  "upload.heic": "HEIC photos aren't supported. Export it as JPG first, or set your camera to save JPG.",
+  "upload.invalid": "This file doesn't look like a valid image.",
+  "upload.tooSmall": "This photo is too small ({width}×{height}). Please use one at least {min}px on each side.",
+  "upload.unsupportedBrowser": "Your browser couldn't process this image.",
+
+  "error.invalid-room.title": "That doesn't look like a room",
+  "error.invalid-room.message": "Please upload a photo of a room such as a bedroom, living room or kitchen.",
+  "error.auth.title": "API key problem",
+  "error.auth.message": "The AI service rejected your key. Check that the Gemini API and billing are enabled for its project, or select a different key.",
+  "error.quota.title": "AI quota reached",
+  "error.quota.message": "Your API key has hit its usage limit. Wait a minute and try again, or select a key with more quota.",
+  "error.safety-blocked.title": "Request blocked",
+  "error.safety-blocked.message": "The AI safety filters blocked this request. Try a different photo or rephrase your instruction.",
+  "error.transient.title": "AI service unavailable",
+  "error.transient.message": "We couldn't reach the AI service after several attempts. Please try again shortly.",
+  "error.timeout.title": "This is taking too long",
+  "error.timeout.message": "The AI service didn't respond in time. Please try again.",
+  "error.credits.title": "No credits left",
+  "error.credits.message": "You've used all your credits.",
+  "error.unknown.title": "Something went wrong",
+  "error.unknown.message": "Please try again.",
+
+  "settings.title": "Settings",
+  "settings.subtitle": "Your account and how GruhaBuddy connects to its AI models.",
+  "settings.account": "Account",
+  "settings.name": "Name",
+  "settings.email": "Email",
+  "settings.accountNote": "Your name and email come from the account you sign in with.",
+  "settings.credits": "Credits",
+  "settings.creditsLeft": "credits left",
+  "settings.buyCredits": "Buy credits and view history",
+  "settings.apiKey": "Gemini API key",
+  "settings.keySelected": "A key is selected for this session.",
+  "settings.noKey": "No key selected; redesigns will fail until you pick one.",
+  "settings.changeKey": "Change key",
+  "settings.languageNote": "Used for the app and for the room analysis written by the AI. Designs analysed before keep their language.",
+  "settings.signOut": "Sign out",
+
+  "credits.title": "Credits",
+  "credits.subtitle": "Each saved design, edit or refinement uses one credit.",
+  "credits.balance": "Balance",
+  "credits.plan": "Plan",
+  "credits.topUp": "Top-up",
+  "credits.amount": "{count} credits",
+  "credits.perCredit": "{price} per credit",
+  "credits.history": "History",
+  "credits.empty": "No credit activity yet.",
+  "credits.date": "Date",
+  "credits.type": "Type",
+  "credits.details": "Details",
+  "credits.kind.grant": "Free credits",
+  "credits.kind.debit": "Used",
+  "credits.kind.refund": "Refund",
+  "credits.kind.purchase": "Purchase",
+
+  "common.style": "Style",
+  "common.palette": "Palette",
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.delete": "Delete",
+  "common.keep": "Keep",
+  "common.close": "Close",
+
+  "projects.title": "My Projects",
+  "projects.subtitle": "Your history of AI-transformed spaces.",
+  "projects.searchPlaceholder": "Search names, rooms and design notes",
+  "projects.searchLabel": "Search projects",
+  "projects.allStyles": "All styles",
+  "projects.roomType": "Room type",
+  "projects.allRooms": "All rooms",
+  "projects.from": "From",
+  "projects.to": "To",
+  "projects.sortBy": "Sort by",
+  "projects.sort.newest": "Newest first",
+  "projects.sort.oldest": "Oldest first",
+  "projects.sort.title": "Name",
+  "projects.sort.roomType": "Room type",
+  "projects.sort.style": "Style",
+  "projects.archived": "Archived",
+  "projects.clear": "Clear",
+  "projects.noMatches.title": "No matching projects",
+  "projects.noMatches.message": "Try a different search or clear the filters.",
+  "projects.empty.title": "No projects yet",
+  "projects.empty.message": "Start your first redesign to see it here.",
+  "projects.countOne": "1 project",
+  "projects.count": "{count} projects",
+  "projects.page": "Page {page} of {count}",
+  "projects.previousPage": "Previous page",
+  "projects.nextPage": "Next page",
+
+  "project.defaultTitle": "{room} Redesign",
+  "project.open": "Open {title}",
+  "project.openProject": "Open project",
+  "project.redesignAlt": "Redesign",
+  "project.nameLabel": "Project name",
+  "project.saveName": "Save name",
+  "project.cancelRename": "Cancel rename",
+  "project.rename": "Rename",
+  "project.archive": "Archive",
+  "project.unarchive": "Unarchive",
+  "project.confirmDelete": "Delete this project for good?",
+  "project.back": "Back to projects",
+  "project.unavailable": "Project unavailable",
+  "project.downloadBrief": "Download PDF Brief",
+  "project.tryAnotherStyle": "Try Another Style",
+  "project.regenerate": "Regenerate in {style}",
+  "project.regenerateCost": "Uses 1 credit and saves a new project.",
+
+  "brief.title": "Design Brief",
+  "brief.roomAnalysis": "Room analysis",
+  "brief.costEstimate": "Cost estimate",
+  "brief.unitPrice": "Unit price",
+  "brief.disclaimer": "Prices are indicative ranges for the Indian market and exclude delivery and installation.",
+  "brief.preparedWith": "Prepared with GruhaBuddy",
+  "brief.page": "Page {page} of {count}",
+
+  "sharePanel.title": "Public Link",
+  "sharePanel.hidden": "This design was hidden after a report, so it can't be shared. Contact support if you think this is a mistake.",
+  "sharePanel.linkLabel": "Public link",
+  "sharePanel.copy": "Copy link",
+  "sharePanel.expiresAt": "Expires {date}. Anyone with the link can view the before and after.",
+  "sharePanel.neverExpires": "Never expires. Anyone with the link can view the before and after.",
+  "sharePanel.expiryLabel": "Link expiry",
+  "sharePanel.expiry.never": "Never expires",
+  "sharePanel.expiry.oneDay": "Expires in 1 day",
+  "sharePanel.expiry.days": "Expires in {count} days",
+  "sharePanel.turnOff": "Turn off",
+  "sharePanel.intro": "Create a link anyone can open to see this redesign, no sign-in needed.",
+  "sharePanel.create": "Create link",
+
+  "shopping.title": "Shopping List",
+  "shopping.exportCsv": "Export CSV",
+  "shopping.empty": "No items yet. Add the furniture and materials you plan to buy.",
+  "shopping.item": "Item",
+  "shopping.category": "Category",
+  "shopping.quantity": "Qty",
+  "shopping.unitPrice": "Unit price (₹)",
+  "shopping.total": "Total",
+  "shopping.itemPlaceholder": "e.g. Teak bookshelf",
+  "shopping.itemLabel": "Item {number}",
+  "shopping.categoryLabel": "Category for item {number}",
+  "shopping.quantityLabel": "Quantity for item {number}",
+  "shopping.priceMinLabel": "Lowest unit price for item {number}",
+  "shopping.priceMaxLabel": "Highest unit price for item {number}",
+  "shopping.removeLabel": "Remove item {number}",
+  "shopping.add": "Add item",
+  "shopping.estimatedTotal": "Estimated total",
+  "shopping.category.furniture": "Furniture",
+  "shopping.category.lighting": "Lighting",
+  "shopping.category.decor": "Decor",
+  "shopping.category.textiles": "Textiles",
+  "shopping.category.paint": "Paint",
+  "shopping.category.flooring": "Flooring",
+  "shopping.category.storage": "Storage",
+  "shopping.category.other": "Other",
+  "shopping.csv.category": "Category",
+  "shopping.csv.item": "Item",
+  "shopping.csv.quantity": "Quantity",
+  "shopping.csv.priceMin": "Unit price min (INR)",
+  "shopping.csv.priceMax": "Unit price max (INR)",
+  "shopping.csv.totalMin": "Total min (INR)",
+  "shopping.csv.totalMax": "Total max (INR)",
+  "shopping.csv.total": "Total",
+
+  "refine.updating": "Gruha is updating your design...",
+  "refine.saving": "Saving new version...",
+  "refine.versions": "Versions",
+  "refine.versionAlt": "Version {version}",
+  "refine.current": "Current",
+  "refine.reverted": "Reverted to version {version}.",
+  "refine.revert": "Revert",
+  "refine.title": "Refine with Gruha",
+  "refine.empty": "Ask for a change, like \"make the rug darker\" or \"add plants\". Each change creates a new version.",
+  "refine.placeholder": "Describe a change (1 credit)",
+  "refine.send": "Send",
+
+  "homes.title": "Homes",
+  "homes.subtitle": "Redesign a whole flat room by room, in one consistent style.",
+  "homes.new": "New Home",
+  "homes.namePlaceholder": "Name, e.g. 2BHK in Indiranagar",
+  "homes.nameLabel": "Home name",
+  "homes.paletteOptional": "Palette for every room (optional)",
+  "homes.create": "Create Home",
+  "homes.empty.title": "No homes yet",
+  "homes.empty.message": "Create a home to design its living room, bedrooms and kitchen together.",
+  "homes.roomCountOne": "1 room",
+  "homes.roomCount": "{count} rooms",
+  "home.back": "Back to homes",
+  "home.unavailable": "Home unavailable",
+  "home.palette": "Palette for every room",
+  "home.editNote": "Style and palette changes apply to rooms you design from now on.",
+  "home.edit": "Edit home",
+  "home.delete": "Delete home",
+  "home.designRoom": "Design a Room",
+  "home.confirmDelete": "Delete this home? Its rooms are kept as separate projects.",
+  "home.rooms": "Rooms",
+  "home.estimate": "Estimated cost, all rooms",
+  "home.noRooms.title": "No rooms yet",
+  "home.noRooms.message": "Design the first room; the next ones will be matched to it.",
+  "home.removeRoom": "Remove from home",
+  "home.addExisting": "Add an existing project",
+  "home.addExistingPrompt": "Add an existing project…",
+  "palette.colour": "Palette colour {number}",
+  "palette.remove": "Remove colour {number}",
+  "palette.add": "Add colour",
+
+  "styles.title": "Custom Styles",
+  "styles.new": "New Style",
+  "styles.namePlaceholder": "Name, e.g. Kerala Heritage",
+  "styles.descriptionPlaceholder": "Describe materials, furniture and mood, e.g. teak wood, brass lamps, terracotta floors",
+  "styles.references": "Reference images (optional)",
+  "styles.referenceAlt": "Reference {number}",
+  "styles.removeReference": "Remove reference {number}",
+  "styles.shareWith": "Share with",
+  "styles.onlyMe": "Only me",
+  "styles.teamLibrary": "{team} (team library)",
+  "styles.save": "Save Style",
+  "styles.library": "Your Library",
+  "styles.sharedWith": "Shared with {team}",
+  "styles.private": "Private",
+  "styles.delete": "Delete {name}",
+  "styles.unshare": "Make {name} private",
+  "styles.leave": "Leave",
+  "styles.leaveTeam": "Leave {team}",
+  "styles.teams": "Teams",
+  "styles.inviteCode": "Invite code: {code}",
+  "styles.newTeamName": "New team name",
+  "styles.createTeam": "Create",
+  "styles.invitePlaceholder": "Invite code",
+  "styles.join": "Join",
+
+  "mask.title": "Edit a Region",
+  "mask.close": "Close region editor",
+  "mask.brush": "Brush",
+  "mask.lasso": "Lasso",
+  "mask.size": "Size",
+  "mask.clear": "Clear",
+  "mask.imageAlt": "Room to edit",
+  "mask.placeholder": "e.g. \"Replace the sofa wall with teak panelling\"",
+  "mask.apply": "Apply Edit",
+  "mask.hint": "Only the highlighted area will change. Uses 1 credit.",
+  "mask.prompt": "Paint over the part of the room you want to change.",
+
+  "gallery.title": "Inspiration",
+  "gallery.subtitle": "Browse interiors, save the ones you love and use any of them to guide a redesign.",
+  "gallery.searchPlaceholder": "Search rooms, styles or materials",
+  "gallery.searchLabel": "Search inspiration",
+  "gallery.search": "Search",
+  "gallery.suggestion.livingRoom": "Living room",
+  "gallery.suggestion.bedroom": "Bedroom",
+  "gallery.suggestion.kitchen": "Kitchen",
+  "gallery.suggestion.scandinavian": "Scandinavian",
+  "gallery.suggestion.indianTraditional": "Indian traditional",
+  "gallery.suggestion.japandi": "Japandi",
+  "gallery.suggestion.balcony": "Balcony",
+  "gallery.favourites": "Favourites ({count})",
+  "gallery.noFavourites": "No favourites yet. Tap the heart on any image to save it.",
+  "gallery.noResults": "No interiors found for \"{query}\".",
+  "gallery.saveFavourite": "Save to favourites",
+  "gallery.removeFavourite": "Remove from favourites",
+  "gallery.photoBy": "Photo by {author}",
+  "gallery.photoByOn": "Photo by {author} on {provider}",
+  "gallery.useAsReference": "Use as Style Reference",
+  "gallery.loadMore": "Load more",
+
+  "admin.title": "Admin",
+  "admin.subtitle": "Accounts, generation health and reported designs.",
+  "admin.sections": "Admin sections",
+  "admin.tab.users": "Users",
+  "admin.tab.usage": "Usage",
+  "admin.tab.moderation": "Moderation",
+  "admin.usage.window": "Time window",
+  "admin.usage.lastDays": "Last {count} days",
+  "admin.usage.generations": "Generations",
+  "admin.usage.failureRate": "Failure rate",
+  "admin.usage.avgAnalysis": "Avg. analysis",
+  "admin.usage.avgRedesign": "Avg. redesign",
+  "admin.usage.avgEdit": "Avg. edit or refinement",
+  "admin.usage.seconds": "{value} s",
+  "admin.usage.latencyNote": "Latency covers model calls only; results reused from the cache are left out.",
+  "admin.usage.perDay": "Generations per day",
+  "admin.usage.perDayLabel": "Generations per day, split into succeeded and failed",
+  "admin.usage.dayTitle": "{date}: {redesigns} redesigns, {edits} edits, {failed} failed, {canceled} canceled",
+  "admin.usage.succeeded": "Succeeded or running",
+  "admin.usage.failed": "Failed",
+  "admin.usage.canceled": "Canceled",
+  "admin.usage.failures": "Failures by error type",
+  "admin.usage.noFailures": "No failed generations in this window.",
+  "admin.usage.error": "Error",
+  "admin.usage.jobs": "Jobs",
+  "admin.usage.share": "Share of finished jobs",
+  "admin.failure.invalidRoom": "Not a room photo",
+  "admin.failure.auth": "API key rejected",
+  "admin.failure.quota": "Quota exceeded",
+  "admin.failure.safetyBlocked": "Blocked by safety filters",
+  "admin.failure.transient": "AI service unavailable",
+  "admin.failure.timeout": "Timed out",
+  "admin.failure.unknown": "Other errors",
+  "admin.users.search": "Search users",
+  "admin.users.searchPlaceholder": "Search by name or email",
+  "admin.users.searchButton": "Search",
+  "admin.users.empty": "No users match \"{search}\".",
+  "admin.users.user": "User",
+  "admin.users.joined": "Joined",
+  "admin.users.projects": "Projects",
+  "admin.users.credits": "Credits",
+  "admin.users.admin": "Admin",
+  "admin.users.adjust": "Adjust credits",
+  "admin.users.amount": "Credits to add or remove",
+  "admin.users.amountPlaceholder": "+10 or -5",
+  "admin.users.note": "Reason",
+  "admin.users.notePlaceholder": "Reason, shown to the user",
+  "admin.users.apply": "Apply",
+  "admin.moderation.reported": "Reported",
+  "admin.moderation.hidden": "Hidden",
+  "admin.moderation.noReports": "No reports waiting for review.",
+  "admin.moderation.noHidden": "No hidden designs.",
+  "admin.moderation.hiddenAt": "Hidden {date}",
+  "admin.moderation.guest": "Signed-out visitor",
+  "admin.moderation.confirmDelete": "Delete this project for its owner too? This can't be undone.",
+  "admin.moderation.hide": "Hide",
+  "admin.moderation.dismiss": "Dismiss reports",
+  "admin.moderation.unhide": "Unhide",
+};
+
+export type MessageKey = keyof typeof en;
+
+export default en;
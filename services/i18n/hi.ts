@@ -0,0 +1,485 @@
+import type { MessageKey } from "./en";
+
+const hi: Record<MessageKey, string> = {
+  "language.label": "भाषा",
+
+  "nav.home": "होम",
+  "nav.design": "नया डिज़ाइन",
+  "nav.projects": "मेरे प्रोजेक्ट",
+  "nav.homes": "घर",
+  "nav.gallery": "प्रेरणा",
+  "nav.credits": "क्रेडिट",
+  "nav.settings": "सेटिंग्स",
+  "nav.admin": "एडमिन",
+  "nav.signOut": "साइन आउट",
+  "public.getStarted": "शुरू करें",
+
+  "landing.title": "अपने",
+  "landing.titleEmphasis": "घर को नया रूप दें",
+  "landing.subtitle": "किसी भी कमरे की फ़ोटो अपलोड करें और हमारा AI कुछ ही सेकंड में उसे एक पेशेवर इंटीरियर डिज़ाइन कॉन्सेप्ट में बदल देगा।",
+  "landing.start": "मुफ़्त में डिज़ाइन करें",
+  "landing.gallery": "गैलरी देखें",
+  "landing.previewAlt": "इंटीरियर",
+  "landing.previewCaption": "मॉडर्न स्कैंडिनेवियन",
+
+  "notFound.title": "पेज नहीं मिला",
+  "notFound.message": "यह लिंक कहीं नहीं जाता। हो सकता है यह गलत लिखा गया हो या पुराना हो।",
+  "notFound.home": "होम पर जाएँ",
+
+  "action.buyCredits": "क्रेडिट खरीदें",
+  "action.selectApiKey": "API कुंजी चुनें",
+  "payment.paid.title": "भुगतान मिल गया",
+  "payment.paid.message": "आपके क्रेडिट जोड़ दिए गए हैं।",
+  "payment.failed.title": "भुगतान विफल रहा",
+  "payment.failed.message": "आपसे कोई शुल्क नहीं लिया गया। कृपया फिर से कोशिश करें।",
+  "payment.pending.title": "भुगतान प्रक्रिया में है",
+  "payment.pending.message": "भुगतान की पुष्टि होते ही आपके क्रेडिट दिखने लगेंगे।",
+
+  "style.modern.name": "मॉडर्न",
+  "style.modern.description": "साफ़ रेखाएँ, हल्के न्यूट्रल रंग",
+  "style.minimalist.name": "मिनिमलिस्ट",
+  "style.minimalist.description": "कम में ज़्यादा, काम की चीज़ें",
+  "style.scandinavian.name": "स्कैंडिनेवियन",
+  "style.scandinavian.description": "हल्का, खुला, लकड़ी की बनावट",
+  "style.industrial.name": "इंडस्ट्रियल",
+  "style.industrial.description": "कच्चा सामान, खुली ईंटें",
+  "style.luxury.name": "लग्ज़री",
+  "style.luxury.description": "शानदार, समृद्ध बनावट, सुनहरा",
+  "style.bohemian.name": "बोहेमियन",
+  "style.bohemian.description": "विविध, रंगीन, प्राकृतिक",
+  "style.japandi.name": "जापंडी",
+  "style.japandi.description": "जापानी ज़ेन और स्कैंडिनेवियन का मेल",
+  "style.deleted": "कस्टम स्टाइल",
+
+  "design.title": "नया कॉन्सेप्ट बनाएँ",
+  "design.subtitle": "कमरे की फ़ोटो अपलोड करें और अपनी पसंद की स्टाइल चुनें।",
+  "design.uploadHeading": "1. कमरा अपलोड करें",
+  "design.preparing": "फ़ोटो तैयार हो रही है...",
+  "design.uploadAlt": "अपलोड",
+  "design.uploadPrompt": "फ़ोटो अपलोड करने के लिए क्लिक करें",
+  "design.uploadHint": "JPG, PNG या WebP, 10MB तक",
+  "design.styleHeading": "2. स्टाइल चुनें",
+  "design.homeLabel": "घर",
+  "design.standalone": "अलग कमरा",
+  "design.partOfHome": "{home} का हिस्सा",
+  "design.homeNote": "{home} के कमरे उसकी स्टाइल अपनाते हैं और उसके बाकी कमरों से मेल खाते हैं।",
+  "design.homePaletteNote": "{home} के कमरे उसकी स्टाइल और रंग अपनाते हैं और उसके बाकी कमरों से मेल खाते हैं।",
+  "design.inspiration": "प्रेरणा संदर्भ",
+  "design.removeInspiration": "प्रेरणा संदर्भ हटाएँ",
+  "design.pickAnotherReference": "दूसरा संदर्भ चुनें",
+  "design.addReference": "गैलरी से संदर्भ जोड़ें",
+  "design.createStyle": "कस्टम स्टाइल बनाएँ",
+  "design.variationsHeading": "3. वेरिएशन",
+  "design.variationCost": "हर वेरिएशन का 1 क्रेडिट लगता है; जो आप सेव नहीं करते, उनके क्रेडिट लौटा दिए जाते हैं।",
+  "design.preserveLayout": "लेआउट बनाए रखें",
+  "design.preserveLayoutHint": "दीवारें, खिड़कियाँ और दरवाज़े अपनी जगह पर रहते हैं। इसमें ज़्यादा समय लगता है, क्योंकि उन्हें हिलाने वाले डिज़ाइन दोबारा बनाए जाते हैं।",
+  "design.forceRegenerate": "दोबारा बनाएँ",
+  "design.forceRegenerateHint": "उसी फ़ोटो और स्टाइल से पहले बने डिज़ाइन मुफ़्त में दोबारा इस्तेमाल होते हैं। नए डिज़ाइन के लिए इसे चुनें।",
+  "design.processing": "प्रोसेस हो रहा है...",
+  "design.generate": "डिज़ाइन बनाएँ",
+  "design.editRegionOnly": "सिर्फ़ एक हिस्सा बदलें",
+  "design.emptyTitle": "आपका नया डिज़ाइन यहाँ दिखेगा",
+  "design.emptyMessage": "फ़ोटो अपलोड करें और कमाल देखने के लिए बनाएँ पर क्लिक करें।",
+  "design.waitMessage": "हमारा AI आपकी जगह को नया रूप दे रहा है। इसमें आमतौर पर 15-30 सेकंड लगते हैं।",
+  "design.resumeHint": "आप यह पेज छोड़ सकते हैं या रीलोड कर सकते हैं; काम वहीं से आगे बढ़ेगा।",
+  "design.cancel": "रद्द करें",
+  "design.resultTitle": "नया डिज़ाइन",
+  "design.editRegion": "हिस्सा बदलें",
+  "design.download": "डाउनलोड",
+  "design.share": "शेयर करें",
+  "design.layoutShifted": "इस डिज़ाइन में लेआउट बदल गया हो सकता है: कुछ दीवारें, खिड़कियाँ या दरवाज़े आपकी फ़ोटो से मेल नहीं खाते। इस्तेमाल करने से पहले इसे मूल फ़ोटो से मिलाकर देखें।",
+  "design.before": "पहले",
+  "design.after": "बाद में",
+  "design.compare": "पहले और बाद की तुलना करें",
+  "design.analysisTitle": "AI विश्लेषण और सुझाव",
+  "design.roomType": "कमरे का प्रकार",
+  "design.lighting": "रोशनी",
+  "design.improvements": "मुख्य सुधार",
+
+  "variations.saved": "मेरे प्रोजेक्ट में सेव हो गया",
+  "variations.pick": "रखने के लिए वेरिएशन चुनें",
+  "variations.saveOne": "1 सेव करें (1 क्रेडिट)",
+  "variations.save": "{count} सेव करें ({count} क्रेडिट)",
+  "variations.alt": "वेरिएशन {number}",
+  "variations.select": "वेरिएशन {number} चुनें",
+  "variations.deselect": "वेरिएशन {number} हटाएँ",
+  "variations.layoutShiftedHint": "लेआउट बदल गया हो सकता है",
+  "variations.layoutShifted": "लेआउट बदला",
+
+  "stage.uploading": "फ़ोटो अपलोड हो रही है...",
+  "stage.queued": "शुरू होने का इंतज़ार...",
+  "stage.analyzing": "कमरे की बनावट का विश्लेषण हो रहा है...",
+  "stage.generating": "नया कॉन्सेप्ट बन रहा है...",
+  "stage.generatingVariations": "{count} डिज़ाइन वेरिएशन बन रहे हैं...",
+  "stage.checkingLayout": "डिज़ाइन बन रहा है और लेआउट जाँचा जा रहा है...",
+  "stage.checkingLayoutVariations": "{count} वेरिएशन बन रहे हैं और लेआउट जाँचा जा रहा है...",
+  "stage.editing": "चुना गया हिस्सा बदला जा रहा है...",
+  "stage.saving": "प्रोजेक्ट सेव हो रहा है...",
+  "stage.done": "हो गया",
+
+  "notice.cached.title": "पहले बना डिज़ाइन दोबारा इस्तेमाल हुआ",
+  "notice.cached.variations": "ये वेरिएशन पहले उसी फ़ोटो और स्टाइल से बने थे। नए वेरिएशन के लिए \"दोबारा बनाएँ\" चुनें।",
+  "notice.cached.single": "यह डिज़ाइन पहले उसी फ़ोटो और स्टाइल से बना था, इसलिए आपका क्रेडिट लौटा दिया गया। नए डिज़ाइन के लिए \"दोबारा बनाएँ\" चुनें।",
+  "notice.canceled.title": "डिज़ाइन बनाना रद्द हुआ",
+  "notice.canceled.message": "आपका क्रेडिट लौटा दिया गया है।",
+  "notice.notEnoughCredits.title": "पर्याप्त क्रेडिट नहीं हैं",
+  "notice.notEnoughCredits.message": "{count} वेरिएशन सेव करने के लिए {count} क्रेडिट चाहिए, लेकिन आपके पास {credits} हैं।",
+  "notice.linkCopied.title": "लिंक क्लिपबोर्ड पर कॉपी हो गया!",
+  "notice.linkCopied.message": "प्रोजेक्ट पेज से लिंक को मैनेज करें या बंद करें।",
+  "share.title": "मेरे कमरे का नया डिज़ाइन",
+  "share.text": "मेरे कमरे का {style} डिज़ाइन देखिए!",
+  "sharePage.defaultTitle": "{style} स्टाइल में {room} का नया डिज़ाइन",
+  "sharePage.description": "GruhaBuddy के साथ नए रूप में सजा एक कमरा।",
+  "sharePage.sharedOn": "GruhaBuddy पर शेयर किया गया",
+  "sharePage.compare": "पहले और बाद की तुलना करें",
+  "sharePage.ideas": "डिज़ाइन के सुझाव",
+  "sharePage.cta": "अपना कमरा नए सिरे से डिज़ाइन करें",
+  "sharePage.report": "इस डिज़ाइन की शिकायत करें",
+  "sharePage.reason": "कारण",
+  "sharePage.reason.nudity": "नग्नता या यौन सामग्री",
+  "sharePage.reason.violence": "हिंसक या नफ़रत भरी सामग्री",
+  "sharePage.reason.someoneElse": "किसी और की फ़ोटो या डिज़ाइन",
+  "sharePage.reason.spam": "स्पैम या विज्ञापन",
+  "sharePage.reason.other": "कुछ और",
+  "sharePage.sendReport": "शिकायत भेजें",
+  "sharePage.back": "डिज़ाइन पर वापस जाएँ",
+  "sharePage.gone.title": "लिंक उपलब्ध नहीं",
+  "sharePage.gone.heading": "यह लिंक अब उपलब्ध नहीं है",
+  "sharePage.gone.message": "हो सकता है मालिक ने शेयर करना बंद कर दिया हो, या लिंक की अवधि खत्म हो गई हो।",
+  "sharePage.gone.cta": "GruhaBuddy पर जाएँ",
+  "sharePage.limited.title": "बहुत ज़्यादा शिकायतें",
+  "sharePage.limited.heading": "बहुत ज़्यादा शिकायतें",
+  "sharePage.limited.message": "कृपया बाद में फिर कोशिश करें, या इस डिज़ाइन की शिकायत करने के लिए साइन इन करें।",
+  "sharePage.reported.title": "शिकायत भेजी गई",
+  "sharePage.reported.heading": "बताने के लिए धन्यवाद",
+  "sharePage.reported.message": "हमारी टीम इस डिज़ाइन की समीक्षा करेगी।",
+
+  "upload.unreadable": "हम यह फ़ोटो नहीं पढ़ सके। कृपया कोई दूसरी फ़ोटो आज़माएँ।",
+  "upload.unsupported": "यह फ़ाइल टाइप समर्थित नहीं है। कृपया JPG, PNG या WebP फ़ोटो अपलोड करें।",
+  "upload.tooLarge": "यह फ़ोटो {size}MB की है। कृपया 10MB तक की इमेज अपलोड करें।",
+  "upload.heic": "HEIC फ़ोटो समर्थित नहीं हैं। पहले इसे JPG में एक्सपोर्ट करें, या कैमरा को JPG में सेव करने के लिए सेट करें।",
+  "upload.invalid": "यह फ़ाइल सही इमेज नहीं लगती।",
+  "upload.tooSmall": "यह फ़ोटो बहुत छोटी है ({width}×{height})। कृपया हर तरफ़ कम से कम {min}px वाली फ़ोटो इस्तेमाल करें।",
+  "upload.unsupportedBrowser": "आपका ब्राउज़र इस इमेज को प्रोसेस नहीं कर सका।",
+
+  "error.invalid-room.title": "यह कमरा नहीं लगता",
+  "error.invalid-room.message": "कृपया किसी कमरे की फ़ोटो अपलोड करें, जैसे बेडरूम, लिविंग रूम या किचन।",
+  "error.auth.title": "API कुंजी में समस्या",
+  "error.auth.message": "AI सेवा ने आपकी कुंजी अस्वीकार कर दी। जाँचें कि उसके प्रोजेक्ट में Gemini API और बिलिंग चालू हैं, या कोई दूसरी कुंजी चुनें।",
+  "error.quota.title": "AI कोटा खत्म",
+  "error.quota.message": "आपकी API कुंजी अपनी उपयोग सीमा तक पहुँच गई है। एक मिनट रुककर फिर कोशिश करें, या ज़्यादा कोटा वाली कुंजी चुनें।",
+  "error.safety-blocked.title": "अनुरोध रोका गया",
+  "error.safety-blocked.message": "AI सुरक्षा फ़िल्टर ने यह अनुरोध रोक दिया। कोई दूसरी फ़ोटो आज़माएँ या अपना निर्देश बदलकर लिखें।",
+  "error.transient.title": "AI सेवा उपलब्ध नहीं है",
+  "error.transient.message": "कई कोशिशों के बाद भी हम AI सेवा तक नहीं पहुँच सके। कृपया थोड़ी देर बाद फिर कोशिश करें।",
+  "error.timeout.title": "इसमें बहुत समय लग रहा है",
+  "error.timeout.message": "AI सेवा ने समय पर जवाब नहीं दिया। कृपया फिर से कोशिश करें।",
+  "error.credits.title": "क्रेडिट खत्म हो गए",
+  "error.credits.message": "आपने अपने सारे क्रेडिट इस्तेमाल कर लिए हैं।",
+  "error.unknown.title": "कुछ गलत हो गया",
+  "error.unknown.message": "कृपया फिर से कोशिश करें।",
+
+  "settings.title": "सेटिंग्स",
+  "settings.subtitle": "आपका खाता और GruhaBuddy अपने AI मॉडल से कैसे जुड़ता है।",
+  "settings.account": "खाता",
+  "settings.name": "नाम",
+  "settings.email": "ईमेल",
+  "settings.accountNote": "आपका नाम और ईमेल उस खाते से आते हैं जिससे आप साइन इन करते हैं।",
+  "settings.credits": "क्रेडिट",
+  "settings.creditsLeft": "क्रेडिट बाकी",
+  "settings.buyCredits": "क्रेडिट खरीदें और इतिहास देखें",
+  "settings.apiKey": "Gemini API कुंजी",
+  "settings.keySelected": "इस सत्र के लिए एक कुंजी चुनी गई है।",
+  "settings.noKey": "कोई कुंजी नहीं चुनी गई; कुंजी चुनने तक डिज़ाइन नहीं बनेंगे।",
+  "settings.changeKey": "कुंजी बदलें",
+  "settings.languageNote": "ऐप और AI के लिखे कमरे के विश्लेषण के लिए इस्तेमाल होती है। पहले के विश्लेषण अपनी भाषा में ही रहते हैं।",
+  "settings.signOut": "साइन आउट",
+
+  "credits.title": "क्रेडिट",
+  "credits.subtitle": "हर सेव किया गया डिज़ाइन, बदलाव या सुधार एक क्रेडिट लेता है।",
+  "credits.balance": "बैलेंस",
+  "credits.plan": "प्लान",
+  "credits.topUp": "टॉप-अप",
+  "credits.amount": "{count} क्रेडिट",
+  "credits.perCredit": "{price} प्रति क्रेडिट",
+  "credits.history": "इतिहास",
+  "credits.empty": "अभी कोई क्रेडिट गतिविधि नहीं।",
+  "credits.date": "तारीख",
+  "credits.type": "प्रकार",
+  "credits.details": "विवरण",
+  "credits.kind.grant": "मुफ़्त क्रेडिट",
+  "credits.kind.debit": "इस्तेमाल",
+  "credits.kind.refund": "रिफ़ंड",
+  "credits.kind.purchase": "खरीद",
+
+  "common.style": "स्टाइल",
+  "common.palette": "रंग-पट्टी",
+  "common.save": "सेव करें",
+  "common.cancel": "रद्द करें",
+  "common.delete": "हटाएँ",
+  "common.keep": "रखें",
+  "common.close": "बंद करें",
+
+  "projects.title": "मेरे प्रोजेक्ट",
+  "projects.subtitle": "AI से बदले गए आपके कमरों का इतिहास।",
+  "projects.searchPlaceholder": "नाम, कमरे और डिज़ाइन नोट खोजें",
+  "projects.searchLabel": "प्रोजेक्ट खोजें",
+  "projects.allStyles": "सभी स्टाइल",
+  "projects.roomType": "कमरे का प्रकार",
+  "projects.allRooms": "सभी कमरे",
+  "projects.from": "से",
+  "projects.to": "तक",
+  "projects.sortBy": "क्रम",
+  "projects.sort.newest": "नए पहले",
+  "projects.sort.oldest": "पुराने पहले",
+  "projects.sort.title": "नाम",
+  "projects.sort.roomType": "कमरे का प्रकार",
+  "projects.sort.style": "स्टाइल",
+  "projects.archived": "संग्रहित",
+  "projects.clear": "साफ़ करें",
+  "projects.noMatches.title": "कोई मिलता-जुलता प्रोजेक्ट नहीं",
+  "projects.noMatches.message": "कुछ और खोजें या फ़िल्टर साफ़ करें।",
+  "projects.empty.title": "अभी कोई प्रोजेक्ट नहीं",
+  "projects.empty.message": "अपना पहला रीडिज़ाइन शुरू करें, वह यहाँ दिखेगा।",
+  "projects.countOne": "1 प्रोजेक्ट",
+  "projects.count": "{count} प्रोजेक्ट",
+  "projects.page": "पेज {page} / {count}",
+  "projects.previousPage": "पिछला पेज",
+  "projects.nextPage": "अगला पेज",
+
+  "project.defaultTitle": "{room} रीडिज़ाइन",
+  "project.open": "{title} खोलें",
+  "project.openProject": "प्रोजेक्ट खोलें",
+  "project.redesignAlt": "रीडिज़ाइन",
+  "project.nameLabel": "प्रोजेक्ट का नाम",
+  "project.saveName": "नाम सेव करें",
+  "project.cancelRename": "नाम बदलना रद्द करें",
+  "project.rename": "नाम बदलें",
+  "project.archive": "संग्रहित करें",
+  "project.unarchive": "संग्रह से निकालें",
+  "project.confirmDelete": "यह प्रोजेक्ट हमेशा के लिए हटाएँ?",
+  "project.back": "प्रोजेक्ट पर वापस जाएँ",
+  "project.unavailable": "प्रोजेक्ट उपलब्ध नहीं है",
+  "project.downloadBrief": "PDF ब्रीफ़ डाउनलोड करें",
+  "project.tryAnotherStyle": "दूसरा स्टाइल आज़माएँ",
+  "project.regenerate": "{style} में फिर से बनाएँ",
+  "project.regenerateCost": "1 क्रेडिट लगता है और एक नया प्रोजेक्ट सेव होता है।",
+
+  "brief.title": "डिज़ाइन ब्रीफ़",
+  "brief.roomAnalysis": "कमरे का विश्लेषण",
+  "brief.costEstimate": "लागत का अनुमान",
+  "brief.unitPrice": "इकाई मूल्य",
+  "brief.disclaimer": "कीमतें भारतीय बाज़ार के अनुमानित दायरे हैं और इनमें डिलीवरी व इंस्टॉलेशन शामिल नहीं है।",
+  "brief.preparedWith": "GruhaBuddy से तैयार किया गया",
+  "brief.page": "पृष्ठ {page} / {count}",
+
+  "sharePanel.title": "सार्वजनिक लिंक",
+  "sharePanel.hidden": "शिकायत के बाद यह डिज़ाइन छिपा दिया गया है, इसलिए इसे शेयर नहीं किया जा सकता। अगर आपको लगता है कि यह गलती है, तो सपोर्ट से संपर्क करें।",
+  "sharePanel.linkLabel": "सार्वजनिक लिंक",
+  "sharePanel.copy": "लिंक कॉपी करें",
+  "sharePanel.expiresAt": "{date} को समाप्त होगा। लिंक वाला कोई भी पहले और बाद की तस्वीरें देख सकता है।",
+  "sharePanel.neverExpires": "कभी समाप्त नहीं होगा। लिंक वाला कोई भी पहले और बाद की तस्वीरें देख सकता है।",
+  "sharePanel.expiryLabel": "लिंक की समय-सीमा",
+  "sharePanel.expiry.never": "कभी समाप्त नहीं",
+  "sharePanel.expiry.oneDay": "1 दिन में समाप्त",
+  "sharePanel.expiry.days": "{count} दिन में समाप्त",
+  "sharePanel.turnOff": "बंद करें",
+  "sharePanel.intro": "ऐसा लिंक बनाएँ जिससे कोई भी बिना साइन इन किए यह रीडिज़ाइन देख सके।",
+  "sharePanel.create": "लिंक बनाएँ",
+
+  "shopping.title": "खरीदारी सूची",
+  "shopping.exportCsv": "CSV एक्सपोर्ट करें",
+  "shopping.empty": "अभी कोई आइटम नहीं। जो फ़र्नीचर और सामान आप खरीदना चाहते हैं, उसे जोड़ें।",
+  "shopping.item": "आइटम",
+  "shopping.category": "श्रेणी",
+  "shopping.quantity": "मात्रा",
+  "shopping.unitPrice": "इकाई मूल्य (₹)",
+  "shopping.total": "कुल",
+  "shopping.itemPlaceholder": "जैसे सागौन की बुकशेल्फ़",
+  "shopping.itemLabel": "आइटम {number}",
+  "shopping.categoryLabel": "आइटम {number} की श्रेणी",
+  "shopping.quantityLabel": "आइटम {number} की मात्रा",
+  "shopping.priceMinLabel": "आइटम {number} का न्यूनतम इकाई मूल्य",
+  "shopping.priceMaxLabel": "आइटम {number} का अधिकतम इकाई मूल्य",
+  "shopping.removeLabel": "आइटम {number} हटाएँ",
+  "shopping.add": "आइटम जोड़ें",
+  "shopping.estimatedTotal": "अनुमानित कुल",
+  "shopping.category.furniture": "फ़र्नीचर",
+  "shopping.category.lighting": "लाइटिंग",
+  "shopping.category.decor": "सजावट",
+  "shopping.category.textiles": "कपड़े",
+  "shopping.category.paint": "पेंट",
+  "shopping.category.flooring": "फ़्लोरिंग",
+  "shopping.category.storage": "स्टोरेज",
+  "shopping.category.other": "अन्य",
+  "shopping.csv.category": "श्रेणी",
+  "shopping.csv.item": "आइटम",
+  "shopping.csv.quantity": "मात्रा",
+  "shopping.csv.priceMin": "न्यूनतम इकाई मूल्य (INR)",
+  "shopping.csv.priceMax": "अधिकतम इकाई मूल्य (INR)",
+  "shopping.csv.totalMin": "न्यूनतम कुल (INR)",
+  "shopping.csv.totalMax": "अधिकतम कुल (INR)",
+  "shopping.csv.total": "कुल",
+
+  "refine.updating": "गृहा आपका डिज़ाइन बदल रही है...",
+  "refine.saving": "नया वर्शन सेव हो रहा है...",
+  "refine.versions": "वर्शन",
+  "refine.versionAlt": "वर्शन {version}",
+  "refine.current": "मौजूदा",
+  "refine.reverted": "वर्शन {version} पर वापस लाया गया।",
+  "refine.revert": "वापस लाएँ",
+  "refine.title": "गृहा के साथ निखारें",
+  "refine.empty": "कोई बदलाव बताएँ, जैसे \"कालीन गहरा करो\" या \"पौधे जोड़ो\"। हर बदलाव से एक नया वर्शन बनता है।",
+  "refine.placeholder": "बदलाव बताएँ (1 क्रेडिट)",
+  "refine.send": "भेजें",
+
+  "homes.title": "घर",
+  "homes.subtitle": "पूरे फ़्लैट को कमरा-दर-कमरा, एक ही स्टाइल में नया रूप दें।",
+  "homes.new": "नया घर",
+  "homes.namePlaceholder": "नाम, जैसे इंदिरानगर का 2BHK",
+  "homes.nameLabel": "घर का नाम",
+  "homes.paletteOptional": "हर कमरे के लिए रंग-पट्टी (वैकल्पिक)",
+  "homes.create": "घर बनाएँ",
+  "homes.empty.title": "अभी कोई घर नहीं",
+  "homes.empty.message": "घर बनाएँ और उसके लिविंग रूम, बेडरूम और किचन को एक साथ डिज़ाइन करें।",
+  "homes.roomCountOne": "1 कमरा",
+  "homes.roomCount": "{count} कमरे",
+  "home.back": "घरों पर वापस जाएँ",
+  "home.unavailable": "घर उपलब्ध नहीं है",
+  "home.palette": "हर कमरे के लिए रंग-पट्टी",
+  "home.editNote": "स्टाइल और रंग-पट्टी के बदलाव अब से डिज़ाइन किए जाने वाले कमरों पर लागू होंगे।",
+  "home.edit": "घर बदलें",
+  "home.delete": "घर हटाएँ",
+  "home.designRoom": "कमरा डिज़ाइन करें",
+  "home.confirmDelete": "यह घर हटाएँ? इसके कमरे अलग-अलग प्रोजेक्ट के रूप में रहेंगे।",
+  "home.rooms": "कमरे",
+  "home.estimate": "सभी कमरों की अनुमानित लागत",
+  "home.noRooms.title": "अभी कोई कमरा नहीं",
+  "home.noRooms.message": "पहला कमरा डिज़ाइन करें; अगले कमरे उसी से मेल खाएँगे।",
+  "home.removeRoom": "घर से हटाएँ",
+  "home.addExisting": "मौजूदा प्रोजेक्ट जोड़ें",
+  "home.addExistingPrompt": "मौजूदा प्रोजेक्ट जोड़ें…",
+  "palette.colour": "रंग {number}",
+  "palette.remove": "रंग {number} हटाएँ",
+  "palette.add": "रंग जोड़ें",
+
+  "styles.title": "कस्टम स्टाइल",
+  "styles.new": "नया स्टाइल",
+  "styles.namePlaceholder": "नाम, जैसे केरल हेरिटेज",
+  "styles.descriptionPlaceholder": "सामग्री, फ़र्नीचर और माहौल बताएँ, जैसे सागौन की लकड़ी, पीतल के लैंप, टेराकोटा फ़र्श",
+  "styles.references": "संदर्भ तस्वीरें (वैकल्पिक)",
+  "styles.referenceAlt": "संदर्भ {number}",
+  "styles.removeReference": "संदर्भ {number} हटाएँ",
+  "styles.shareWith": "किसके साथ शेयर करें",
+  "styles.onlyMe": "सिर्फ़ मैं",
+  "styles.teamLibrary": "{team} (टीम लाइब्रेरी)",
+  "styles.save": "स्टाइल सेव करें",
+  "styles.library": "आपकी लाइब्रेरी",
+  "styles.sharedWith": "{team} के साथ शेयर किया गया",
+  "styles.private": "निजी",
+  "styles.delete": "{name} हटाएँ",
+  "styles.unshare": "{name} को निजी बनाएँ",
+  "styles.leave": "छोड़ें",
+  "styles.leaveTeam": "{team} छोड़ें",
+  "styles.teams": "टीमें",
+  "styles.inviteCode": "आमंत्रण कोड: {code}",
+  "styles.newTeamName": "नई टीम का नाम",
+  "styles.createTeam": "बनाएँ",
+  "styles.invitePlaceholder": "आमंत्रण कोड",
+  "styles.join": "जुड़ें",
+
+  "mask.title": "एक हिस्सा बदलें",
+  "mask.close": "हिस्सा एडिटर बंद करें",
+  "mask.brush": "ब्रश",
+  "mask.lasso": "लैसो",
+  "mask.size": "आकार",
+  "mask.clear": "साफ़ करें",
+  "mask.imageAlt": "बदला जाने वाला कमरा",
+  "mask.placeholder": "जैसे \"सोफ़े वाली दीवार पर सागौन की पैनलिंग लगाओ\"",
+  "mask.apply": "बदलाव लागू करें",
+  "mask.hint": "सिर्फ़ हाइलाइट किया गया हिस्सा बदलेगा। 1 क्रेडिट लगता है।",
+  "mask.prompt": "कमरे के जिस हिस्से को बदलना है, उस पर पेंट करें।",
+
+  "gallery.title": "प्रेरणा",
+  "gallery.subtitle": "इंटीरियर देखें, पसंदीदा सेव करें और किसी से भी रीडिज़ाइन को दिशा दें।",
+  "gallery.searchPlaceholder": "कमरे, स्टाइल या सामग्री खोजें",
+  "gallery.searchLabel": "प्रेरणा खोजें",
+  "gallery.search": "खोजें",
+  "gallery.suggestion.livingRoom": "लिविंग रूम",
+  "gallery.suggestion.bedroom": "बेडरूम",
+  "gallery.suggestion.kitchen": "किचन",
+  "gallery.suggestion.scandinavian": "स्कैंडिनेवियन",
+  "gallery.suggestion.indianTraditional": "भारतीय पारंपरिक",
+  "gallery.suggestion.japandi": "जापांडी",
+  "gallery.suggestion.balcony": "बालकनी",
+  "gallery.favourites": "पसंदीदा ({count})",
+  "gallery.noFavourites": "अभी कोई पसंदीदा नहीं। किसी भी तस्वीर को सेव करने के लिए दिल पर टैप करें।",
+  "gallery.noResults": "\"{query}\" के लिए कोई इंटीरियर नहीं मिला।",
+  "gallery.saveFavourite": "पसंदीदा में सेव करें",
+  "gallery.removeFavourite": "पसंदीदा से हटाएँ",
+  "gallery.photoBy": "फ़ोटो: {author}",
+  "gallery.photoByOn": "{provider} पर {author} की फ़ोटो",
+  "gallery.useAsReference": "स्टाइल संदर्भ के रूप में इस्तेमाल करें",
+  "gallery.loadMore": "और दिखाएँ",
+
+  "admin.title": "एडमिन",
+  "admin.subtitle": "खाते, जनरेशन की स्थिति और रिपोर्ट किए गए डिज़ाइन।",
+  "admin.sections": "एडमिन सेक्शन",
+  "admin.tab.users": "उपयोगकर्ता",
+  "admin.tab.usage": "उपयोग",
+  "admin.tab.moderation": "मॉडरेशन",
+  "admin.usage.window": "समय अवधि",
+  "admin.usage.lastDays": "पिछले {count} दिन",
+  "admin.usage.generations": "जनरेशन",
+  "admin.usage.failureRate": "विफलता दर",
+  "admin.usage.avgAnalysis": "औसत विश्लेषण",
+  "admin.usage.avgRedesign": "औसत रीडिज़ाइन",
+  "admin.usage.avgEdit": "औसत एडिट या सुधार",
+  "admin.usage.seconds": "{value} से.",
+  "admin.usage.latencyNote": "समय में केवल मॉडल कॉल गिनी जाती हैं; कैश से दोबारा इस्तेमाल हुए नतीजे शामिल नहीं हैं।",
+  "admin.usage.perDay": "प्रति दिन जनरेशन",
+  "admin.usage.perDayLabel": "प्रति दिन जनरेशन, सफल और विफल में बँटे हुए",
+  "admin.usage.dayTitle": "{date}: {redesigns} रीडिज़ाइन, {edits} एडिट, {failed} विफल, {canceled} रद्द",
+  "admin.usage.succeeded": "सफल या चल रहे",
+  "admin.usage.failed": "विफल",
+  "admin.usage.canceled": "रद्द",
+  "admin.usage.failures": "त्रुटि के प्रकार के अनुसार विफलताएँ",
+  "admin.usage.noFailures": "इस अवधि में कोई जनरेशन विफल नहीं हुआ।",
+  "admin.usage.error": "त्रुटि",
+  "admin.usage.jobs": "जॉब",
+  "admin.usage.share": "पूरे हुए जॉब में हिस्सा",
+  "admin.failure.invalidRoom": "कमरे की फ़ोटो नहीं",
+  "admin.failure.auth": "API कुंजी अस्वीकार हुई",
+  "admin.failure.quota": "कोटा खत्म",
+  "admin.failure.safetyBlocked": "सेफ़्टी फ़िल्टर ने रोका",
+  "admin.failure.transient": "AI सेवा उपलब्ध नहीं",
+  "admin.failure.timeout": "समय सीमा खत्म",
+  "admin.failure.unknown": "अन्य त्रुटियाँ",
+  "admin.users.search": "उपयोगकर्ता खोजें",
+  "admin.users.searchPlaceholder": "नाम या ईमेल से खोजें",
+  "admin.users.searchButton": "खोजें",
+  "admin.users.empty": "\"{search}\" से कोई उपयोगकर्ता मेल नहीं खाता।",
+  "admin.users.user": "उपयोगकर्ता",
+  "admin.users.joined": "जुड़े",
+  "admin.users.projects": "प्रोजेक्ट",
+  "admin.users.credits": "क्रेडिट",
+  "admin.users.admin": "एडमिन",
+  "admin.users.adjust": "क्रेडिट बदलें",
+  "admin.users.amount": "जोड़ने या घटाने के लिए क्रेडिट",
+  "admin.users.amountPlaceholder": "+10 या -5",
+  "admin.users.note": "कारण",
+  "admin.users.notePlaceholder": "कारण, जो उपयोगकर्ता को दिखेगा",
+  "admin.users.apply": "लागू करें",
+  "admin.moderation.reported": "शिकायत वाले",
+  "admin.moderation.hidden": "छिपाए गए",
+  "admin.moderation.noReports": "समीक्षा के लिए कोई शिकायत बाकी नहीं।",
+  "admin.moderation.noHidden": "कोई छिपाया गया डिज़ाइन नहीं।",
+  "admin.moderation.hiddenAt": "{date} को छिपाया गया",
+  "admin.moderation.guest": "साइन आउट विज़िटर",
+  "admin.moderation.confirmDelete": "यह प्रोजेक्ट इसके मालिक के लिए भी हटाएँ? इसे वापस नहीं लाया जा सकता।",
+  "admin.moderation.hide": "छिपाएँ",
+  "admin.moderation.dismiss": "शिकायतें खारिज करें",
+  "admin.moderation.unhide": "फिर से दिखाएँ",
+};
+
+export default hi;
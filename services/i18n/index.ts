@@ -0,0 +1,61 @@
+import en, { type MessageKey } from "./en";
+import hi from "./hi";
+import te from "./te";
+import { LANGUAGES, LANGUAGE_INFO, isLanguage, type Language } from "./languages";
+
+export { LANGUAGES, LANGUAGE_INFO, isLanguage };
+export type { Language, MessageKey };
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, hi, te };
+
+const STORAGE_KEY = "language";
+// setLanguage() announces itself with this event, like navigate() does for routes.
+const CHANGE_EVENT = "app:language";
+
+// A saved choice wins; otherwise the first browser language we have a catalog for.
+const initialLanguage = (): Language => {
+  if (typeof window === "undefined") return "en";
+  const saved = window.localStorage.getItem(STORAGE_KEY);
+  if (isLanguage(saved)) return saved;
+  const preferred = navigator.languages.map((tag) => tag.split("-")[0]).find(isLanguage);
+  return preferred ?? "en";
+};
+
+let current = initialLanguage();
+if (typeof document !== "undefined") document.documentElement.lang = LANGUAGE_INFO[current].locale;
+
+export const getLanguage = () => current;
+
+export const getLocale = () => LANGUAGE_INFO[current].locale;
+
+export function setLanguage(language: Language) {
+  if (language === current) return;
+  current = language;
+  window.localStorage.setItem(STORAGE_KEY, language);
+  document.documentElement.lang = LANGUAGE_INFO[language].locale;
+  window.dispatchEvent(new Event(CHANGE_EVENT));
+}
+
+/** Calls `listener` after every language change; returns the unsubscribe function. */
+export function onLanguageChange(listener: () => void) {
+  window.addEventListener(CHANGE_EVENT, listener);
+  return () => window.removeEventListener(CHANGE_EVENT, listener);
+}
+
+/** The message in `language`, for text rendered outside the app such as the server's PDF briefs. */
+export function translate(language: Language, key: MessageKey, params: Record<string, string | number> = {}): string {
+  const template = CATALOGS[language][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+/** The message in the current language, with `{name}` placeholders filled from `params`. */
+export function t(key: MessageKey, params: Record<string, string | number> = {}): string {
+  return translate(current, key, params);
+}
+
+/** In the current language's locale, e.g. `19 Oct 2026` in English. */
+export const formatDate = (value: string | number | Date) =>
+  new Date(value).toLocaleDateString(getLocale(), { dateStyle: "medium" });
+
+export const formatDateTime = (value: string | number | Date) =>
+  new Date(value).toLocaleString(getLocale(), { dateStyle: "medium", timeStyle: "short" });
@@ -0,0 +1,21 @@
+/** Languages the app is translated into; the server accepts these for analysis text too. */
+export const LANGUAGES = ["en", "hi", "te"] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export interface LanguageInfo {
+  /** As named in prompts, which are written in English. */
+  englishName: string;
+  /** As shown in the language switcher. */
+  nativeName: string;
+  /** BCP 47 tag for dates, numbers and `<html lang>`. */
+  locale: string;
+}
+
+export const LANGUAGE_INFO: Record<Language, LanguageInfo> = {
+  en: { englishName: "English", nativeName: "English", locale: "en-IN" },
+  hi: { englishName: "Hindi", nativeName: "हिन्दी", locale: "hi-IN" },
+  te: { englishName: "Telugu", nativeName: "తెలుగు", locale: "te-IN" },
+};
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.includes(value as Language);
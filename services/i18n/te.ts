@@ -0,0 +1,485 @@
+import type { MessageKey } from "./en";
+
+const te: Record<MessageKey, string> = {
+  "language.label": "భాష",
+
+  "nav.home": "హోమ్",
+  "nav.design": "కొత్త డిజైన్",
+  "nav.projects": "నా ప్రాజెక్ట్‌లు",
+  "nav.homes": "ఇళ్లు",
+  "nav.gallery": "స్ఫూర్తి",
+  "nav.credits": "క్రెడిట్‌లు",
+  "nav.settings": "సెట్టింగ్‌లు",
+  "nav.admin": "అడ్మిన్",
+  "nav.signOut": "సైన్ అవుట్",
+  "public.getStarted": "ప్రారంభించండి",
+
+  "landing.title": "మీ",
+  "landing.titleEmphasis": "ఇంటికి కొత్త రూపం",
+  "landing.subtitle": "ఏ గది ఫోటోనైనా అప్‌లోడ్ చేయండి, మా AI కొన్ని సెకన్లలోనే దాన్ని ప్రొఫెషనల్ ఇంటీరియర్ డిజైన్ కాన్సెప్ట్‌గా మారుస్తుంది.",
+  "landing.start": "ఉచితంగా డిజైన్ చేయండి",
+  "landing.gallery": "గ్యాలరీ చూడండి",
+  "landing.previewAlt": "ఇంటీరియర్",
+  "landing.previewCaption": "మోడర్న్ స్కాండినేవియన్",
+
+  "notFound.title": "పేజీ కనబడలేదు",
+  "notFound.message": "ఈ లింక్ ఎక్కడికీ వెళ్లదు. ఇది తప్పుగా టైప్ చేసి ఉండవచ్చు లేదా పాతది కావచ్చు.",
+  "notFound.home": "హోమ్‌కు వెళ్లండి",
+
+  "action.buyCredits": "క్రెడిట్‌లు కొనండి",
+  "action.selectApiKey": "API కీ ఎంచుకోండి",
+  "payment.paid.title": "చెల్లింపు అందింది",
+  "payment.paid.message": "మీ క్రెడిట్‌లు జోడించబడ్డాయి.",
+  "payment.failed.title": "చెల్లింపు విఫలమైంది",
+  "payment.failed.message": "మీ నుండి ఎలాంటి రుసుము తీసుకోలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  "payment.pending.title": "చెల్లింపు ప్రాసెస్ అవుతోంది",
+  "payment.pending.message": "చెల్లింపు నిర్ధారణ అయిన వెంటనే మీ క్రెడిట్‌లు కనిపిస్తాయి.",
+
+  "style.modern.name": "మోడర్న్",
+  "style.modern.description": "శుభ్రమైన గీతలు, న్యూట్రల్ రంగులు",
+  "style.minimalist.name": "మినిమలిస్ట్",
+  "style.minimalist.description": "తక్కువలోనే ఎక్కువ, ఉపయోగకరం",
+  "style.scandinavian.name": "స్కాండినేవియన్",
+  "style.scandinavian.description": "తేలికగా, విశాలంగా, చెక్క అల్లికలు",
+  "style.industrial.name": "ఇండస్ట్రియల్",
+  "style.industrial.description": "ముడి పదార్థాలు, బయటకు కనిపించే ఇటుకలు",
+  "style.luxury.name": "లగ్జరీ",
+  "style.luxury.description": "వైభవంగా, గొప్ప అల్లికలు, బంగారు రంగు",
+  "style.bohemian.name": "బోహేమియన్",
+  "style.bohemian.description": "వైవిధ్యంగా, రంగులమయంగా, సహజంగా",
+  "style.japandi.name": "జపాండీ",
+  "style.japandi.description": "జపనీస్ జెన్ మరియు స్కాండినేవియన్ కలయిక",
+  "style.deleted": "కస్టమ్ స్టైల్",
+
+  "design.title": "కొత్త కాన్సెప్ట్ సృష్టించండి",
+  "design.subtitle": "గది ఫోటోను అప్‌లోడ్ చేసి మీకు నచ్చిన స్టైల్ ఎంచుకోండి.",
+  "design.uploadHeading": "1. గదిని అప్‌లోడ్ చేయండి",
+  "design.preparing": "ఫోటో సిద్ధమవుతోంది...",
+  "design.uploadAlt": "అప్‌లోడ్",
+  "design.uploadPrompt": "ఫోటో అప్‌లోడ్ చేయడానికి క్లిక్ చేయండి",
+  "design.uploadHint": "JPG, PNG లేదా WebP, 10MB వరకు",
+  "design.styleHeading": "2. స్టైల్ ఎంచుకోండి",
+  "design.homeLabel": "ఇల్లు",
+  "design.standalone": "విడి గది",
+  "design.partOfHome": "{home}లో భాగం",
+  "design.homeNote": "{home}లోని గదులు దాని స్టైల్‌ను పాటిస్తాయి, మిగతా గదులతో సరిపోలుతాయి.",
+  "design.homePaletteNote": "{home}లోని గదులు దాని స్టైల్ మరియు రంగులను పాటిస్తాయి, మిగతా గదులతో సరిపోలుతాయి.",
+  "design.inspiration": "స్ఫూర్తి రిఫరెన్స్",
+  "design.removeInspiration": "స్ఫూర్తి రిఫరెన్స్ తీసివేయండి",
+  "design.pickAnotherReference": "మరో రిఫరెన్స్ ఎంచుకోండి",
+  "design.addReference": "గ్యాలరీ నుండి రిఫరెన్స్ జోడించండి",
+  "design.createStyle": "కస్టమ్ స్టైల్ సృష్టించండి",
+  "design.variationsHeading": "3. వేరియేషన్‌లు",
+  "design.variationCost": "ప్రతి వేరియేషన్‌కు 1 క్రెడిట్ పడుతుంది; మీరు సేవ్ చేయనివాటి క్రెడిట్‌లు తిరిగి ఇవ్వబడతాయి.",
+  "design.preserveLayout": "లేఅవుట్‌ను అలాగే ఉంచండి",
+  "design.preserveLayoutHint": "గోడలు, కిటికీలు, తలుపులు ఉన్నచోటే ఉంటాయి. వాటిని కదిలించే డిజైన్‌లు మళ్లీ తయారవుతాయి కాబట్టి ఎక్కువ సమయం పడుతుంది.",
+  "design.forceRegenerate": "మళ్లీ సృష్టించండి",
+  "design.forceRegenerateHint": "అదే ఫోటో, స్టైల్‌తో ఇంతకు ముందు చేసిన డిజైన్‌లు ఉచితంగా మళ్లీ వాడబడతాయి. కొత్తవి కావాలంటే దీన్ని టిక్ చేయండి.",
+  "design.processing": "ప్రాసెస్ అవుతోంది...",
+  "design.generate": "డిజైన్ సృష్టించండి",
+  "design.editRegionOnly": "ఒక భాగాన్ని మాత్రమే మార్చండి",
+  "design.emptyTitle": "మీ కొత్త డిజైన్ ఇక్కడ కనిపిస్తుంది",
+  "design.emptyMessage": "ఫోటో అప్‌లోడ్ చేసి, సృష్టించండి నొక్కి మ్యాజిక్ చూడండి.",
+  "design.waitMessage": "మా AI మీ గదికి కొత్త రూపం ఇస్తోంది. దీనికి సాధారణంగా 15-30 సెకన్లు పడుతుంది.",
+  "design.resumeHint": "మీరు ఈ పేజీని వదిలి వెళ్లవచ్చు లేదా రీలోడ్ చేయవచ్చు; పని ఆగిన చోటి నుంచే కొనసాగుతుంది.",
+  "design.cancel": "రద్దు చేయండి",
+  "design.resultTitle": "కొత్త డిజైన్",
+  "design.editRegion": "భాగాన్ని మార్చండి",
+  "design.download": "డౌన్‌లోడ్",
+  "design.share": "షేర్ చేయండి",
+  "design.layoutShifted": "ఈ డిజైన్‌లో లేఅవుట్ మారి ఉండవచ్చు: కొన్ని గోడలు, కిటికీలు లేదా తలుపులు మీ ఫోటోతో సరిపోలడం లేదు. వాడే ముందు అసలు ఫోటోతో పోల్చి చూడండి.",
+  "design.before": "ముందు",
+  "design.after": "తర్వాత",
+  "design.compare": "ముందు, తర్వాత పోల్చండి",
+  "design.analysisTitle": "AI విశ్లేషణ మరియు సూచనలు",
+  "design.roomType": "గది రకం",
+  "design.lighting": "వెలుతురు",
+  "design.improvements": "ముఖ్యమైన మెరుగుదలలు",
+
+  "variations.saved": "నా ప్రాజెక్ట్‌లలో సేవ్ అయింది",
+  "variations.pick": "ఉంచుకోవాల్సిన వేరియేషన్‌లను ఎంచుకోండి",
+  "variations.saveOne": "1 సేవ్ చేయండి (1 క్రెడిట్)",
+  "variations.save": "{count} సేవ్ చేయండి ({count} క్రెడిట్‌లు)",
+  "variations.alt": "వేరియేషన్ {number}",
+  "variations.select": "వేరియేషన్ {number} ఎంచుకోండి",
+  "variations.deselect": "వేరియేషన్ {number} ఎంపిక తీసివేయండి",
+  "variations.layoutShiftedHint": "లేఅవుట్ మారి ఉండవచ్చు",
+  "variations.layoutShifted": "లేఅవుట్ మారింది",
+
+  "stage.uploading": "ఫోటో అప్‌లోడ్ అవుతోంది...",
+  "stage.queued": "ప్రారంభం కోసం వేచి ఉంది...",
+  "stage.analyzing": "గది నిర్మాణాన్ని విశ్లేషిస్తోంది...",
+  "stage.generating": "కొత్త కాన్సెప్ట్ తయారవుతోంది...",
+  "stage.generatingVariations": "{count} డిజైన్ వేరియేషన్‌లు తయారవుతున్నాయి...",
+  "stage.checkingLayout": "డిజైన్ తయారవుతోంది, లేఅవుట్ తనిఖీ అవుతోంది...",
+  "stage.checkingLayoutVariations": "{count} వేరియేషన్‌లు తయారవుతున్నాయి, లేఅవుట్ తనిఖీ అవుతోంది...",
+  "stage.editing": "ఎంచుకున్న భాగాన్ని మారుస్తోంది...",
+  "stage.saving": "ప్రాజెక్ట్ సేవ్ అవుతోంది...",
+  "stage.done": "పూర్తయింది",
+
+  "notice.cached.title": "ఇంతకు ముందు చేసిన డిజైన్ మళ్లీ వాడబడింది",
+  "notice.cached.variations": "ఈ వేరియేషన్‌లు ఇంతకు ముందు అదే ఫోటో, స్టైల్‌తో తయారయ్యాయి. కొత్తవి కావాలంటే \"మళ్లీ సృష్టించండి\" టిక్ చేయండి.",
+  "notice.cached.single": "ఈ డిజైన్ ఇంతకు ముందు అదే ఫోటో, స్టైల్‌తో తయారైంది, అందుకే మీ క్రెడిట్ తిరిగి ఇవ్వబడింది. కొత్తది కావాలంటే \"మళ్లీ సృష్టించండి\" టిక్ చేయండి.",
+  "notice.canceled.title": "డిజైన్ తయారీ రద్దయింది",
+  "notice.canceled.message": "మీ క్రెడిట్ తిరిగి ఇవ్వబడింది.",
+  "notice.notEnoughCredits.title": "తగినన్ని క్రెడిట్‌లు లేవు",
+  "notice.notEnoughCredits.message": "{count} వేరియేషన్‌లు సేవ్ చేయడానికి {count} క్రెడిట్‌లు కావాలి, కానీ మీ దగ్గర {credits} ఉన్నాయి.",
+  "notice.linkCopied.title": "లింక్ క్లిప్‌బోర్డ్‌కు కాపీ అయింది!",
+  "notice.linkCopied.message": "ప్రాజెక్ట్ పేజీ నుండి లింక్‌ను నిర్వహించండి లేదా ఆపివేయండి.",
+  "share.title": "నా గది కొత్త డిజైన్",
+  "share.text": "నా గది {style} డిజైన్ చూడండి!",
+  "sharePage.defaultTitle": "{style} స్టైల్‌లో {room} కొత్త డిజైన్",
+  "sharePage.description": "GruhaBuddy తో కొత్తగా తీర్చిదిద్దిన గది.",
+  "sharePage.sharedOn": "GruhaBuddy లో షేర్ చేయబడింది",
+  "sharePage.compare": "ముందు మరియు తర్వాత పోల్చండి",
+  "sharePage.ideas": "డిజైన్ ఆలోచనలు",
+  "sharePage.cta": "మీ గదిని కొత్తగా డిజైన్ చేయండి",
+  "sharePage.report": "ఈ డిజైన్‌పై ఫిర్యాదు చేయండి",
+  "sharePage.reason": "కారణం",
+  "sharePage.reason.nudity": "నగ్నత్వం లేదా లైంగిక కంటెంట్",
+  "sharePage.reason.violence": "హింసాత్మక లేదా ద్వేషపూరిత కంటెంట్",
+  "sharePage.reason.someoneElse": "వేరొకరి ఫోటో లేదా డిజైన్",
+  "sharePage.reason.spam": "స్పామ్ లేదా ప్రకటన",
+  "sharePage.reason.other": "ఇంకేదైనా",
+  "sharePage.sendReport": "ఫిర్యాదు పంపండి",
+  "sharePage.back": "డిజైన్‌కు తిరిగి వెళ్ళండి",
+  "sharePage.gone.title": "లింక్ అందుబాటులో లేదు",
+  "sharePage.gone.heading": "ఈ లింక్ ఇకపై అందుబాటులో లేదు",
+  "sharePage.gone.message": "యజమాని షేరింగ్ ఆపివేసి ఉండవచ్చు, లేదా లింక్ గడువు ముగిసి ఉండవచ్చు.",
+  "sharePage.gone.cta": "GruhaBuddy ని సందర్శించండి",
+  "sharePage.limited.title": "చాలా ఎక్కువ ఫిర్యాదులు",
+  "sharePage.limited.heading": "చాలా ఎక్కువ ఫిర్యాదులు",
+  "sharePage.limited.message": "దయచేసి తర్వాత మళ్ళీ ప్రయత్నించండి, లేదా ఈ డిజైన్‌పై ఫిర్యాదు చేయడానికి సైన్ ఇన్ చేయండి.",
+  "sharePage.reported.title": "ఫిర్యాదు పంపబడింది",
+  "sharePage.reported.heading": "తెలియజేసినందుకు ధన్యవాదాలు",
+  "sharePage.reported.message": "మా బృందం ఈ డిజైన్‌ను సమీక్షిస్తుంది.",
+
+  "upload.unreadable": "ఈ ఫోటోను చదవలేకపోయాం. దయచేసి మరో ఫోటో ప్రయత్నించండి.",
+  "upload.unsupported": "ఈ ఫైల్ రకానికి మద్దతు లేదు. దయచేసి JPG, PNG లేదా WebP ఫోటోను అప్‌లోడ్ చేయండి.",
+  "upload.tooLarge": "ఈ ఫోటో {size}MB ఉంది. దయచేసి 10MB వరకు ఉన్న ఇమేజ్‌ను అప్‌లోడ్ చేయండి.",
+  "upload.heic": "HEIC ఫోటోలకు మద్దతు లేదు. ముందుగా దాన్ని JPGగా ఎక్స్‌పోర్ట్ చేయండి, లేదా కెమెరాను JPGలో సేవ్ చేసేలా సెట్ చేయండి.",
+  "upload.invalid": "ఈ ఫైల్ సరైన ఇమేజ్‌లా అనిపించడం లేదు.",
+  "upload.tooSmall": "ఈ ఫోటో చాలా చిన్నది ({width}×{height}). దయచేసి ప్రతి వైపు కనీసం {min}px ఉన్న ఫోటోను వాడండి.",
+  "upload.unsupportedBrowser": "మీ బ్రౌజర్ ఈ ఇమేజ్‌ను ప్రాసెస్ చేయలేకపోయింది.",
+
+  "error.invalid-room.title": "ఇది గదిలా అనిపించడం లేదు",
+  "error.invalid-room.message": "దయచేసి బెడ్‌రూమ్, లివింగ్ రూమ్ లేదా కిచెన్ వంటి గది ఫోటోను అప్‌లోడ్ చేయండి.",
+  "error.auth.title": "API కీ సమస్య",
+  "error.auth.message": "AI సేవ మీ కీని తిరస్కరించింది. దాని ప్రాజెక్ట్‌లో Gemini API మరియు బిల్లింగ్ ఆన్‌లో ఉన్నాయో చూడండి, లేదా మరో కీని ఎంచుకోండి.",
+  "error.quota.title": "AI కోటా అయిపోయింది",
+  "error.quota.message": "మీ API కీ వినియోగ పరిమితిని చేరుకుంది. ఒక నిమిషం ఆగి మళ్లీ ప్రయత్నించండి, లేదా ఎక్కువ కోటా ఉన్న కీని ఎంచుకోండి.",
+  "error.safety-blocked.title": "అభ్యర్థన నిలిపివేయబడింది",
+  "error.safety-blocked.message": "AI భద్రతా ఫిల్టర్‌లు ఈ అభ్యర్థనను నిలిపివేశాయి. మరో ఫోటో ప్రయత్నించండి లేదా మీ సూచనను వేరేలా రాయండి.",
+  "error.transient.title": "AI సేవ అందుబాటులో లేదు",
+  "error.transient.message": "చాలాసార్లు ప్రయత్నించినా AI సేవను చేరుకోలేకపోయాం. దయచేసి కాసేపటి తర్వాత మళ్లీ ప్రయత్నించండి.",
+  "error.timeout.title": "ఇది చాలా సమయం తీసుకుంటోంది",
+  "error.timeout.message": "AI సేవ సమయానికి స్పందించలేదు. దయచేసి మళ్లీ ప్రయత్నించండి.",
+  "error.credits.title": "క్రెడిట్‌లు అయిపోయాయి",
+  "error.credits.message": "మీరు మీ క్రెడిట్‌లన్నీ వాడేశారు.",
+  "error.unknown.title": "ఏదో తప్పు జరిగింది",
+  "error.unknown.message": "దయచేసి మళ్లీ ప్రయత్నించండి.",
+
+  "settings.title": "సెట్టింగ్‌లు",
+  "settings.subtitle": "మీ ఖాతా మరియు GruhaBuddy తన AI మోడల్‌లకు ఎలా కనెక్ట్ అవుతుంది.",
+  "settings.account": "ఖాతా",
+  "settings.name": "పేరు",
+  "settings.email": "ఈమెయిల్",
+  "settings.accountNote": "మీ పేరు మరియు ఈమెయిల్ మీరు సైన్ ఇన్ చేసే ఖాతా నుండి వస్తాయి.",
+  "settings.credits": "క్రెడిట్‌లు",
+  "settings.creditsLeft": "క్రెడిట్‌లు మిగిలి ఉన్నాయి",
+  "settings.buyCredits": "క్రెడిట్‌లు కొనండి, చరిత్ర చూడండి",
+  "settings.apiKey": "Gemini API కీ",
+  "settings.keySelected": "ఈ సెషన్ కోసం ఒక కీ ఎంచుకోబడింది.",
+  "settings.noKey": "ఏ కీ ఎంచుకోలేదు; కీ ఎంచుకునే వరకు డిజైన్‌లు తయారవవు.",
+  "settings.changeKey": "కీ మార్చండి",
+  "settings.languageNote": "యాప్‌కు మరియు AI రాసే గది విశ్లేషణకు వాడబడుతుంది. ఇంతకు ముందు చేసిన విశ్లేషణలు వాటి భాషలోనే ఉంటాయి.",
+  "settings.signOut": "సైన్ అవుట్",
+
+  "credits.title": "క్రెడిట్‌లు",
+  "credits.subtitle": "సేవ్ చేసిన ప్రతి డిజైన్, ఎడిట్ లేదా మెరుగుదలకు ఒక క్రెడిట్ ఖర్చవుతుంది.",
+  "credits.balance": "బ్యాలెన్స్",
+  "credits.plan": "ప్లాన్",
+  "credits.topUp": "టాప్-అప్",
+  "credits.amount": "{count} క్రెడిట్‌లు",
+  "credits.perCredit": "ఒక్కో క్రెడిట్‌కు {price}",
+  "credits.history": "చరిత్ర",
+  "credits.empty": "ఇంకా క్రెడిట్ కార్యకలాపాలు లేవు.",
+  "credits.date": "తేదీ",
+  "credits.type": "రకం",
+  "credits.details": "వివరాలు",
+  "credits.kind.grant": "ఉచిత క్రెడిట్‌లు",
+  "credits.kind.debit": "వాడినవి",
+  "credits.kind.refund": "రీఫండ్",
+  "credits.kind.purchase": "కొనుగోలు",
+
+  "common.style": "స్టైల్",
+  "common.palette": "రంగుల పాలెట్",
+  "common.save": "సేవ్ చేయండి",
+  "common.cancel": "రద్దు చేయండి",
+  "common.delete": "తొలగించండి",
+  "common.keep": "ఉంచండి",
+  "common.close": "మూసివేయండి",
+
+  "projects.title": "నా ప్రాజెక్ట్‌లు",
+  "projects.subtitle": "AI తో మార్చిన మీ గదుల చరిత్ర.",
+  "projects.searchPlaceholder": "పేర్లు, గదులు, డిజైన్ నోట్స్ వెతకండి",
+  "projects.searchLabel": "ప్రాజెక్ట్‌లు వెతకండి",
+  "projects.allStyles": "అన్ని స్టైల్స్",
+  "projects.roomType": "గది రకం",
+  "projects.allRooms": "అన్ని గదులు",
+  "projects.from": "నుండి",
+  "projects.to": "వరకు",
+  "projects.sortBy": "క్రమం",
+  "projects.sort.newest": "కొత్తవి ముందు",
+  "projects.sort.oldest": "పాతవి ముందు",
+  "projects.sort.title": "పేరు",
+  "projects.sort.roomType": "గది రకం",
+  "projects.sort.style": "స్టైల్",
+  "projects.archived": "ఆర్కైవ్ చేసినవి",
+  "projects.clear": "క్లియర్ చేయండి",
+  "projects.noMatches.title": "సరిపోలే ప్రాజెక్ట్‌లు లేవు",
+  "projects.noMatches.message": "వేరేది వెతకండి లేదా ఫిల్టర్‌లను క్లియర్ చేయండి.",
+  "projects.empty.title": "ఇంకా ప్రాజెక్ట్‌లు లేవు",
+  "projects.empty.message": "మీ మొదటి రీడిజైన్ ప్రారంభించండి, అది ఇక్కడ కనిపిస్తుంది.",
+  "projects.countOne": "1 ప్రాజెక్ట్",
+  "projects.count": "{count} ప్రాజెక్ట్‌లు",
+  "projects.page": "పేజీ {page} / {count}",
+  "projects.previousPage": "మునుపటి పేజీ",
+  "projects.nextPage": "తదుపరి పేజీ",
+
+  "project.defaultTitle": "{room} రీడిజైన్",
+  "project.open": "{title} తెరవండి",
+  "project.openProject": "ప్రాజెక్ట్ తెరవండి",
+  "project.redesignAlt": "రీడిజైన్",
+  "project.nameLabel": "ప్రాజెక్ట్ పేరు",
+  "project.saveName": "పేరు సేవ్ చేయండి",
+  "project.cancelRename": "పేరు మార్పు రద్దు చేయండి",
+  "project.rename": "పేరు మార్చండి",
+  "project.archive": "ఆర్కైవ్ చేయండి",
+  "project.unarchive": "ఆర్కైవ్ నుండి తీసివేయండి",
+  "project.confirmDelete": "ఈ ప్రాజెక్ట్‌ను శాశ్వతంగా తొలగించాలా?",
+  "project.back": "ప్రాజెక్ట్‌లకు తిరిగి వెళ్లండి",
+  "project.unavailable": "ప్రాజెక్ట్ అందుబాటులో లేదు",
+  "project.downloadBrief": "PDF బ్రీఫ్ డౌన్‌లోడ్ చేయండి",
+  "project.tryAnotherStyle": "మరో స్టైల్ ప్రయత్నించండి",
+  "project.regenerate": "{style} లో మళ్లీ రూపొందించండి",
+  "project.regenerateCost": "1 క్రెడిట్ ఖర్చవుతుంది, కొత్త ప్రాజెక్ట్ సేవ్ అవుతుంది.",
+
+  "brief.title": "డిజైన్ బ్రీఫ్",
+  "brief.roomAnalysis": "గది విశ్లేషణ",
+  "brief.costEstimate": "ఖర్చు అంచనా",
+  "brief.unitPrice": "యూనిట్ ధర",
+  "brief.disclaimer": "ధరలు భారతీయ మార్కెట్‌కు సూచనాత్మక శ్రేణులు; డెలివరీ, ఇన్‌స్టాలేషన్ ఖర్చులు ఇందులో లేవు.",
+  "brief.preparedWith": "GruhaBuddy తో తయారు చేయబడింది",
+  "brief.page": "పేజీ {page} / {count}",
+
+  "sharePanel.title": "పబ్లిక్ లింక్",
+  "sharePanel.hidden": "ఫిర్యాదు తర్వాత ఈ డిజైన్ దాచబడింది, కాబట్టి దీన్ని షేర్ చేయలేరు. ఇది పొరపాటు అనుకుంటే సపోర్ట్‌ను సంప్రదించండి.",
+  "sharePanel.linkLabel": "పబ్లిక్ లింక్",
+  "sharePanel.copy": "లింక్ కాపీ చేయండి",
+  "sharePanel.expiresAt": "{date} న గడువు ముగుస్తుంది. లింక్ ఉన్న ఎవరైనా ముందు, తర్వాత చిత్రాలను చూడవచ్చు.",
+  "sharePanel.neverExpires": "గడువు ఎప్పటికీ ముగియదు. లింక్ ఉన్న ఎవరైనా ముందు, తర్వాత చిత్రాలను చూడవచ్చు.",
+  "sharePanel.expiryLabel": "లింక్ గడువు",
+  "sharePanel.expiry.never": "గడువు లేదు",
+  "sharePanel.expiry.oneDay": "1 రోజులో గడువు ముగుస్తుంది",
+  "sharePanel.expiry.days": "{count} రోజుల్లో గడువు ముగుస్తుంది",
+  "sharePanel.turnOff": "ఆపివేయండి",
+  "sharePanel.intro": "సైన్ ఇన్ అవసరం లేకుండా ఎవరైనా ఈ రీడిజైన్ చూడగలిగే లింక్ సృష్టించండి.",
+  "sharePanel.create": "లింక్ సృష్టించండి",
+
+  "shopping.title": "షాపింగ్ జాబితా",
+  "shopping.exportCsv": "CSV ఎగుమతి చేయండి",
+  "shopping.empty": "ఇంకా వస్తువులు లేవు. మీరు కొనాలనుకునే ఫర్నిచర్, సామగ్రిని జోడించండి.",
+  "shopping.item": "వస్తువు",
+  "shopping.category": "వర్గం",
+  "shopping.quantity": "సంఖ్య",
+  "shopping.unitPrice": "ఒక్కదాని ధర (₹)",
+  "shopping.total": "మొత్తం",
+  "shopping.itemPlaceholder": "ఉదా. టేకు పుస్తకాల అర",
+  "shopping.itemLabel": "వస్తువు {number}",
+  "shopping.categoryLabel": "వస్తువు {number} వర్గం",
+  "shopping.quantityLabel": "వస్తువు {number} సంఖ్య",
+  "shopping.priceMinLabel": "వస్తువు {number} కనీస ధర",
+  "shopping.priceMaxLabel": "వస్తువు {number} గరిష్ఠ ధర",
+  "shopping.removeLabel": "వస్తువు {number} తీసివేయండి",
+  "shopping.add": "వస్తువు జోడించండి",
+  "shopping.estimatedTotal": "అంచనా మొత్తం",
+  "shopping.category.furniture": "ఫర్నిచర్",
+  "shopping.category.lighting": "లైటింగ్",
+  "shopping.category.decor": "అలంకరణ",
+  "shopping.category.textiles": "వస్త్రాలు",
+  "shopping.category.paint": "పెయింట్",
+  "shopping.category.flooring": "ఫ్లోరింగ్",
+  "shopping.category.storage": "స్టోరేజ్",
+  "shopping.category.other": "ఇతరాలు",
+  "shopping.csv.category": "వర్గం",
+  "shopping.csv.item": "వస్తువు",
+  "shopping.csv.quantity": "సంఖ్య",
+  "shopping.csv.priceMin": "కనీస ధర (INR)",
+  "shopping.csv.priceMax": "గరిష్ఠ ధర (INR)",
+  "shopping.csv.totalMin": "కనీస మొత్తం (INR)",
+  "shopping.csv.totalMax": "గరిష్ఠ మొత్తం (INR)",
+  "shopping.csv.total": "మొత్తం",
+
+  "refine.updating": "గృహ మీ డిజైన్‌ను మారుస్తోంది...",
+  "refine.saving": "కొత్త వెర్షన్ సేవ్ అవుతోంది...",
+  "refine.versions": "వెర్షన్‌లు",
+  "refine.versionAlt": "వెర్షన్ {version}",
+  "refine.current": "ప్రస్తుతం",
+  "refine.reverted": "వెర్షన్ {version} కి తిరిగి మార్చబడింది.",
+  "refine.revert": "తిరిగి మార్చండి",
+  "refine.title": "గృహతో మెరుగుపరచండి",
+  "refine.empty": "ఏదైనా మార్పు అడగండి, ఉదా. \"రగ్గును ముదురుగా చేయి\" లేదా \"మొక్కలు జోడించు\". ప్రతి మార్పు కొత్త వెర్షన్‌ను సృష్టిస్తుంది.",
+  "refine.placeholder": "మార్పును వివరించండి (1 క్రెడిట్)",
+  "refine.send": "పంపండి",
+
+  "homes.title": "ఇళ్లు",
+  "homes.subtitle": "మొత్తం ఫ్లాట్‌ను గది గదిగా, ఒకే స్టైల్‌లో రీడిజైన్ చేయండి.",
+  "homes.new": "కొత్త ఇల్లు",
+  "homes.namePlaceholder": "పేరు, ఉదా. ఇందిరానగర్‌లో 2BHK",
+  "homes.nameLabel": "ఇంటి పేరు",
+  "homes.paletteOptional": "ప్రతి గదికి రంగుల పాలెట్ (ఐచ్ఛికం)",
+  "homes.create": "ఇల్లు సృష్టించండి",
+  "homes.empty.title": "ఇంకా ఇళ్లు లేవు",
+  "homes.empty.message": "ఇంటిని సృష్టించి దాని లివింగ్ రూమ్, బెడ్‌రూమ్‌లు, వంటగదిని కలిపి డిజైన్ చేయండి.",
+  "homes.roomCountOne": "1 గది",
+  "homes.roomCount": "{count} గదులు",
+  "home.back": "ఇళ్లకు తిరిగి వెళ్లండి",
+  "home.unavailable": "ఇల్లు అందుబాటులో లేదు",
+  "home.palette": "ప్రతి గదికి రంగుల పాలెట్",
+  "home.editNote": "స్టైల్, పాలెట్ మార్పులు ఇకపై మీరు డిజైన్ చేసే గదులకు వర్తిస్తాయి.",
+  "home.edit": "ఇంటిని మార్చండి",
+  "home.delete": "ఇంటిని తొలగించండి",
+  "home.designRoom": "గదిని డిజైన్ చేయండి",
+  "home.confirmDelete": "ఈ ఇంటిని తొలగించాలా? దాని గదులు వేర్వేరు ప్రాజెక్ట్‌లుగా ఉంటాయి.",
+  "home.rooms": "గదులు",
+  "home.estimate": "అన్ని గదుల అంచనా ఖర్చు",
+  "home.noRooms.title": "ఇంకా గదులు లేవు",
+  "home.noRooms.message": "మొదటి గదిని డిజైన్ చేయండి; తర్వాతి గదులు దానికి సరిపోయేలా ఉంటాయి.",
+  "home.removeRoom": "ఇంటి నుండి తీసివేయండి",
+  "home.addExisting": "ఉన్న ప్రాజెక్ట్‌ను జోడించండి",
+  "home.addExistingPrompt": "ఉన్న ప్రాజెక్ట్‌ను జోడించండి…",
+  "palette.colour": "రంగు {number}",
+  "palette.remove": "రంగు {number} తీసివేయండి",
+  "palette.add": "రంగు జోడించండి",
+
+  "styles.title": "కస్టమ్ స్టైల్స్",
+  "styles.new": "కొత్త స్టైల్",
+  "styles.namePlaceholder": "పేరు, ఉదా. కేరళ హెరిటేజ్",
+  "styles.descriptionPlaceholder": "సామగ్రి, ఫర్నిచర్, వాతావరణాన్ని వివరించండి, ఉదా. టేకు చెక్క, ఇత్తడి దీపాలు, టెర్రకోట నేల",
+  "styles.references": "రిఫరెన్స్ చిత్రాలు (ఐచ్ఛికం)",
+  "styles.referenceAlt": "రిఫరెన్స్ {number}",
+  "styles.removeReference": "రిఫరెన్స్ {number} తీసివేయండి",
+  "styles.shareWith": "ఎవరితో షేర్ చేయాలి",
+  "styles.onlyMe": "నేను మాత్రమే",
+  "styles.teamLibrary": "{team} (టీమ్ లైబ్రరీ)",
+  "styles.save": "స్టైల్ సేవ్ చేయండి",
+  "styles.library": "మీ లైబ్రరీ",
+  "styles.sharedWith": "{team} తో షేర్ చేయబడింది",
+  "styles.private": "ప్రైవేట్",
+  "styles.delete": "{name} తొలగించండి",
+  "styles.unshare": "{name} ను ప్రైవేట్ చేయండి",
+  "styles.leave": "వదిలివేయండి",
+  "styles.leaveTeam": "{team} ను వదిలివేయండి",
+  "styles.teams": "టీమ్‌లు",
+  "styles.inviteCode": "ఆహ్వాన కోడ్: {code}",
+  "styles.newTeamName": "కొత్త టీమ్ పేరు",
+  "styles.createTeam": "సృష్టించండి",
+  "styles.invitePlaceholder": "ఆహ్వాన కోడ్",
+  "styles.join": "చేరండి",
+
+  "mask.title": "ఒక భాగాన్ని మార్చండి",
+  "mask.close": "భాగం ఎడిటర్ మూసివేయండి",
+  "mask.brush": "బ్రష్",
+  "mask.lasso": "లాసో",
+  "mask.size": "పరిమాణం",
+  "mask.clear": "క్లియర్ చేయండి",
+  "mask.imageAlt": "మార్చాల్సిన గది",
+  "mask.placeholder": "ఉదా. \"సోఫా గోడకు టేకు ప్యానెలింగ్ వేయి\"",
+  "mask.apply": "మార్పు వర్తింపజేయండి",
+  "mask.hint": "హైలైట్ చేసిన భాగం మాత్రమే మారుతుంది. 1 క్రెడిట్ ఖర్చవుతుంది.",
+  "mask.prompt": "గదిలో మీరు మార్చాలనుకునే భాగంపై పెయింట్ చేయండి.",
+
+  "gallery.title": "స్ఫూర్తి",
+  "gallery.subtitle": "ఇంటీరియర్‌లను చూడండి, నచ్చినవి సేవ్ చేయండి, ఏదైనా దానితో రీడిజైన్‌కు దిశ ఇవ్వండి.",
+  "gallery.searchPlaceholder": "గదులు, స్టైల్స్ లేదా సామగ్రి వెతకండి",
+  "gallery.searchLabel": "స్ఫూర్తి వెతకండి",
+  "gallery.search": "వెతకండి",
+  "gallery.suggestion.livingRoom": "లివింగ్ రూమ్",
+  "gallery.suggestion.bedroom": "బెడ్‌రూమ్",
+  "gallery.suggestion.kitchen": "వంటగది",
+  "gallery.suggestion.scandinavian": "స్కాండినేవియన్",
+  "gallery.suggestion.indianTraditional": "భారతీయ సాంప్రదాయ",
+  "gallery.suggestion.japandi": "జపాండీ",
+  "gallery.suggestion.balcony": "బాల్కనీ",
+  "gallery.favourites": "ఇష్టమైనవి ({count})",
+  "gallery.noFavourites": "ఇంకా ఇష్టమైనవి లేవు. ఏ చిత్రాన్నైనా సేవ్ చేయడానికి హృదయంపై నొక్కండి.",
+  "gallery.noResults": "\"{query}\" కోసం ఇంటీరియర్‌లు దొరకలేదు.",
+  "gallery.saveFavourite": "ఇష్టమైనవాటిలో సేవ్ చేయండి",
+  "gallery.removeFavourite": "ఇష్టమైనవాటి నుండి తీసివేయండి",
+  "gallery.photoBy": "ఫోటో: {author}",
+  "gallery.photoByOn": "{provider} లో {author} తీసిన ఫోటో",
+  "gallery.useAsReference": "స్టైల్ రిఫరెన్స్‌గా వాడండి",
+  "gallery.loadMore": "మరిన్ని చూపించు",
+
+  "admin.title": "అడ్మిన్",
+  "admin.subtitle": "ఖాతాలు, జనరేషన్ స్థితి మరియు ఫిర్యాదు చేసిన డిజైన్‌లు.",
+  "admin.sections": "అడ్మిన్ విభాగాలు",
+  "admin.tab.users": "వినియోగదారులు",
+  "admin.tab.usage": "వినియోగం",
+  "admin.tab.moderation": "మోడరేషన్",
+  "admin.usage.window": "కాల వ్యవధి",
+  "admin.usage.lastDays": "గత {count} రోజులు",
+  "admin.usage.generations": "జనరేషన్‌లు",
+  "admin.usage.failureRate": "వైఫల్య రేటు",
+  "admin.usage.avgAnalysis": "సగటు విశ్లేషణ",
+  "admin.usage.avgRedesign": "సగటు రీడిజైన్",
+  "admin.usage.avgEdit": "సగటు ఎడిట్ లేదా మెరుగుదల",
+  "admin.usage.seconds": "{value} సె.",
+  "admin.usage.latencyNote": "సమయంలో మోడల్ కాల్స్ మాత్రమే లెక్కించబడతాయి; క్యాష్ నుండి మళ్లీ వాడిన ఫలితాలు లెక్కలోకి రావు.",
+  "admin.usage.perDay": "రోజువారీ జనరేషన్‌లు",
+  "admin.usage.perDayLabel": "రోజువారీ జనరేషన్‌లు, విజయవంతమైనవి మరియు విఫలమైనవిగా విభజించబడ్డాయి",
+  "admin.usage.dayTitle": "{date}: {redesigns} రీడిజైన్‌లు, {edits} ఎడిట్‌లు, {failed} విఫలం, {canceled} రద్దు",
+  "admin.usage.succeeded": "విజయవంతం లేదా నడుస్తున్నవి",
+  "admin.usage.failed": "విఫలం",
+  "admin.usage.canceled": "రద్దు",
+  "admin.usage.failures": "లోపం రకం వారీగా వైఫల్యాలు",
+  "admin.usage.noFailures": "ఈ వ్యవధిలో ఏ జనరేషన్ విఫలం కాలేదు.",
+  "admin.usage.error": "లోపం",
+  "admin.usage.jobs": "జాబ్‌లు",
+  "admin.usage.share": "పూర్తైన జాబ్‌లలో వాటా",
+  "admin.failure.invalidRoom": "గది ఫోటో కాదు",
+  "admin.failure.auth": "API కీ తిరస్కరించబడింది",
+  "admin.failure.quota": "కోటా అయిపోయింది",
+  "admin.failure.safetyBlocked": "సేఫ్టీ ఫిల్టర్లు అడ్డుకున్నాయి",
+  "admin.failure.transient": "AI సేవ అందుబాటులో లేదు",
+  "admin.failure.timeout": "సమయం మించిపోయింది",
+  "admin.failure.unknown": "ఇతర లోపాలు",
+  "admin.users.search": "వినియోగదారులను వెతకండి",
+  "admin.users.searchPlaceholder": "పేరు లేదా ఇమెయిల్‌తో వెతకండి",
+  "admin.users.searchButton": "వెతకండి",
+  "admin.users.empty": "\"{search}\" కి సరిపోయే వినియోగదారులు లేరు.",
+  "admin.users.user": "వినియోగదారు",
+  "admin.users.joined": "చేరిన తేదీ",
+  "admin.users.projects": "ప్రాజెక్ట్‌లు",
+  "admin.users.credits": "క్రెడిట్‌లు",
+  "admin.users.admin": "అడ్మిన్",
+  "admin.users.adjust": "క్రెడిట్‌లు మార్చండి",
+  "admin.users.amount": "జోడించాల్సిన లేదా తీసివేయాల్సిన క్రెడిట్‌లు",
+  "admin.users.amountPlaceholder": "+10 లేదా -5",
+  "admin.users.note": "కారణం",
+  "admin.users.notePlaceholder": "కారణం, వినియోగదారుకు చూపబడుతుంది",
+  "admin.users.apply": "వర్తింపజేయండి",
+  "admin.moderation.reported": "ఫిర్యాదు చేసినవి",
+  "admin.moderation.hidden": "దాచినవి",
+  "admin.moderation.noReports": "సమీక్ష కోసం ఎలాంటి ఫిర్యాదులు లేవు.",
+  "admin.moderation.noHidden": "దాచిన డిజైన్‌లు లేవు.",
+  "admin.moderation.hiddenAt": "{date} న దాచబడింది",
+  "admin.moderation.guest": "సైన్ అవుట్ అయిన సందర్శకుడు",
+  "admin.moderation.confirmDelete": "ఈ ప్రాజెక్ట్‌ను దాని యజమానికి కూడా తొలగించాలా? దీన్ని తిరిగి పొందలేరు.",
+  "admin.moderation.hide": "దాచండి",
+  "admin.moderation.dismiss": "ఫిర్యాదులను తోసిపుచ్చండి",
+  "admin.moderation.unhide": "మళ్ళీ చూపించండి",
+};
+
+export default te;
@@ -0,0 +1,49 @@
+export interface ParsedDataUrl {
+  mimeType: string;
+  data: string;
+}
+
+export function parseDataUrl(dataUrl: string): ParsedDataUrl {
+  const match = /^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s.exec(dataUrl);
+  if (!match) {
+    throw new Error("Expected a base64 image data URL");
+  }
+  return { mimeType: match[1] || "image/jpeg", data: match[2] };
+}
+
+/** Accepts a data URL or a fetchable image URL and returns a data URL. */
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export function svgToDataUrl(svg: string): string {
+  return toDataUrl("image/svg+xml", bytesToBase64(new TextEncoder().encode(svg)));
+}
+
+export async function loadImageAsDataUrl(image: string): Promise<string> {
+  if (image.startsWith("data:")) return image;
+  const res = await fetch(image);
+  if (!res.ok) {
+    throw new Error(`Failed to load image ${image} (${res.status})`);
+  }
+  const mimeType = res.headers.get("Content-Type")?.split(";")[0] || "image/jpeg";
+  return toDataUrl(mimeType, bytesToBase64(new Uint8Array(await res.arrayBuffer())));
+}
+
+export function toDataUrl(mimeType: string, data: string): string {
+  return `data:${mimeType};base64,${data}`;
+}
+
+// FNV-1a; only used for deterministic choices, not for security.
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,87 @@
+import { t } from "./i18n";
+
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+/** Longest edge sent to the model; larger photos only cost upload time and tokens. */
+export const MAX_LONG_EDGE = 1536;
+export const MIN_SHORT_EDGE = 256;
+const JPEG_QUALITY = 0.88;
+
+const BROWSER_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const HEIC_TYPES = ["image/heic", "image/heif"];
+
+export const ACCEPTED_IMAGE_TYPES = BROWSER_TYPES.join(",");
+
+export class ImagePreprocessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImagePreprocessingError";
+  }
+}
+
+export interface PreparedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Browsers can't decode HEIC, so iPhone photos get their own hint. Some report
+// an empty type for them, so fall back to the extension.
+const isHeic = (file: File) =>
+  HEIC_TYPES.includes(file.type) || /\.(heic|heif)$/i.test(file.name);
+
+export function validateImageFile(file: File) {
+  if (isHeic(file)) {
+    throw new ImagePreprocessingError(t("upload.heic"));
+  }
+  if (!BROWSER_TYPES.includes(file.type)) {
+    throw new ImagePreprocessingError(t("upload.unsupported"));
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    const sizeMb = (file.size / 1024 / 1024).toFixed(1);
+    throw new ImagePreprocessingError(t("upload.tooLarge", { size: sizeMb }));
+  }
+}
+
+/**
+ * Validates a user's photo and normalises it for analysis: EXIF rotation is
+ * applied to the pixels, the long edge is capped at MAX_LONG_EDGE and the
+ * result is re-encoded as JPEG.
+ */
+export async function prepareImage(file: File): Promise<PreparedImage> {
+  validateImageFile(file);
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  } catch {
+    throw new ImagePreprocessingError(t("upload.invalid"));
+  }
+
+  try {
+    if (Math.min(bitmap.width, bitmap.height) < MIN_SHORT_EDGE) {
+      throw new ImagePreprocessingError(
+        t("upload.tooSmall", { width: bitmap.width, height: bitmap.height, min: MIN_SHORT_EDGE })
+      );
+    }
+
+    const scale = Math.min(1, MAX_LONG_EDGE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new ImagePreprocessingError(t("upload.unsupportedBrowser"));
+    }
+    // JPEG has no alpha; paint transparent PNG areas white instead of black.
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+
+    return { dataUrl: canvas.toDataURL("image/jpeg", JPEG_QUALITY), width, height };
+  } finally {
+    bitmap.close();
+  }
+}
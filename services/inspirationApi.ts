@@ -0,0 +1,27 @@
+import { readError } from "./http";
+import type { InspirationImage, InspirationPage, StoredImage } from "../types";
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    throw new Error(await readError(res));
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+};
+
+const favoriteUrl = (id: string) => `/api/inspiration/favorites/${encodeURIComponent(id)}`;
+
+export function searchInspiration(query: string, page = 1): Promise<InspirationPage> {
+  const params = new URLSearchParams({ q: query, page: String(page) });
+  return request<InspirationPage>(`/api/inspiration/search?${params}`);
+}
+
+export const fetchFavorites = () => request<InspirationImage[]>("/api/inspiration/favorites");
+
+export const addFavorite = (id: string) => request<InspirationImage>(favoriteUrl(id), { method: "PUT" });
+
+export const removeFavorite = (id: string) => request<void>(favoriteUrl(id), { method: "DELETE" });
+
+/** Copies the image into our storage; the returned URL can go in a style's reference images. */
+export const storeAsReference = (id: string) =>
+  request<StoredImage>(`/api/inspiration/${encodeURIComponent(id)}/reference`, { method: "POST" });
@@ -0,0 +1,157 @@
+import {
+  AIServiceError,
+  AuthError,
+  InvalidRoomError,
+  QuotaError,
+  SafetyBlockedError,
+  TimeoutError,
+  TransientError,
+  type AIErrorKind,
+} from "./errors";
+import { readError } from "./http";
+import type { Language, MessageKey } from "./i18n";
+import { InsufficientCreditsError, ensureUploaded } from "./projectsApi";
+import type { RoomAnalysis } from "./providers/types";
+import type { StyleSpec } from "./styles";
+import type { GenerationJob, GenerationJobStage } from "../types";
+
+interface JobStyle {
+  /** Preset or custom style id, saved with the project. */
+  style: string;
+  /** Reference images must be stored file URLs. */
+  styleSpec: StyleSpec;
+  /** Designs the room as part of a home; `style` must then be the home's style. */
+  home_id?: string;
+  /** Language the room analysis is written in; English when left out. */
+  language?: Language;
+}
+
+export type NewJob =
+  | ({ kind: "redesign"; image: string; variations: number; preserveLayout?: boolean; force?: boolean } & JobStyle)
+  | ({ kind: "inpaint"; image: string; base: string; mask: string; instruction: string; analysis?: RoomAnalysis } & JobStyle)
+  /** Refines the project's current version; the result is saved as its next version. */
+  | ({ kind: "refine"; project_id: string; instruction: string } & JobStyle);
+
+/** Catalog keys for the status shown during each stage. */
+export const STAGE_MESSAGES: Record<GenerationJobStage, MessageKey> = {
+  queued: "stage.queued",
+  analyzing: "stage.analyzing",
+  generating: "stage.generating",
+  saving: "stage.saving",
+  done: "stage.done",
+};
+
+export const isJobActive = (job: GenerationJob) => job.status === "queued" || job.status === "running";
+
+/**
+ * Queues a redesign, region edit or refinement on the server. Images given as
+ * data URLs are uploaded first. Each design, variation, edit or refinement
+ * takes a credit up front, which is refunded if the job fails or is canceled,
+ * or if the design is reused from an earlier run; `force` renders a fresh one
+ * instead. Variations the user doesn't save are refunded when the job is saved
+ * or dismissed.
+ */
+export async function startJob(job: NewJob): Promise<GenerationJob> {
+  const body = job.kind === "inpaint"
+    ? {
+        ...job,
+        image: await ensureUploaded(job.image),
+        base: await ensureUploaded(job.base),
+        mask: await ensureUploaded(job.mask)
+      }
+    : job.kind === "refine"
+      ? job
+      : { ...job, image: await ensureUploaded(job.image) };
+
+  const res = await fetch("/api/jobs", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+  if (res.status === 402) {
+    throw new InsufficientCreditsError();
+  }
+  if (!res.ok) {
+    throw new Error("Failed to start: " + await readError(res));
+  }
+  return res.json();
+}
+
+/** The job the design view should show after a reload, if any. */
+export async function fetchCurrentJob(): Promise<GenerationJob | null> {
+  const res = await fetch("/api/jobs/current");
+  if (!res.ok) {
+    throw new Error("Failed to load job: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function fetchJob(id: string): Promise<GenerationJob> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(id)}`);
+  if (!res.ok) {
+    throw new Error("Failed to load job: " + await readError(res));
+  }
+  return res.json();
+}
+
+/**
+ * Follows a job's progress over server-sent events, calling `onUpdate` for
+ * each change, and resolves with the finished job. Rejects if the stream
+ * gives up and the job can't be loaded either.
+ */
+export function watchJob(id: string, onUpdate: (job: GenerationJob) => void): Promise<GenerationJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/jobs/${encodeURIComponent(id)}/events`);
+    source.onmessage = (event) => {
+      const job: GenerationJob = JSON.parse(event.data);
+      onUpdate(job);
+      if (!isJobActive(job)) {
+        source.close();
+        resolve(job);
+      }
+    };
+    source.onerror = () => {
+      // EventSource reconnects on its own after network errors; it only closes
+      // for good when the server refuses the stream (e.g. signed out, 404).
+      if (source.readyState !== EventSource.CLOSED) return;
+      fetchJob(id)
+        .then((job) => {
+          onUpdate(job);
+          if (isJobActive(job)) return watchJob(id, onUpdate);
+          return job;
+        })
+        .then(resolve, reject);
+    };
+  });
+}
+
+export async function cancelJob(id: string): Promise<void> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(id)}/cancel`, { method: "POST" });
+  // 409 means it finished first; the event stream delivers the result.
+  if (!res.ok && res.status !== 409) {
+    throw new Error("Failed to cancel: " + await readError(res));
+  }
+}
+
+/** Marks a finished job as seen so it isn't restored on the next load. */
+export async function dismissJob(id: string): Promise<void> {
+  await fetch(`/api/jobs/${encodeURIComponent(id)}/dismiss`, { method: "POST" });
+}
+
+const ERRORS: Record<AIErrorKind, new (message?: string) => AIServiceError> = {
+  "invalid-room": InvalidRoomError,
+  auth: AuthError,
+  quota: QuotaError,
+  "safety-blocked": SafetyBlockedError,
+  transient: TransientError,
+  timeout: TimeoutError,
+};
+
+/** Rebuilds the typed error a failed job reported, for describeError. */
+export function jobError(job: GenerationJob): Error {
+  const error = job.error;
+  if (error && error.kind in ERRORS) {
+    return new ERRORS[error.kind as AIErrorKind](error.message);
+  }
+  return new Error(error?.message || "The redesign could not be completed.");
+}
@@ -0,0 +1,229 @@
+import type { RoomAnalysis } from "./geminiService";
+import type { ShoppingItem } from "./shoppingList";
+import { readError } from "./http";
+import { t, type Language } from "./i18n";
+import { parseRoomAnalysis } from "./roomAnalysis";
+import type { Project, ProjectFacets, ProjectHistory, ProjectPage, ShareLink, StoredImage } from "../types";
+
+export class InsufficientCreditsError extends Error {
+  constructor() {
+    super("No credits left!");
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+export interface NewProject {
+  original_image: string;
+  redesigned_image: string;
+  style: string;
+  analysis: RoomAnalysis;
+  home_id?: string | null;
+}
+
+export async function uploadImage(image: Blob): Promise<StoredImage> {
+  const form = new FormData();
+  form.append("image", image);
+  const res = await fetch("/api/uploads", { method: "POST", body: form });
+  if (!res.ok) {
+    throw new Error("Failed to upload image: " + await readError(res));
+  }
+  return res.json();
+}
+
+// Generated images arrive as data URLs; anything else is already a stored file URL.
+export const ensureUploaded = async (image: string) => {
+  if (!image.startsWith("data:")) return image;
+  const blob = await (await fetch(image)).blob();
+  return (await uploadImage(blob)).url;
+};
+
+const toRequestBody = async (project: NewProject, id: string) => {
+  const [original_image, redesigned_image] = await Promise.all([
+    ensureUploaded(project.original_image),
+    ensureUploaded(project.redesigned_image)
+  ]);
+  return {
+    id,
+    original_image,
+    redesigned_image,
+    style: project.style,
+    room_type: project.analysis.roomType,
+    analysis: JSON.stringify(project.analysis),
+    home_id: project.home_id ?? null
+  };
+};
+
+const postProjects = async (url: string, body: unknown) => {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body)
+  });
+
+  if (res.status === 402) {
+    throw new InsufficientCreditsError();
+  }
+  if (!res.ok) {
+    throw new Error("Failed to save project: " + await readError(res));
+  }
+};
+
+/**
+ * Saves several variations at once, one credit each. Either all of them are
+ * saved or, if the user cannot afford them all, none are. `jobId` is the run
+ * that generated them, so the charges show against it in the credit history.
+ */
+export async function saveProjects(projects: NewProject[], jobId?: string | null): Promise<string[]> {
+  const bodies = await Promise.all(projects.map((p) => toRequestBody(p, "proj_" + crypto.randomUUID())));
+  await postProjects("/api/projects/batch", { projects: bodies, job_id: jobId ?? undefined });
+  return bodies.map((b) => b.id);
+}
+
+export type ProjectSort = "newest" | "oldest" | "title" | "room_type" | "style";
+
+export interface ProjectQuery {
+  q?: string;
+  style?: string;
+  room_type?: string;
+  /** Inclusive dates, YYYY-MM-DD. */
+  from?: string;
+  to?: string;
+  sort?: ProjectSort;
+  archived?: boolean;
+  page?: number;
+  page_size?: number;
+}
+
+export async function fetchProjects(query: ProjectQuery = {}): Promise<ProjectPage> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === "" || value === false) continue;
+    params.set(key, value === true ? "1" : String(value));
+  }
+  const res = await fetch(`/api/projects?${params}`);
+  if (!res.ok) {
+    throw new Error("Failed to load projects: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function fetchProjectFacets(): Promise<ProjectFacets> {
+  const res = await fetch("/api/projects/facets");
+  if (!res.ok) {
+    throw new Error("Failed to load filters: " + await readError(res));
+  }
+  return res.json();
+}
+
+/**
+ * Renames (an empty title restores the default), archives and/or moves a
+ * project into a home (null takes it out).
+ */
+export async function updateProject(
+  id: string,
+  changes: { title?: string | null; archived?: boolean; home_id?: string | null }
+): Promise<Project> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes)
+  });
+  if (!res.ok) {
+    throw new Error("Failed to update project: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}`, { method: "DELETE" });
+  if (!res.ok) {
+    throw new Error("Failed to delete project: " + await readError(res));
+  }
+}
+
+/** The user's name for the project, or "<room type> Redesign" in the current language. */
+export function projectTitle(project: Project): string {
+  return project.title || t("project.defaultTitle", { room: `${project.room_type.charAt(0).toUpperCase()}${project.room_type.slice(1)}` });
+}
+
+export async function fetchProject(id: string): Promise<Project> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}`);
+  if (!res.ok) {
+    throw new Error("Failed to load project: " + await readError(res));
+  }
+  return res.json();
+}
+
+/** A branded PDF brief rendered by the server from the saved project, with its labels in `language`. */
+export const projectBriefUrl = (id: string, language: Language) =>
+  `/api/projects/${encodeURIComponent(id)}/brief?lang=${language}`;
+
+/** `Project.analysis` is stored as a JSON string; returns null if it is unreadable or incomplete. */
+export function parseAnalysis(project: Project): RoomAnalysis | null {
+  return parseRoomAnalysis(project.analysis);
+}
+
+export async function fetchProjectHistory(id: string): Promise<ProjectHistory> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}/history`);
+  if (!res.ok) {
+    throw new Error("Failed to load project history: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function revertProjectVersion(id: string, version: number): Promise<void> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}/revert`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ version })
+  });
+  if (!res.ok) {
+    throw new Error("Failed to revert: " + await readError(res));
+  }
+}
+
+export async function updateShoppingList(id: string, items: ShoppingItem[]): Promise<ShoppingItem[]> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}/shopping-list`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ items })
+  });
+  if (!res.ok) {
+    throw new Error("Failed to save shopping list: " + await readError(res));
+  }
+  return res.json();
+}
+
+/** The project's active public link, or null if it isn't shared. */
+export async function fetchShareLink(id: string): Promise<ShareLink | null> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}/share`);
+  if (!res.ok) {
+    throw new Error("Failed to load share link: " + await readError(res));
+  }
+  return res.json();
+}
+
+/** Publishes the project (or updates its expiry); `expiresInDays` null means never. */
+export async function shareProject(id: string, expiresInDays: number | null): Promise<ShareLink> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}/share`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ expires_in_days: expiresInDays })
+  });
+  if (!res.ok) {
+    throw new Error("Failed to share project: " + await readError(res));
+  }
+  return res.json();
+}
+
+export async function revokeShareLink(id: string): Promise<void> {
+  const res = await fetch(`/api/projects/${encodeURIComponent(id)}/share`, { method: "DELETE" });
+  if (!res.ok) {
+    throw new Error("Failed to turn off sharing: " + await readError(res));
+  }
+}
+
+/** Reuses the project's active link so sharing again doesn't change its expiry. */
+export async function ensureShareLink(id: string): Promise<ShareLink> {
+  return (await fetchShareLink(id)) ?? shareProject(id, null);
+}
@@ -0,0 +1,324 @@
+import { ApiError, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import {
+  AIServiceError,
+  AuthError,
+  InvalidRoomError,
+  QuotaError,
+  SafetyBlockedError,
+  TimeoutError,
+  TransientError,
+} from "../errors";
+import { LANGUAGE_INFO, type Language } from "../i18n/languages";
+import { parseDataUrl, toDataUrl } from "../imageData";
+import { MAX_SHOPPING_ITEMS, parseShoppingItem } from "../shoppingList";
+import { describeStyle, type StyleSpec } from "../styles";
+import type {
+  HomeContext,
+  ImageAIProvider,
+  InpaintRoomInput,
+  PlanRedesignInput,
+  RedesignPlan,
+  RedesignRoomInput,
+  RefineRoomInput,
+  RefineRoomResult,
+  RoomSurvey,
+  ShoppingItem,
+  SurveyRoomInput,
+} from "./types";
+import { SHOPPING_CATEGORIES } from "./types";
+
+const ANALYSIS_MODEL = "gemini-2.5-flash";
+const IMAGE_MODEL = "gemini-2.5-flash-image";
+// Bump after changing a prompt below; cached analyses and renders are keyed on it.
+const PROMPT_VERSION = 4;
+
+const surveySchema = {
+  type: Type.OBJECT,
+  properties: {
+    isRoom: { type: Type.BOOLEAN, description: "Whether the photo shows an interior room" },
+    roomType: { type: Type.STRING, description: "e.g. bedroom, living room, kitchen" },
+    lighting: { type: Type.STRING, description: "Short description of the natural and artificial lighting" },
+  },
+  required: ["isRoom", "roomType", "lighting"],
+};
+
+const planSchema = {
+  type: Type.OBJECT,
+  properties: {
+    potentialImprovements: {
+      type: Type.ARRAY,
+      items: { type: Type.STRING },
+      description: "3-5 concrete improvements for the requested style",
+    },
+    shoppingList: {
+      type: Type.ARRAY,
+      description: "Furniture and materials needed for the redesign, priced for the Indian market",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          category: { type: Type.STRING, enum: [...SHOPPING_CATEGORIES] },
+          description: { type: Type.STRING, description: "What to buy, e.g. 3-seater linen sofa" },
+          quantity: { type: Type.INTEGER },
+          priceMin: { type: Type.INTEGER, description: "Low-end price per unit in INR" },
+          priceMax: { type: Type.INTEGER, description: "High-end price per unit in INR" },
+        },
+        required: ["category", "description", "quantity", "priceMin", "priceMax"],
+      },
+    },
+  },
+  required: ["potentialImprovements", "shoppingList"],
+};
+
+// Created per call so a key picked through the AI Studio selector is used immediately.
+const getClient = () => {
+  const apiKey = process.env.API_KEY || process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new AuthError("No Gemini API key is configured.");
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Reference images go after the room photo, introduced by a short caption.
+const referenceParts = (style: StyleSpec) =>
+  style.referenceImages?.length
+    ? [
+        { text: `Reference images for the ${style.name} style follow. Match their mood, materials and colours:` },
+        ...style.referenceImages.map((image) => ({ inlineData: parseDataUrl(image) })),
+      ]
+    : [];
+
+// Rooms of the same home are designed to read as one interior.
+const homeText = (home?: HomeContext) => {
+  if (!home?.rooms.length) return "";
+  const rooms = home.rooms
+    .map((room) => `${room.roomType} (${room.improvements.slice(0, 3).join("; ")})`)
+    .join(", ");
+  return `This room is part of "${home.name}", a home whose other rooms are already designed: ${rooms}. ` +
+    "Keep materials, finishes, wood tones and colours consistent with them so the home feels coherent. ";
+};
+
+const homeParts = (home?: HomeContext) =>
+  home?.images.length
+    ? [
+        { text: "Redesigns of other rooms in the same home follow. Match their palette, materials and finishes:" },
+        ...home.images.map((image) => ({ inlineData: parseDataUrl(image) })),
+      ]
+    : [];
+
+// roomType and the categories are matched against and stored, so they stay in English.
+const languageText = (fields: string, language?: Language) =>
+  language && language !== "en"
+    ? `Write ${fields} in ${LANGUAGE_INFO[language].englishName}; keep roomType and category in English. `
+    : "";
+
+const SAFETY_REASONS = new Set([
+  "SAFETY",
+  "BLOCKLIST",
+  "PROHIBITED_CONTENT",
+  "SPII",
+  "IMAGE_SAFETY",
+  "IMAGE_PROHIBITED_CONTENT",
+  "MODEL_ARMOR",
+]);
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const reason = response.promptFeedback?.blockReason ?? response.candidates?.[0]?.finishReason;
+  if (reason && SAFETY_REASONS.has(reason)) {
+    throw new SafetyBlockedError(`The request was blocked by the AI safety filters (${reason}).`);
+  }
+};
+
+// Maps SDK and network failures onto our error taxonomy; anything unrecognised passes through.
+const toServiceError = (e: unknown): unknown => {
+  if (e instanceof AIServiceError) return e;
+  if (e instanceof ApiError) {
+    // AI Studio reports a key without access to the model as a 404.
+    if (e.status === 401 || e.status === 403 || /API_KEY_INVALID|Requested entity was not found/.test(e.message)) {
+      return new AuthError(undefined, { cause: e });
+    }
+    if (e.status === 429) return new QuotaError(undefined, { cause: e });
+    if (e.status === 408 || e.status === 504) return new TimeoutError(undefined, { cause: e });
+    if (e.status >= 500) return new TransientError(undefined, { cause: e });
+    return e;
+  }
+  // fetch() rejects with a TypeError when the network request itself fails.
+  if (e instanceof TypeError) return new TransientError("Could not reach the AI service.", { cause: e });
+  return e;
+};
+
+const guarded = <A, R>(fn: (input: A) => Promise<R>) => async (input: A): Promise<R> => {
+  try {
+    return await fn(input);
+  } catch (e) {
+    throw toServiceError(e);
+  }
+};
+
+const extractImage = (response: GenerateContentResponse) => {
+  assertNotBlocked(response);
+  const parts = response.candidates?.[0]?.content?.parts ?? [];
+  for (const part of parts) {
+    if (part.inlineData?.data) {
+      return toDataUrl(part.inlineData.mimeType || "image/png", part.inlineData.data);
+    }
+  }
+  throw new Error("The model did not return an image");
+};
+
+async function surveyRoom({ image, language }: SurveyRoomInput): Promise<RoomSurvey> {
+  const { mimeType, data } = parseDataUrl(image);
+  const response = await getClient().models.generateContent({
+    model: ANALYSIS_MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data } },
+        {
+          text: "You are an expert interior designer. Describe the room in this photo. " +
+            "If it is not a photo of an interior room, set isRoom to false. " +
+            languageText("lighting", language),
+        },
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: surveySchema,
+    },
+  });
+
+  assertNotBlocked(response);
+  const survey = JSON.parse(response.text || "{}") as RoomSurvey;
+  if (!survey.isRoom) {
+    throw new InvalidRoomError("This doesn't look like a room. Please upload a photo of an interior space.");
+  }
+  return survey;
+}
+
+async function planRedesign({ image, style, survey, home, language }: PlanRedesignInput): Promise<RedesignPlan> {
+  const { mimeType, data } = parseDataUrl(image);
+  const response = await getClient().models.generateContent({
+    model: ANALYSIS_MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data } },
+        {
+          text: `You are an expert interior designer. Plan a ${describeStyle(style)} redesign of this ${survey.roomType}. ` +
+            `Its lighting: ${survey.lighting}. ` +
+            homeText(home) +
+            "List the furniture and materials the redesign needs with realistic per-unit price ranges " +
+            "in Indian rupees (INR) at mid-market Indian retailers. " +
+            languageText("potentialImprovements and each shopping item's description", language),
+        },
+        ...referenceParts(style),
+        ...homeParts(home),
+      ],
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: planSchema,
+    },
+  });
+
+  assertNotBlocked(response);
+  const plan = JSON.parse(response.text || "{}") as RedesignPlan;
+  // The schema can't bound prices or the list's length, so anything the app would reject is dropped.
+  const shoppingList = (plan.shoppingList ?? [])
+    .map(parseShoppingItem)
+    .filter((item): item is ShoppingItem => item !== null)
+    .slice(0, MAX_SHOPPING_ITEMS);
+  return { ...plan, shoppingList };
+}
+
+// The line map follows the room photo, so the model can line its output up against it.
+const guidanceParts = (guidance?: string) =>
+  guidance
+    ? [
+        { text: "The next image is a line map of this room's structure. Keep every wall edge, window, door and ceiling line exactly where it is in the map:" },
+        { inlineData: parseDataUrl(guidance) },
+      ]
+    : [];
+
+async function redesignRoom({ image, style, analysis, variation, home, guidance }: RedesignRoomInput): Promise<string> {
+  const { mimeType, data } = parseDataUrl(image);
+  const response = await getClient().models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: [
+        { inlineData: { mimeType, data } },
+        ...guidanceParts(guidance),
+        {
+          text: `Redesign this ${analysis.roomType} in a ${describeStyle(style)} interior design style. ` +
+            "Keep the room's layout, walls, windows and doors in place. " +
+            (guidance ? "Do not move, add or remove windows or doors, and keep the camera angle unchanged. " : "") +
+            `Apply these improvements: ${analysis.potentialImprovements.join("; ")}. ` +
+            homeText(home) +
+            (variation?.promptHint ? `${variation.promptHint} ` : "") +
+            "Return a photorealistic image.",
+        },
+        ...referenceParts(style),
+        ...homeParts(home),
+      ],
+    },
+    config: variation ? { seed: variation.seed } : undefined,
+  });
+
+  return extractImage(response);
+}
+
+async function inpaintRoom({ image, mask, instruction, style }: InpaintRoomInput): Promise<string> {
+  const source = parseDataUrl(image);
+  const maskImage = parseDataUrl(mask);
+  const response = await getClient().models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: [
+        { inlineData: source },
+        { inlineData: maskImage },
+        {
+          text: "The first image is a room photo and the second is a black and white mask of the same size. " +
+            `Edit only the area that is white in the mask: ${instruction}. ` +
+            `Match the room's existing ${style.name} style, perspective and lighting. ` +
+            "Leave every pixel outside the white area unchanged. Return the full edited photo.",
+        },
+      ],
+    },
+  });
+
+  return extractImage(response);
+}
+
+async function refineRoom({ image, instruction, style, history }: RefineRoomInput): Promise<RefineRoomResult> {
+  const earlier = history.length > 0 ? `Earlier requests in this conversation: ${history.join("; ")}. ` : "";
+  const response = await getClient().models.generateContent({
+    model: IMAGE_MODEL,
+    contents: {
+      parts: [
+        { inlineData: parseDataUrl(image) },
+        {
+          text: "You are Gruha, a helpful interior design assistant refining a client's " +
+            `${style.name} room design one change at a time. ${earlier}` +
+            `Apply this change to the photo: ${instruction}. ` +
+            "Keep everything else, including the layout and camera angle, the same. " +
+            "Return the edited photo and one or two sentences describing what you changed.",
+        },
+      ],
+    },
+  });
+
+  const reply = (response.candidates?.[0]?.content?.parts ?? [])
+    .map((part) => part.text ?? "")
+    .join("")
+    .trim();
+  return { image: extractImage(response), reply: reply || `Done: ${instruction}.` };
+}
+
+export function createGeminiProvider(): ImageAIProvider {
+  return {
+    name: "gemini",
+    version: `${ANALYSIS_MODEL}+${IMAGE_MODEL}@${PROMPT_VERSION}`,
+    surveyRoom: guarded(surveyRoom),
+    planRedesign: guarded(planRedesign),
+    redesignRoom: guarded(redesignRoom),
+    inpaintRoom: guarded(inpaintRoom),
+    refineRoom: guarded(refineRoom),
+  };
+}
@@ -0,0 +1,36 @@
+import { createGeminiProvider } from "./gemini";
+import { createMockProvider } from "./mock";
+import type { ImageAIProvider, ImageAIProviderFactory } from "./types";
+
+export type { ImageAIProvider, ImageAIProviderFactory } from "./types";
+
+const DEFAULT_PROVIDER = "gemini";
+
+const factories = new Map<string, ImageAIProviderFactory>([
+  ["gemini", createGeminiProvider],
+  ["mock", createMockProvider],
+]);
+
+const instances = new Map<string, ImageAIProvider>();
+
+export function registerImageProvider(name: string, factory: ImageAIProviderFactory) {
+  factories.set(name, factory);
+  instances.delete(name);
+}
+
+/**
+ * Returns the provider named by `AI_PROVIDER` ("gemini" or "mock"),
+ * falling back to Gemini when unset.
+ */
+export function getImageProvider(name = process.env.AI_PROVIDER || DEFAULT_PROVIDER): ImageAIProvider {
+  let provider = instances.get(name);
+  if (!provider) {
+    const factory = factories.get(name);
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${name}". Expected one of: ${[...factories.keys()].join(", ")}`);
+    }
+    provider = factory();
+    instances.set(name, provider);
+  }
+  return provider;
+}
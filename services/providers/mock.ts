@@ -0,0 +1,135 @@
+import { hashString, svgToDataUrl } from "../imageData";
+import type {
+  ImageAIProvider,
+  InpaintRoomInput,
+  PlanRedesignInput,
+  RedesignPlan,
+  RedesignRoomInput,
+  RefineRoomInput,
+  RefineRoomResult,
+  RoomSurvey,
+  ShoppingItem,
+  SurveyRoomInput,
+} from "./types";
+
+const ROOM_TYPES = ["living room", "bedroom", "kitchen", "dining room", "home office"];
+const LIGHTING = [
+  "Bright natural light from a single window",
+  "Soft, even daylight with warm ceiling fixtures",
+  "Dim ambient lighting that would benefit from task lamps",
+];
+const IMPROVEMENTS = [
+  "Declutter surfaces and add closed storage",
+  "Introduce a large area rug to anchor the seating",
+  "Layer lighting with floor and table lamps",
+  "Add indoor plants for texture and colour",
+  "Swap heavy curtains for light linen drapes",
+  "Use a feature wall to create a focal point",
+];
+const SHOPPING_ITEMS: ShoppingItem[] = [
+  { category: "furniture", description: "3-seater fabric sofa", quantity: 1, priceMin: 28000, priceMax: 55000 },
+  { category: "furniture", description: "Solid wood coffee table", quantity: 1, priceMin: 6000, priceMax: 14000 },
+  { category: "lighting", description: "Floor lamp with linen shade", quantity: 2, priceMin: 2500, priceMax: 6000 },
+  { category: "textiles", description: "Cotton dhurrie rug, 5x8 ft", quantity: 1, priceMin: 4000, priceMax: 9000 },
+  { category: "textiles", description: "Linen curtain panels", quantity: 4, priceMin: 900, priceMax: 2200 },
+  { category: "paint", description: "Interior emulsion, 4 L", quantity: 3, priceMin: 1400, priceMax: 2600 },
+  { category: "storage", description: "Wall-mounted shelf unit", quantity: 1, priceMin: 3500, priceMax: 8000 },
+  { category: "decor", description: "Indoor plant with ceramic planter", quantity: 3, priceMin: 600, priceMax: 1800 },
+];
+
+const PALETTES = [
+  ["#e7e5e4", "#a8a29e", "#44403c"],
+  ["#ecfdf5", "#6ee7b7", "#065f46"],
+  ["#eff6ff", "#93c5fd", "#1e3a8a"],
+  ["#fef3c7", "#f59e0b", "#78350f"],
+];
+
+const pick = <T>(items: T[], seed: number) => items[seed % items.length];
+
+const escapeXml = (value: string) => value.replace(/[<>&"]/g, (c) => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Offline provider that derives its answers from a hash of the inputs, so the
+ * same image and style always produce the same analysis and render.
+ */
+export function createMockProvider(): ImageAIProvider {
+  return {
+    name: "mock",
+    version: "2",
+
+    async surveyRoom({ image }: SurveyRoomInput): Promise<RoomSurvey> {
+      const seed = hashString(image);
+      return {
+        isRoom: true,
+        roomType: pick(ROOM_TYPES, seed),
+        lighting: pick(LIGHTING, seed >>> 3),
+      };
+    },
+
+    async planRedesign({ image, style }: PlanRedesignInput): Promise<RedesignPlan> {
+      const seed = hashString(image);
+      const styleSeed = hashString(style.name);
+      return {
+        potentialImprovements: [0, 1, 2].map((i) => pick(IMPROVEMENTS, styleSeed + seed + i)),
+        shoppingList: [0, 1, 2, 3, 4].map((i) => pick(SHOPPING_ITEMS, seed + i)),
+      };
+    },
+
+    async redesignRoom({ image, style, analysis, variation, guidance }: RedesignRoomInput): Promise<string> {
+      const palette = style.palette && style.palette.length >= 3 ? style.palette : undefined;
+      const [light, mid, dark] = palette ?? pick(PALETTES, hashString(image + style.name) + (variation?.seed ?? 0));
+      // With layout guidance, the original is recoloured rather than replaced, so its structure survives the check.
+      if (guidance) {
+        const svg = [
+          `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="768" viewBox="0 0 1024 768">`,
+          `<image href="${image}" width="1024" height="768" preserveAspectRatio="none"/>`,
+          `<rect width="1024" height="768" fill="${mid}" fill-opacity="0.35"/>`,
+          `<text x="48" y="80" font-family="sans-serif" font-size="40" fill="${dark}">`,
+          `${escapeXml(style.name)} ${analysis.roomType} (mock, layout kept${variation ? ` #${variation.seed}` : ""})</text>`,
+          `</svg>`,
+        ].join("");
+        return svgToDataUrl(svg);
+      }
+      const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="768" viewBox="0 0 1024 768">`,
+        `<rect width="1024" height="768" fill="${light}"/>`,
+        `<rect y="520" width="1024" height="248" fill="${mid}"/>`,
+        `<rect x="160" y="360" width="420" height="180" rx="24" fill="${dark}"/>`,
+        `<rect x="680" y="120" width="220" height="260" fill="#ffffff" stroke="${dark}" stroke-width="12"/>`,
+        `<text x="48" y="80" font-family="sans-serif" font-size="40" fill="${dark}">`,
+        `${escapeXml(style.name)} ${analysis.roomType} (mock${variation ? ` #${variation.seed}` : ""})</text>`,
+        `</svg>`,
+      ].join("");
+      return svgToDataUrl(svg);
+    },
+
+    // Tints the masked region of the original so tests can see exactly what was edited.
+    async inpaintRoom({ image, mask, instruction }: InpaintRoomInput): Promise<string> {
+      const [, mid] = pick(PALETTES, hashString(instruction));
+      const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="768" viewBox="0 0 1024 768">`,
+        `<mask id="edit"><image href="${mask}" width="1024" height="768" preserveAspectRatio="none"/></mask>`,
+        `<image href="${image}" width="1024" height="768" preserveAspectRatio="none"/>`,
+        `<rect width="1024" height="768" fill="${mid}" fill-opacity="0.8" mask="url(#edit)"/>`,
+        `</svg>`,
+      ].join("");
+      return svgToDataUrl(svg);
+    },
+
+    // Stamps the instruction onto the previous version so each turn is visible.
+    async refineRoom({ image, instruction, history }: RefineRoomInput): Promise<RefineRoomResult> {
+      const [, , dark] = pick(PALETTES, hashString(instruction));
+      const svg = [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="768" viewBox="0 0 1024 768">`,
+        `<image href="${image}" width="1024" height="768" preserveAspectRatio="none"/>`,
+        `<rect y="${688 - history.length * 4}" width="1024" height="80" fill="${dark}" fill-opacity="0.85"/>`,
+        `<text x="32" y="740" font-family="sans-serif" font-size="32" fill="#ffffff">${escapeXml(instruction)}</text>`,
+        `</svg>`,
+      ].join("");
+      return {
+        image: svgToDataUrl(svg),
+        reply: `Done! I applied "${instruction}" to turn ${history.length + 1} of your design.`,
+      };
+    },
+  };
+}
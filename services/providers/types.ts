@@ -0,0 +1,116 @@
+import type { Language } from "../i18n/languages";
+import type { StyleSpec } from "../styles";
+
+// --- Types ---
+export const SHOPPING_CATEGORIES = ["furniture", "lighting", "decor", "textiles", "paint", "flooring", "storage", "other"] as const;
+export type ShoppingCategory = (typeof SHOPPING_CATEGORIES)[number];
+
+/** One line of the bill of materials; prices are per unit, in whole rupees. */
+export interface ShoppingItem {
+  category: ShoppingCategory;
+  description: string;
+  quantity: number;
+  priceMin: number;
+  priceMax: number;
+}
+
+export interface RoomAnalysis {
+  isRoom: boolean;
+  roomType: string;
+  lighting: string;
+  potentialImprovements: string[];
+  /** Missing from analyses saved before shopping lists existed. */
+  shoppingList?: ShoppingItem[];
+}
+
+/** The part of an analysis that describes the photo, whatever style it is redesigned in. */
+export type RoomSurvey = Pick<RoomAnalysis, "isRoom" | "roomType" | "lighting">;
+
+/** The part of an analysis planned for one style. */
+export interface RedesignPlan {
+  potentialImprovements: string[];
+  shoppingList: ShoppingItem[];
+}
+
+/** The rest of a multi-room home, so each new room is designed to match it. */
+export interface HomeContext {
+  name: string;
+  /** Rooms already designed, oldest first. */
+  rooms: { roomType: string; improvements: string[] }[];
+  /** Redesigns of the most recent of those rooms; data URLs once they reach a provider. */
+  images: string[];
+}
+
+export interface SurveyRoomInput {
+  image: string;
+  /** Writes the lighting description in this language; English when unset. */
+  language?: Language;
+}
+
+export interface PlanRedesignInput {
+  image: string;
+  style: StyleSpec;
+  survey: RoomSurvey;
+  home?: HomeContext;
+  /** Writes improvements and shopping descriptions in this language; English when unset. */
+  language?: Language;
+}
+
+export interface Variation {
+  /** Sampling seed; the same seed and inputs should give a similar render. */
+  seed: number;
+  /** Extra direction appended to the prompt to push variations apart. */
+  promptHint?: string;
+}
+
+export interface RedesignRoomInput {
+  image: string;
+  style: StyleSpec;
+  analysis: RoomAnalysis;
+  variation?: Variation;
+  home?: HomeContext;
+  /** White-on-black line map of the walls, windows and doors to keep in place. */
+  guidance?: string;
+}
+
+export interface InpaintRoomInput {
+  image: string;
+  /** Same aspect ratio as `image`; white marks the region to change, black is kept. */
+  mask: string;
+  instruction: string;
+  style: StyleSpec;
+}
+
+export interface RefineRoomInput {
+  /** The current version of the design. */
+  image: string;
+  instruction: string;
+  style: StyleSpec;
+  /** Earlier instructions in this conversation, oldest first. */
+  history: string[];
+}
+
+export interface RefineRoomResult {
+  image: string;
+  /** Short assistant message describing the change. */
+  reply: string;
+}
+
+/**
+ * A backend capable of understanding and re-rendering room photos.
+ * Images are passed and returned as data URLs. Failures should be thrown as
+ * AIServiceError subclasses (see ../errors) so they can be retried and shown.
+ */
+export interface ImageAIProvider {
+  readonly name: string;
+  /** Changes whenever the prompts or models do, so results cached from older ones are not reused. */
+  readonly version: string;
+  /** Should throw InvalidRoomError when the photo is not of a room. */
+  surveyRoom(input: SurveyRoomInput): Promise<RoomSurvey>;
+  planRedesign(input: PlanRedesignInput): Promise<RedesignPlan>;
+  redesignRoom(input: RedesignRoomInput): Promise<string>;
+  inpaintRoom(input: InpaintRoomInput): Promise<string>;
+  refineRoom(input: RefineRoomInput): Promise<RefineRoomResult>;
+}
+
+export type ImageAIProviderFactory = () => ImageAIProvider;
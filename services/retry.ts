@@ -0,0 +1,37 @@
+import { TimeoutError, isRetryable } from "./errors";
+
+export interface RetryOptions {
+  /** Attempts after the first one. */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  onRetry?: (error: unknown, attempt: number) => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs `fn`, retrying retryable AIServiceErrors with exponential backoff and
+ * full jitter. Other errors are rethrown immediately.
+ */
+export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (e) {
+      if (attempt >= retries || !isRetryable(e)) throw e;
+      onRetry?.(e, attempt + 1);
+      await sleep(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+    }
+  }
+}
+
+/** Rejects with a TimeoutError if `promise` has not settled within `ms`. */
+export function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`No response from the AI service after ${ms / 1000}s.`)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
@@ -0,0 +1,49 @@
+import type { RoomAnalysis, ShoppingItem } from "./providers/types";
+import { isShoppingList, parseShoppingItem, shoppingListError } from "./shoppingList";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+/**
+ * Why `value` can't be saved as a project's analysis, or null if it can: it
+ * needs the room type, lighting and improvements every screen shows, and its
+ * shopping list follows the same rules as the user's edits.
+ */
+export function roomAnalysisError(value: unknown): string | null {
+  if (!isObject(value)) return "analysis must be a JSON object";
+  if (typeof value.roomType !== "string" || !value.roomType.trim()) return "analysis.roomType is required";
+  if (typeof value.lighting !== "string") return "analysis.lighting must be a string";
+  if (!isStringList(value.potentialImprovements)) return "analysis.potentialImprovements must be a list of strings";
+  if (value.isRoom !== undefined && typeof value.isRoom !== "boolean") return "analysis.isRoom must be a boolean";
+  if (value.shoppingList !== undefined && !isShoppingList(value.shoppingList)) return shoppingListError("analysis.shoppingList");
+  return null;
+}
+
+/**
+ * A stored analysis, or null if it is unreadable or lacks the fields every
+ * screen shows. Rows saved before analyses were checked may hold anything, so
+ * shopping items that don't pass the current rules are left out.
+ */
+export function parseRoomAnalysis(json: string): RoomAnalysis | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isObject(value) || typeof value.roomType !== "string" || typeof value.lighting !== "string") return null;
+  if (!isStringList(value.potentialImprovements)) return null;
+  const shoppingList = Array.isArray(value.shoppingList)
+    ? value.shoppingList.map(parseShoppingItem).filter((item): item is ShoppingItem => item !== null)
+    : undefined;
+  return {
+    isRoom: value.isRoom !== false,
+    roomType: value.roomType,
+    lighting: value.lighting,
+    potentialImprovements: value.potentialImprovements,
+    ...(shoppingList && { shoppingList }),
+  };
+}
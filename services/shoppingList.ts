@@ -0,0 +1,116 @@
+import { getLocale, t } from "./i18n";
+import { SHOPPING_CATEGORIES, type ShoppingCategory, type ShoppingItem } from "./providers/types";
+
+export { SHOPPING_CATEGORIES };
+export type { ShoppingCategory, ShoppingItem } from "./providers/types";
+
+export const MAX_SHOPPING_ITEMS = 50;
+
+/** Upper bound on a unit price, so a stray extra zero can't swamp the totals. */
+export const MAX_PRICE_INR = 10_000_000;
+
+export interface ShoppingTotals {
+  min: number;
+  max: number;
+}
+
+// One formatter per locale; all of them group digits the Indian way.
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/** e.g. `₹1,25,000`, in the current language's locale. */
+export function formatInr(amount: number) {
+  const locale = getLocale();
+  let formatter = formatters.get(locale);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: "currency", currency: "INR", maximumFractionDigits: 0 });
+    formatters.set(locale, formatter);
+  }
+  return formatter.format(amount);
+}
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_PRICE_INR;
+
+const isCategory = (value: unknown): value is ShoppingCategory =>
+  typeof value === "string" && (SHOPPING_CATEGORIES as readonly string[]).includes(value);
+
+/**
+ * `item` as a ShoppingItem if it has a known category, a description, a
+ * quantity of 1–999 and a unit price range in whole rupees with min ≤ max;
+ * null otherwise. Applies to the model's lists as well as the user's edits.
+ */
+export function parseShoppingItem(item: unknown): ShoppingItem | null {
+  if (typeof item !== "object" || item === null) return null;
+  const { category, description, quantity, priceMin, priceMax } = item as Record<string, unknown>;
+  if (!isCategory(category) || typeof description !== "string") return null;
+  const text = description.trim();
+  if (!text || text.length > 200) return null;
+  if (typeof quantity !== "number" || !Number.isInteger(quantity) || quantity < 1 || quantity > 999) return null;
+  if (!isPrice(priceMin) || !isPrice(priceMax) || priceMin > priceMax) return null;
+  return { category, description: text, quantity, priceMin, priceMax };
+}
+
+/** Whether `items` is a list the app would save: at most MAX_SHOPPING_ITEMS valid items. */
+export const isShoppingList = (items: unknown): items is unknown[] =>
+  Array.isArray(items) && items.length <= MAX_SHOPPING_ITEMS && items.every((item) => parseShoppingItem(item) !== null);
+
+export const shoppingListError = (field: string) =>
+  `${field} must be a list of at most ${MAX_SHOPPING_ITEMS} items, each with a category, a description, a quantity and a valid INR price range`;
+
+export const categoryLabel = (category: ShoppingCategory) => t(`shopping.category.${category}`);
+
+export const formatInrRange = ({ min, max }: ShoppingTotals) =>
+  min === max ? formatInr(min) : `${formatInr(min)} – ${formatInr(max)}`;
+
+export const lineTotals = (item: ShoppingItem): ShoppingTotals => ({
+  min: item.quantity * item.priceMin,
+  max: item.quantity * item.priceMax,
+});
+
+export function shoppingTotals(items: ShoppingItem[]): ShoppingTotals {
+  return items.reduce(
+    (sum, item) => {
+      const line = lineTotals(item);
+      return { min: sum.min + line.min, max: sum.max + line.max };
+    },
+    { min: 0, max: 0 }
+  );
+}
+
+const csvCell = (value: string | number) => {
+  // Keep spreadsheets from evaluating free text such as "=HYPERLINK(...)" as a formula.
+  const text = typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Renders the list as CSV in the current language, with per-line and overall totals; amounts are plain INR numbers. */
+export function shoppingListToCsv(items: ShoppingItem[]): string {
+  const rows: (string | number)[][] = [
+    [
+      t("shopping.csv.category"),
+      t("shopping.csv.item"),
+      t("shopping.csv.quantity"),
+      t("shopping.csv.priceMin"),
+      t("shopping.csv.priceMax"),
+      t("shopping.csv.totalMin"),
+      t("shopping.csv.totalMax"),
+    ],
+    ...items.map((item) => {
+      const line = lineTotals(item);
+      return [categoryLabel(item.category), item.description, item.quantity, item.priceMin, item.priceMax, line.min, line.max];
+    }),
+  ];
+  const total = shoppingTotals(items);
+  rows.push([t("shopping.csv.total"), "", "", "", "", total.min, total.max]);
+  // CRLF line endings and a BOM so Excel opens it as UTF-8.
+  return "\uFEFF" + rows.map((row) => row.map(csvCell).join(",")).join("\r\n");
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
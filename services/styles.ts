@@ -0,0 +1,26 @@
+/**
+ * Structured description of a design style, passed to providers in place of
+ * a bare style id so custom styles can carry their palette and references.
+ */
+export interface StyleSpec {
+  name: string;
+  description?: string;
+  /** Hex colours, most prominent first. */
+  palette?: string[];
+  /** Example interiors; data URLs once they reach a provider. */
+  referenceImages?: string[];
+}
+
+export type StyleInput = string | StyleSpec;
+
+export function toStyleSpec(style: StyleInput): StyleSpec {
+  return typeof style === "string" ? { name: style } : style;
+}
+
+/** Renders a style as prompt text, e.g. `Japandi (Japanese zen meets Scandi) with a palette of #fff, #000`. */
+export function describeStyle(style: StyleSpec): string {
+  let text = style.name;
+  if (style.description) text += ` (${style.description})`;
+  if (style.palette?.length) text += ` with a colour palette of ${style.palette.join(", ")}`;
+  return text;
+}
@@ -0,0 +1,45 @@
+import { readError } from "./http";
+import type { CustomStyle, Team } from "../types";
+
+export interface NewStyle {
+  name: string;
+  description: string;
+  palette: string[];
+  /** Stored file URLs from uploadImage. */
+  reference_images: string[];
+  team_id: string | null;
+}
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const res = await fetch(url, init?.body
+    ? { ...init, headers: { "Content-Type": "application/json" } }
+    : init);
+  if (!res.ok) {
+    throw new Error(await readError(res));
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+};
+
+export const fetchStyles = () => request<CustomStyle[]>("/api/styles");
+
+export const createStyle = (style: NewStyle) =>
+  request<CustomStyle>("/api/styles", { method: "POST", body: JSON.stringify(style) });
+
+export const deleteStyle = (id: string) =>
+  request<void>(`/api/styles/${encodeURIComponent(id)}`, { method: "DELETE" });
+
+/** Makes a shared style private to its owner again. */
+export const unshareStyle = (id: string) =>
+  request<CustomStyle>(`/api/styles/${encodeURIComponent(id)}/share`, { method: "DELETE" });
+
+export const fetchTeams = () => request<Team[]>("/api/teams");
+
+export const createTeam = (name: string) =>
+  request<Team[]>("/api/teams", { method: "POST", body: JSON.stringify({ name }) });
+
+export const joinTeam = (invite_code: string) =>
+  request<Team[]>("/api/teams/join", { method: "POST", body: JSON.stringify({ invite_code }) });
+
+/** Leaves a team; the styles you shared with it become private again. */
+export const leaveTeam = (id: string) =>
+  request<Team[]>(`/api/teams/${encodeURIComponent(id)}/leave`, { method: "POST" });
@@ -0,0 +1,309 @@
+// Shapes shared between the React app and the API server.
+
+import type { RoomAnalysis } from "./services/providers/types";
+
+export interface Project {
+  id: string;
+  /** URL of the stored image, e.g. `/files/<sha256>.jpg`. */
+  original_image: string;
+  original_thumbnail: string;
+  redesigned_image: string;
+  redesigned_thumbnail: string;
+  /** The version shown as `redesigned_image`; see ProjectVersion. */
+  current_version: number;
+  style: string;
+  room_type: string;
+  analysis: string;
+  /** User-given name; null shows the default "<room type> Redesign". */
+  title: string | null;
+  archived_at: string | null;
+  /** The multi-room home this room belongs to, if any. */
+  home_id: string | null;
+  /** Set when a moderator hid the project; it can no longer be shared. */
+  hidden_at: string | null;
+  created_at: string;
+}
+
+/** A property whose rooms share one style and palette; see /api/homes. */
+export interface Home {
+  id: string;
+  name: string;
+  /** Preset or custom style id used for every room. */
+  style: string;
+  /** Hex colours applied to every room on top of the style's own. */
+  palette: string[];
+  room_count: number;
+  /** Thumbnail of the newest room, or null for an empty home. */
+  cover_image: string | null;
+  created_at: string;
+}
+
+export interface HomeDetail extends Home {
+  rooms: Project[];
+}
+
+/** One page of GET /api/projects. */
+export interface ProjectPage {
+  projects: Project[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+export interface ProjectFacets {
+  styles: string[];
+  room_types: string[];
+}
+
+export interface ProjectVersion {
+  version: number;
+  image: string;
+  thumbnail: string;
+  /** The refinement request that produced this version; null for the first render. */
+  instruction: string | null;
+  created_at: string;
+}
+
+export interface ChatMessage {
+  id: number;
+  role: "user" | "assistant";
+  /** Empty for events. */
+  content: string;
+  version: number | null;
+  /** Set for entries the app adds itself, such as a revert to `version`; null for chat. */
+  event: "revert" | null;
+  created_at: string;
+}
+
+export interface ProjectHistory {
+  versions: ProjectVersion[];
+  messages: ChatMessage[];
+}
+
+/** A user-defined style; `palette` holds hex colours and `reference_images` stored file URLs. */
+export interface CustomStyle {
+  id: string;
+  owner_id: string;
+  /** Set when the style is shared with a team's library. */
+  team_id: string | null;
+  team_name: string | null;
+  name: string;
+  description: string;
+  palette: string[];
+  reference_images: string[];
+  created_at: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  invite_code: string;
+  role: "owner" | "member";
+}
+
+export interface UserData {
+  id: string;
+  email: string;
+  name: string;
+  credits: number;
+  /** Balance right after the latest grant or purchase, which the credits meter counts down from. */
+  credits_max: number;
+  role: UserRole;
+}
+
+/** Admins can open the admin console; see ADMIN_EMAILS. */
+export type UserRole = "user" | "admin";
+
+export type CreditTransactionKind = "grant" | "debit" | "refund" | "purchase";
+
+/** One entry in a user's credit ledger; see /api/credits/transactions. */
+export interface CreditTransaction {
+  id: number;
+  kind: CreditTransactionKind;
+  /** Negative for debits. */
+  amount: number;
+  /** The user's balance after this entry. */
+  balance: number;
+  description: string;
+  job_id: string | null;
+  project_id: string | null;
+  order_id: string | null;
+  created_at: string;
+}
+
+export interface CreditTransactionPage {
+  transactions: CreditTransaction[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+/** A credit pack on sale. Plans are the larger bundles, top-ups the small ones. */
+export interface CreditPlan {
+  id: string;
+  kind: "plan" | "top-up";
+  name: string;
+  description: string;
+  credits: number;
+  price_inr: number;
+}
+
+/** Where to send the user to pay for an order. */
+export interface Checkout {
+  order_id: string;
+  checkout_url: string;
+}
+
+export interface StoredImage {
+  url: string;
+  thumbnail_url: string;
+}
+
+/** A public, read-only link to a project; see /s/:token. */
+export interface ShareLink {
+  token: string;
+  url: string;
+  /** ISO timestamp, or null for a link that never expires. */
+  expires_at: string | null;
+  created_at: string;
+}
+
+export type GenerationJobKind = "redesign" | "inpaint" | "refine";
+export type GenerationJobStatus = "queued" | "running" | "succeeded" | "failed" | "canceled";
+export type GenerationJobStage = "queued" | "analyzing" | "generating" | "saving" | "done";
+
+export interface GenerationJobResult {
+  analysis: RoomAnalysis;
+  /** Stored file URLs; one per variation for multi-variation runs. */
+  images: string[];
+  /** The saved project, unless the run produced variations to choose from. */
+  project_id: string | null;
+  /** Preserve-layout runs only: how well each image kept the room's structure, in `images` order. */
+  layout?: LayoutCheck[];
+  /** Reused from an earlier run with the same photo and style; a single design's credit is refunded. */
+  cached?: boolean;
+  /** Refinements only: the model's description of what it changed. */
+  reply?: string;
+}
+
+export interface LayoutCheck {
+  /** 0-1; how closely the walls, windows and doors line up with the original photo. */
+  score: number;
+  /** The structure still moved after retries. */
+  drifted: boolean;
+}
+
+/** A redesign, edit or refinement running on the server; see /api/jobs. */
+export interface GenerationJob {
+  id: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  stage: GenerationJobStage;
+  /** The uploaded room photo and the style id, so the design view can be restored. */
+  image: string;
+  style: string;
+  variations: number;
+  home_id: string | null;
+  preserve_layout: boolean;
+  result: GenerationJobResult | null;
+  /** `kind` is an AIErrorKind, "credits" or "unknown". */
+  error: { kind: string; message: string } | null;
+  created_at: string;
+}
+
+/** A reference interior from the inspiration gallery; see /api/inspiration. */
+export interface InspirationImage {
+  /** Id at the provider that supplied it. */
+  id: string;
+  provider: string;
+  description: string;
+  /** Full-size image for previews. */
+  image_url: string;
+  thumbnail_url: string;
+  /** Credit line the provider's terms ask us to show. */
+  author: string;
+  author_url: string | null;
+  /** The image's page at the provider. */
+  source_url: string | null;
+}
+
+export interface InspirationPage {
+  images: InspirationImage[];
+  total: number;
+  page: number;
+  per_page: number;
+}
+
+/** A user as listed in the admin console; see /api/admin. */
+export interface AdminUser {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  credits: number;
+  project_count: number;
+  job_count: number;
+  created_at: string;
+}
+
+export interface AdminUserPage {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+/** Generation jobs started on one day (UTC). */
+export interface UsageDay {
+  /** YYYY-MM-DD */
+  date: string;
+  redesigns: number;
+  /** Region edits and refinements. */
+  edits: number;
+  succeeded: number;
+  failed: number;
+  canceled: number;
+}
+
+export interface FailureStat {
+  /** An AIErrorKind, or "unknown". */
+  kind: string;
+  count: number;
+  /** Share of the finished (succeeded or failed) jobs in the window, 0-1. */
+  rate: number;
+}
+
+export interface UsageMetrics {
+  days: UsageDay[];
+  /** Jobs that succeeded or failed in the window. */
+  finished: number;
+  failures: FailureStat[];
+  /** Average time of the model calls in milliseconds; null without samples. Cached results are not counted. */
+  latency: {
+    analysis_ms: number | null;
+    redesign_ms: number | null;
+    edit_ms: number | null;
+  };
+}
+
+export interface ProjectFlag {
+  id: number;
+  reason: string;
+  reporter_email: string | null;
+  created_at: string;
+}
+
+/** A project waiting for moderation, or one already hidden. */
+export interface FlaggedProject {
+  project: Project;
+  owner: { id: string; email: string; name: string };
+  /** Reports not yet dismissed or acted on, newest first. */
+  flags: ProjectFlag[];
+}
+
+export interface ModerationPage {
+  projects: FlaggedProject[];
+  total: number;
+  page: number;
+  page_size: number;
+}